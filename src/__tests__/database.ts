@@ -0,0 +1,23 @@
+/**
+ * Test helpers: a migrated in-memory database.
+ */
+
+import { jest } from '@jest/globals';
+import { DatabaseConnection, MigrationRunner } from '../database/index.js';
+
+/**
+ * Create an in-memory database with every migration applied.
+ */
+export function createTestDatabase(): DatabaseConnection {
+  const db = new DatabaseConnection({ path: ':memory:' });
+
+  // Keep migration progress out of the test output
+  const log = jest.spyOn(console, 'log').mockImplementation(() => {});
+  try {
+    new MigrationRunner(db).migrate();
+  } finally {
+    log.mockRestore();
+  }
+
+  return db;
+}
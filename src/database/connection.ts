@@ -87,6 +87,10 @@ export class DatabaseConnection {
     // Use WAL mode for better concurrency
     this.db.pragma('journal_mode = WAL');
 
+    // Wait for locks held by other processes (MCP server, import cron, watcher)
+    // instead of failing with SQLITE_BUSY
+    this.db.pragma('busy_timeout = 5000');
+
     // Synchronous mode - NORMAL is a good balance of safety/speed
     this.db.pragma('synchronous = NORMAL');
 
@@ -0,0 +1,50 @@
+-- Migration 004: Add Embedded Vector Store
+-- Created: 2026-10-19
+-- Description: Stores embeddings inside conversations.db so semantic search
+-- works without a ChromaDB server (VECTOR_BACKEND=sqlite)
+
+-- ============================================
+-- COLLECTIONS
+-- ============================================
+
+-- A named set of vectors (mirrors a ChromaDB collection)
+CREATE TABLE vector_collections (
+  name TEXT PRIMARY KEY,
+  metadata TEXT NOT NULL DEFAULT '{}',    -- JSON collection metadata
+  dimensions INTEGER,                     -- Set by the first upsert; all vectors must match
+  created_at TEXT NOT NULL DEFAULT (datetime('now'))
+);
+
+-- ============================================
+-- EMBEDDINGS
+-- ============================================
+
+CREATE TABLE vector_embeddings (
+  collection TEXT NOT NULL,
+  id TEXT NOT NULL,                       -- Document/chunk ID
+  session_id TEXT NOT NULL,               -- Not a FK: vectors may outlive their session until reindexed
+  content TEXT NOT NULL,                  -- Embedded text
+  metadata TEXT NOT NULL DEFAULT '{}',    -- JSON document metadata
+  embedding BLOB NOT NULL,                -- Float32 array, L2-normalized (cosine = dot product)
+
+  -- Columns lifted from metadata for SQL filtering
+  project_path TEXT,
+  timestamp TEXT,
+  topic_group TEXT,
+  role TEXT,
+
+  -- Timestamps
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+  updated_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  PRIMARY KEY (collection, id),
+  FOREIGN KEY (collection) REFERENCES vector_collections(name) ON DELETE CASCADE
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX idx_vector_embeddings_session ON vector_embeddings(collection, session_id);
+CREATE INDEX idx_vector_embeddings_timestamp ON vector_embeddings(collection, timestamp);
+CREATE INDEX idx_vector_embeddings_topic ON vector_embeddings(collection, topic_group);
@@ -0,0 +1,27 @@
+-- Migration 005: Add Embedding Failure Ledger
+-- Created: 2026-10-19
+-- Description: Records chunks that could not be embedded so they are left out
+-- of the vector store instead of being stored as zero vectors, and can be
+-- retried later (index-chunks --retry-failed)
+
+-- ============================================
+-- EMBEDDING FAILURES
+-- ============================================
+
+CREATE TABLE embedding_failures (
+  collection TEXT NOT NULL,               -- Vector collection the chunk belongs to
+  chunk_id TEXT NOT NULL,
+  session_id TEXT NOT NULL,               -- Not a FK: entries for deleted sessions are dropped on retry
+  error TEXT NOT NULL,                    -- Last error message
+  attempts INTEGER NOT NULL DEFAULT 0,    -- Total attempts across all runs
+  first_failed_at TEXT NOT NULL DEFAULT (datetime('now')),
+  last_failed_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  PRIMARY KEY (collection, chunk_id)
+);
+
+-- ============================================
+-- INDEXES
+-- ============================================
+
+CREATE INDEX idx_embedding_failures_session ON embedding_failures(collection, session_id);
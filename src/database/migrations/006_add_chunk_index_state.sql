@@ -0,0 +1,23 @@
+-- Migration 006: Add Chunk Index State
+-- Created: 2026-10-19
+-- Description: Persists per-session vector indexing state so index-chunks
+-- only re-embeds new or changed sessions and removes vectors for deleted ones
+-- (replaces the /tmp checkpoint file)
+
+-- ============================================
+-- CHUNK INDEX STATE
+-- ============================================
+
+CREATE TABLE chunk_index_state (
+  collection TEXT NOT NULL,               -- Vector collection the session was indexed into
+  session_id TEXT NOT NULL,               -- Not a FK: state must outlive the session so its vectors can be removed
+  message_count INTEGER NOT NULL,         -- Messages in the session when indexed
+  last_message_id INTEGER,                -- Highest messages.id when indexed
+  content_hash TEXT NOT NULL,             -- SHA-256 of the chunk contents that were embedded
+  chunker_version INTEGER NOT NULL,       -- ChunkManager CHUNKER_VERSION used
+  embedding_model TEXT NOT NULL,          -- provider/model/dimensions used
+  chunk_count INTEGER NOT NULL DEFAULT 0,
+  indexed_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  PRIMARY KEY (collection, session_id)
+);
@@ -0,0 +1,20 @@
+-- Migration 007: Add Embedding Cache
+-- Created: 2026-10-19
+-- Description: Persistent cache of embeddings keyed by provider, model and
+-- content hash, so identical text (e.g. context replayed by resumed sessions)
+-- is only embedded once
+
+-- ============================================
+-- EMBEDDING CACHE
+-- ============================================
+
+CREATE TABLE embedding_cache (
+  provider TEXT NOT NULL,                 -- ollama, openai, hashing
+  model TEXT NOT NULL,
+  content_hash TEXT NOT NULL,             -- SHA-256 of the embedded text
+  dimensions INTEGER NOT NULL,
+  embedding BLOB NOT NULL,                -- Float32 array, as returned by the provider
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  PRIMARY KEY (provider, model, content_hash)
+);
@@ -0,0 +1,33 @@
+-- Migration 008: Add Tool Calls
+-- Created: 2026-10-19
+-- Description: Stores tool_use blocks with their inputs, paired with the
+-- matching tool_result, so tool activity can be searched by tool and input
+-- field. Existing sessions are backfilled by re-importing them
+-- (npm run import -- --no-skip-existing).
+
+-- ============================================
+-- TOOL CALLS
+-- ============================================
+
+CREATE TABLE tool_calls (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  tool_use_id TEXT NOT NULL UNIQUE,       -- Claude's tool_use id (pairs use and result)
+  session_id TEXT NOT NULL,
+  message_uuid TEXT NOT NULL,             -- Assistant message containing the tool_use
+  tool_name TEXT NOT NULL,                -- e.g. 'Bash', 'Edit', 'mcp__server__tool'
+  input TEXT NOT NULL,                    -- JSON tool input
+  timestamp TEXT NOT NULL,                -- Timestamp of the tool_use message
+
+  -- Result (null until the matching tool_result is seen)
+  result_message_uuid TEXT,               -- User message containing the tool_result
+  result TEXT,                            -- Result text (truncated for very large outputs)
+  is_error BOOLEAN NOT NULL DEFAULT FALSE,
+
+  created_at TEXT NOT NULL DEFAULT (datetime('now')),
+
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_tool_calls_session ON tool_calls(session_id, timestamp);
+CREATE INDEX idx_tool_calls_name ON tool_calls(tool_name, timestamp);
+CREATE INDEX idx_tool_calls_message ON tool_calls(message_uuid);
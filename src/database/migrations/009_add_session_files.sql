@@ -0,0 +1,51 @@
+-- Migration 009: Add Session Files
+-- Created: 2026-10-19
+-- Description: Index of the files each session read, edited, wrote or
+-- created, derived from the Read/Edit/MultiEdit/NotebookEdit/Write tool calls.
+-- Rebuilt per session on import; backfilled here from existing tool_calls.
+
+-- ============================================
+-- SESSION FILES
+-- ============================================
+
+CREATE TABLE session_files (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,
+  file_path TEXT NOT NULL,                -- Path as given to the tool (usually absolute)
+  operation TEXT NOT NULL CHECK (operation IN ('read', 'edit', 'write', 'create')),
+  count INTEGER NOT NULL DEFAULT 1,       -- Number of tool calls with this operation
+  first_seen_at TEXT NOT NULL,            -- Timestamp of the first such tool call
+  last_seen_at TEXT NOT NULL,             -- Timestamp of the last such tool call
+
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  UNIQUE (session_id, file_path, operation)
+);
+
+CREATE INDEX idx_session_files_path ON session_files(file_path);
+CREATE INDEX idx_session_files_session ON session_files(session_id);
+
+-- ============================================
+-- BACKFILL FROM TOOL CALLS
+-- ============================================
+
+-- Failed calls are skipped: a failed Edit didn't change the file.
+-- Write reports "File created successfully" for new files.
+INSERT INTO session_files (session_id, file_path, operation, count, first_seen_at, last_seen_at)
+SELECT session_id, file_path, operation, COUNT(*), MIN(timestamp), MAX(timestamp)
+FROM (
+  SELECT
+    session_id,
+    timestamp,
+    COALESCE(json_extract(input, '$.file_path'), json_extract(input, '$.notebook_path')) AS file_path,
+    CASE
+      WHEN tool_name = 'Read' THEN 'read'
+      WHEN tool_name IN ('Edit', 'MultiEdit', 'NotebookEdit') THEN 'edit'
+      WHEN result LIKE 'File created successfully%' THEN 'create'
+      ELSE 'write'
+    END AS operation
+  FROM tool_calls
+  WHERE tool_name IN ('Read', 'Edit', 'MultiEdit', 'NotebookEdit', 'Write')
+    AND is_error = 0
+)
+WHERE file_path IS NOT NULL
+GROUP BY session_id, file_path, operation;
@@ -0,0 +1,27 @@
+-- Migration 010: Add Session Metadata
+-- Created: 2026-10-19
+-- Description: Records the git branch, Claude Code version and sub-agent
+-- (sidechain) flags from the JSONL files. Branch and sidechain flags are kept
+-- per message as well, since a session can switch branches or run sub-agents.
+-- Existing sessions are backfilled by re-importing them
+-- (npm run import -- --no-skip-existing).
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+
+ALTER TABLE sessions ADD COLUMN git_branch TEXT;                -- Branch when the session started
+ALTER TABLE sessions ADD COLUMN client_version TEXT;            -- Claude Code version
+ALTER TABLE sessions ADD COLUMN is_sidechain BOOLEAN NOT NULL DEFAULT FALSE;  -- Only sub-agent traffic
+
+CREATE INDEX idx_sessions_git_branch ON sessions(git_branch);
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+
+ALTER TABLE messages ADD COLUMN git_branch TEXT;                -- Branch when the message was written
+ALTER TABLE messages ADD COLUMN is_sidechain BOOLEAN NOT NULL DEFAULT FALSE;  -- Sub-agent (Task) message
+ALTER TABLE messages ADD COLUMN agent_id TEXT;                  -- Sub-agent id for sidechain messages
+
+CREATE INDEX idx_messages_git_branch ON messages(git_branch);
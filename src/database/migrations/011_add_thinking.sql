@@ -0,0 +1,41 @@
+-- Migration 011: Add Thinking
+-- Created: 2026-10-19
+-- Description: Stores the assistant's thinking blocks separately from the
+-- visible message content, with their own FTS index so reasoning only shows
+-- up in searches that ask for it. Existing sessions are backfilled by
+-- re-importing them (npm run import -- --no-skip-existing).
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+
+ALTER TABLE messages ADD COLUMN thinking TEXT;                  -- Thinking text preceding this message
+
+-- ============================================
+-- FULL-TEXT SEARCH
+-- ============================================
+
+-- Only messages with thinking are indexed
+CREATE VIRTUAL TABLE messages_thinking_fts USING fts5(
+  thinking,
+  content=messages,
+  content_rowid=id,
+  tokenize='porter unicode61'             -- Same tokenizer as messages_fts
+);
+
+CREATE TRIGGER messages_thinking_fts_insert AFTER INSERT ON messages
+WHEN new.thinking IS NOT NULL BEGIN
+  INSERT INTO messages_thinking_fts(rowid, thinking) VALUES (new.id, new.thinking);
+END;
+
+CREATE TRIGGER messages_thinking_fts_delete AFTER DELETE ON messages
+WHEN old.thinking IS NOT NULL BEGIN
+  INSERT INTO messages_thinking_fts(messages_thinking_fts, rowid, thinking) VALUES('delete', old.id, old.thinking);
+END;
+
+CREATE TRIGGER messages_thinking_fts_update AFTER UPDATE OF thinking ON messages BEGIN
+  INSERT INTO messages_thinking_fts(messages_thinking_fts, rowid, thinking)
+    SELECT 'delete', old.id, old.thinking WHERE old.thinking IS NOT NULL;
+  INSERT INTO messages_thinking_fts(rowid, thinking)
+    SELECT new.id, new.thinking WHERE new.thinking IS NOT NULL;
+END;
@@ -0,0 +1,16 @@
+-- Migration 012: Add Sub-agent Sessions
+-- Created: 2026-10-19
+-- Description: Sub-agent (Task) transcripts are imported as child sessions
+-- linked to the parent session and the tool call that spawned them, instead
+-- of being mixed into the parent's messages. Existing sessions are split by
+-- re-importing them (npm run import -- --no-skip-existing).
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+
+ALTER TABLE sessions ADD COLUMN parent_session_id TEXT REFERENCES sessions(id) ON DELETE CASCADE;
+ALTER TABLE sessions ADD COLUMN agent_id TEXT;                  -- Sub-agent id from the JSONL
+ALTER TABLE sessions ADD COLUMN parent_tool_use_id TEXT;        -- Task/Agent tool call that spawned it
+
+CREATE INDEX idx_sessions_parent ON sessions(parent_session_id);
@@ -0,0 +1,20 @@
+-- Migration 013: Add Session Leaf
+-- Created: 2026-10-19
+-- Description: Records the leafUuid from summary/last-prompt lines, the last
+-- message of the session's main line. Used to rebuild the conversation tree
+-- from messages.parent_uuid and tell the main line from abandoned branches
+-- (edited or retried prompts). Existing sessions are backfilled by
+-- re-importing them (npm run import -- --no-skip-existing), which also
+-- reconnects parent_uuid across lines that aren't stored.
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+
+ALTER TABLE sessions ADD COLUMN leaf_uuid TEXT;                 -- Last message of the main line
+
+-- ============================================
+-- MESSAGES
+-- ============================================
+
+CREATE INDEX idx_messages_parent ON messages(parent_uuid);
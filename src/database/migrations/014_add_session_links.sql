@@ -0,0 +1,29 @@
+-- Migration 014: Add Session Links
+-- Created: 2026-10-19
+-- Description: Records when a session continues an earlier one. Resuming or
+-- compacting a conversation makes Claude Code start a new file whose summary
+-- (or first message) points back at a message in the previous file. The
+-- earlier session is resolved from that message uuid, so links are filled in
+-- whichever order the two files are imported. Existing sessions are
+-- backfilled by re-importing them (npm run import -- --no-skip-existing).
+
+-- ============================================
+-- SESSION LINKS
+-- ============================================
+
+CREATE TABLE session_links (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  session_id TEXT NOT NULL,               -- The continuing (later) session
+  target_uuid TEXT NOT NULL,              -- Message in the earlier session
+  continued_from_session_id TEXT,         -- Resolved from target_uuid; NULL until imported
+  link_type TEXT NOT NULL CHECK (link_type IN ('summary', 'resume', 'compaction')),
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE,
+  FOREIGN KEY (continued_from_session_id) REFERENCES sessions(id) ON DELETE SET NULL,
+  UNIQUE (session_id, target_uuid)
+);
+
+CREATE INDEX idx_session_links_session ON session_links(session_id);
+CREATE INDEX idx_session_links_from ON session_links(continued_from_session_id);
+CREATE INDEX idx_session_links_target ON session_links(target_uuid);
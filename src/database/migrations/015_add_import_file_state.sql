@@ -0,0 +1,25 @@
+-- Migration 015: Add Import File State
+-- Created: 2026-10-19
+-- Description: Tracks how far each JSONL file has been imported, so imports
+-- skip unchanged files and resume growing ones (active sessions) from the
+-- last complete line instead of skipping sessions that already exist.
+-- Files imported before this migration are read in full once on the next
+-- import, appending whatever messages are missing.
+
+-- ============================================
+-- IMPORT FILE STATE
+-- ============================================
+
+CREATE TABLE import_file_state (
+  file_path TEXT PRIMARY KEY,
+  session_id TEXT,                        -- Session in the file; NULL if it had no messages yet
+  size INTEGER NOT NULL,                  -- File size in bytes when last imported
+  mtime_ms INTEGER NOT NULL,              -- Modification time (ms) when last imported
+  byte_offset INTEGER NOT NULL DEFAULT 0, -- End of the last complete line imported
+  imported_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  -- Deleting the session forgets the state, so the file is imported again in full
+  FOREIGN KEY (session_id) REFERENCES sessions(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_import_file_state_session ON import_file_state(session_id);
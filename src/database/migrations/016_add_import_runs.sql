@@ -0,0 +1,55 @@
+-- Migration 016: Add Import Runs
+-- Created: 2026-10-19
+-- Description: Keeps a history of import runs (CLI imports and watch mode
+-- batches) with their counts, and a ledger of the files and lines that failed
+-- to import. Also counts the lines read per file, so errors found by an
+-- incremental import still report the line's number within the file.
+
+-- ============================================
+-- IMPORT RUNS
+-- ============================================
+
+CREATE TABLE import_runs (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  trigger TEXT NOT NULL DEFAULT 'import', -- What started it: 'import', 'watch'
+  source_dirs TEXT NOT NULL DEFAULT '[]', -- JSON array of directories
+  skip_existing BOOLEAN NOT NULL DEFAULT TRUE,
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed', 'failed')),
+  started_at DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  finished_at DATETIME,
+  duration_ms INTEGER,
+  files_found INTEGER NOT NULL DEFAULT 0,
+  files_imported INTEGER NOT NULL DEFAULT 0,
+  files_skipped INTEGER NOT NULL DEFAULT 0,
+  files_failed INTEGER NOT NULL DEFAULT 0,
+  messages_imported INTEGER NOT NULL DEFAULT 0,
+  sessions_changed INTEGER NOT NULL DEFAULT 0,
+  line_errors INTEGER NOT NULL DEFAULT 0,
+  error TEXT                              -- Why the run itself failed
+);
+
+CREATE INDEX idx_import_runs_started ON import_runs(started_at);
+
+-- ============================================
+-- IMPORT ERRORS
+-- ============================================
+
+CREATE TABLE import_errors (
+  id INTEGER PRIMARY KEY AUTOINCREMENT,
+  run_id INTEGER NOT NULL,
+  file_path TEXT NOT NULL,
+  line_number INTEGER,                    -- NULL when the whole file failed
+  error TEXT NOT NULL,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP,
+
+  FOREIGN KEY (run_id) REFERENCES import_runs(id) ON DELETE CASCADE
+);
+
+CREATE INDEX idx_import_errors_run ON import_errors(run_id);
+CREATE INDEX idx_import_errors_file ON import_errors(file_path);
+
+-- ============================================
+-- IMPORT FILE STATE
+-- ============================================
+
+ALTER TABLE import_file_state ADD COLUMN line_count INTEGER NOT NULL DEFAULT 0;  -- Lines read up to byte_offset
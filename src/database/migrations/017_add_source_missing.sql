@@ -0,0 +1,15 @@
+-- Migration 017: Add Source Missing
+-- Created: 2026-10-19
+-- Description: Sessions whose source JSONL file no longer exists (pruned by
+-- Claude Code, or moved) are flagged instead of removed, so their history
+-- stays searchable. Set and cleared by reconcile (npm run reconcile), which
+-- also relinks moved files by session id.
+
+-- ============================================
+-- SESSIONS
+-- ============================================
+
+ALTER TABLE sessions ADD COLUMN source_missing BOOLEAN DEFAULT 0;
+ALTER TABLE sessions ADD COLUMN source_missing_at DATETIME;     -- When the file was first found missing
+
+CREATE INDEX idx_sessions_source_missing ON sessions(source_missing) WHERE source_missing = 1;
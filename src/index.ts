@@ -5,6 +5,8 @@
  * MCP server for searching and organizing Claude Code conversation history.
  */
 
+import * as path from 'path';
+import * as os from 'os';
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import {
@@ -15,8 +17,33 @@ import {
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { getDatabase, closeDatabase, MigrationRunner } from './database/index.js';
-import { SessionRepository, MessageRepository, TagRepository, ProjectRepository } from './repositories/index.js';
-import { EmbeddingService, VectorStore } from './services/index.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  TagRepository,
+  ProjectRepository,
+  ToolCallRepository,
+  SessionFileRepository,
+  SessionLinkRepository,
+  ImportRunRepository,
+  ImportFileStateRepository,
+} from './repositories/index.js';
+import {
+  EmbeddingService,
+  HybridSearchService,
+  ChunkContextService,
+  ThreadingService,
+  SessionChainService,
+  ReconcileService,
+  VectorFilterResolver,
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  createVectorStore,
+  parseVectorBackend,
+} from './services/index.js';
+import type { VectorStoreBackend, ThreadBranchMode } from './services/index.js';
+import { parseSearchQuery } from './utils/index.js';
+import type { ToolCallSearchOptions, FileOperation, ImportRunStatus } from './types/models.js';
 
 // Initialize database and repositories
 const db = getDatabase();
@@ -24,17 +51,25 @@ const sessionRepo = new SessionRepository(db);
 const messageRepo = new MessageRepository(db);
 const tagRepo = new TagRepository(db);
 const projectRepo = new ProjectRepository(db);
-
-// Lazy-initialize vector store (requires ChromaDB and Ollama)
-let vectorStore: VectorStore | null = null;
+const toolCallRepo = new ToolCallRepository(db);
+const sessionFileRepo = new SessionFileRepository(db);
+const sessionLinkRepo = new SessionLinkRepository(db);
+const importRunRepo = new ImportRunRepository(db);
+const threadingService = new ThreadingService(messageRepo, sessionRepo, toolCallRepo);
+const sessionChainService = new SessionChainService(sessionRepo, sessionLinkRepo, threadingService);
+const reconcileService = new ReconcileService(db, sessionRepo, new ImportFileStateRepository(db));
+
+// Lazy-initialize vector store (requires an embedding provider, plus ChromaDB unless VECTOR_BACKEND=sqlite)
+let vectorStore: VectorStoreBackend | null = null;
+const VECTOR_BACKEND = process.env.VECTOR_BACKEND;
 const CHROMA_HOST = process.env.CHROMA_HOST || 'http://localhost:8000';
-const OLLAMA_HOST = process.env.OLLAMA_HOST || 'http://localhost:11434';
 
-async function getVectorStore(): Promise<VectorStore | null> {
+async function getVectorStore(): Promise<VectorStoreBackend | null> {
   if (vectorStore) return vectorStore;
 
   try {
-    const embeddingService = new EmbeddingService(OLLAMA_HOST);
+    // EMBEDDING_PROVIDER=ollama|openai|hashing (see EmbeddingProvider.ts)
+    const embeddingService = new EmbeddingService(createEmbeddingProvider(embeddingConfigFromEnv()));
     const health = await embeddingService.healthCheck();
 
     if (!health.available || !health.model_loaded) {
@@ -42,8 +77,22 @@ async function getVectorStore(): Promise<VectorStore | null> {
       return null;
     }
 
-    vectorStore = new VectorStore(embeddingService, 'conversation_messages', CHROMA_HOST);
-    await vectorStore.initialize();
+    const store = createVectorStore({
+      backend: parseVectorBackend(VECTOR_BACKEND),
+      embeddingService,
+      collectionName: 'conversation_messages',
+      chromaHost: CHROMA_HOST,
+      db,
+    });
+
+    const storeHealth = await store.healthCheck();
+    if (!storeHealth.available) {
+      console.error(`Vector search unavailable (${store.backend}):`, storeHealth.error);
+      return null;
+    }
+
+    await store.initialize();
+    vectorStore = store;
     return vectorStore;
   } catch (error) {
     console.error('Failed to initialize vector store:', error);
@@ -69,18 +118,25 @@ const server = new Server(
 const TOOLS = [
   {
     name: 'search_conversations',
-    description: 'Search conversation history using full-text search. Returns sessions with matching messages.',
+    description: 'Search conversation history using full-text search. Returns sessions with matching messages. ' +
+      'Query syntax: words are ANDed, "quoted phrases" match exactly, -word excludes, a OR b, word* for prefixes, ' +
+      'and filters project:<path> tag:<name> role:<user|assistant> after:<YYYY-MM-DD> before:<YYYY-MM-DD> model:<name> branch:<name>. ' +
+      'Example: project:catzen tag:bug role:user after:2025-10-01 "race condition" -docker',
     inputSchema: {
       type: 'object' as const,
       properties: {
         query: {
           type: 'string',
-          description: 'Search query (supports phrases in quotes)',
+          description: 'Search query using the structured syntax (terms, "phrases", -exclusions, OR, field:value filters)',
         },
         limit: {
           type: 'number',
           description: 'Maximum results to return (default: 20)',
         },
+        offset: {
+          type: 'number',
+          description: 'Pagination offset over sessions (or messages with granularity "message"); use next_offset from the previous page (default: 0)',
+        },
         role: {
           type: 'string',
           enum: ['user', 'assistant'],
@@ -88,7 +144,44 @@ const TOOLS = [
         },
         project: {
           type: 'string',
-          description: 'Filter by project path (partial match)',
+          description: 'Filter by project: numeric project ID, path prefix (starting with /), or partial name/path',
+        },
+        tag: {
+          type: 'string',
+          description: 'Filter to sessions with this tag',
+        },
+        date_from: {
+          type: 'string',
+          description: 'Only messages at or after this date (ISO 8601, e.g. 2025-10-01)',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Only messages at or before this date (ISO 8601)',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Limit search to a specific session',
+        },
+        branch: {
+          type: 'string',
+          description: 'Only messages written on this git branch',
+        },
+        include_subagents: {
+          type: 'boolean',
+          description: 'Include sub-agent (sidechain) traffic (default: true)',
+        },
+        include_thinking: {
+          type: 'boolean',
+          description: 'Also search the assistant\'s thinking, which is indexed separately from visible content (default: false)',
+        },
+        granularity: {
+          type: 'string',
+          enum: ['session', 'message'],
+          description: 'Group hits per session (default) or return each matching message with its uuid, role and timestamp',
+        },
+        context: {
+          type: 'number',
+          description: 'Message granularity only: include N messages before and after each hit (default: 0, max: 10)',
         },
       },
       required: ['query'],
@@ -120,12 +213,22 @@ const TOOLS = [
           type: 'boolean',
           description: 'Filter sessions that have/lack titles',
         },
+        branch: {
+          type: 'string',
+          description: 'Filter to sessions that started on or switched to this git branch',
+        },
+        include_subagents: {
+          type: 'boolean',
+          description: 'Include sub-agent (sidechain) sessions (default: true)',
+        },
       },
     },
   },
   {
     name: 'get_session',
-    description: 'Get details of a specific conversation session including messages.',
+    description: 'Get details of a specific conversation session including messages. ' +
+      'Sub-agent (Task) transcripts are listed under subagents and can be fetched as sessions of their own. ' +
+      'Resumed or compacted conversations list the sessions they were continued from/in (see get_session_chain).',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -141,6 +244,15 @@ const TOOLS = [
           type: 'number',
           description: 'Maximum messages to include (default: 100)',
         },
+        include_thinking: {
+          type: 'boolean',
+          description: 'Include the assistant\'s thinking with each message (default: false)',
+        },
+        branch: {
+          type: 'string',
+          enum: ['main', 'all'],
+          description: 'main: only the final conversation line, skipping edited and retried branches; all: every message (default: all)',
+        },
       },
       required: ['session_id'],
     },
@@ -168,6 +280,66 @@ const TOOLS = [
           enum: ['user', 'assistant'],
           description: 'Filter by role',
         },
+        include_thinking: {
+          type: 'boolean',
+          description: 'Include the assistant\'s thinking with each message (default: false)',
+        },
+        branch: {
+          type: 'string',
+          enum: ['main', 'all'],
+          description: 'main: only the final conversation line, skipping edited and retried branches; all: every message (default: all)',
+        },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'get_session_chain',
+    description: 'Get a whole logical conversation that was resumed or compacted into several sessions, ' +
+      'with the messages of every session stitched together in order.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'Any session of the chain',
+        },
+        branch: {
+          type: 'string',
+          enum: ['main', 'all'],
+          description: 'main: only the final conversation line of each session; all: every message (default: main)',
+        },
+        include_messages: {
+          type: 'boolean',
+          description: 'Include message content (default: true)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum messages to return across the chain (default: 100)',
+        },
+        offset: {
+          type: 'number',
+          description: 'Pagination offset into the chain\'s messages (default: 0)',
+        },
+      },
+      required: ['session_id'],
+    },
+  },
+  {
+    name: 'get_session_tree',
+    description: 'Get the conversation tree of a session. Edited prompts and retries fork the conversation; ' +
+      'messages on the final line are marked main, abandoned branches dead.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'Session UUID',
+        },
+        include_nodes: {
+          type: 'boolean',
+          description: 'Include every message as a tree node (default: true)',
+        },
       },
       required: ['session_id'],
     },
@@ -282,6 +454,63 @@ const TOOLS = [
       properties: {},
     },
   },
+  {
+    name: 'get_import_history',
+    description: 'Get recent import runs with their counts, and the files and lines that failed to import.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        run_id: {
+          type: 'number',
+          description: 'Get a single run by id',
+        },
+        status: {
+          type: 'string',
+          enum: ['running', 'completed', 'failed'],
+          description: 'Filter by run status',
+        },
+        trigger: {
+          type: 'string',
+          description: 'Filter by what started the run (e.g. "import", "watch")',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum runs to return (default: 10)',
+        },
+        offset: {
+          type: 'number',
+          description: 'Pagination offset (default: 0)',
+        },
+        include_errors: {
+          type: 'boolean',
+          description: 'Include the failed files and lines of each run (default: true)',
+        },
+        error_limit: {
+          type: 'number',
+          description: 'Maximum errors to return per run (default: 20)',
+        },
+      },
+    },
+  },
+  {
+    name: 'reconcile_sources',
+    description: 'Check sessions against their source JSONL files. Moved files are relinked by session id; ' +
+      'sessions whose file is gone are flagged source_missing and kept searchable. Nothing is deleted.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        source_dirs: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'Directories to look for moved files in (default: ~/.claude/projects)',
+        },
+        dry_run: {
+          type: 'boolean',
+          description: 'Report the changes without applying them (default: false)',
+        },
+      },
+    },
+  },
   {
     name: 'list_projects',
     description: 'List all projects with session/message counts and activity timestamps.',
@@ -341,7 +570,7 @@ const TOOLS = [
   },
   {
     name: 'semantic_search',
-    description: 'Search conversations using semantic similarity (requires ChromaDB + Ollama). Finds conceptually related content even without exact keyword matches.',
+    description: 'Search conversations using semantic similarity (requires an embedding provider, plus ChromaDB unless VECTOR_BACKEND=sqlite). Finds conceptually related content even without exact keyword matches.',
     inputSchema: {
       type: 'object' as const,
       properties: {
@@ -357,14 +586,253 @@ const TOOLS = [
           type: 'string',
           description: 'Optional: limit search to a specific session',
         },
+        project: {
+          type: 'string',
+          description: 'Filter by project: numeric project ID, path prefix (starting with /), or partial name/path',
+        },
+        tag: {
+          type: 'string',
+          description: 'Filter to sessions with this tag',
+        },
+        topic: {
+          type: 'string',
+          description: 'Filter to chunks in this topic group',
+        },
+        role: {
+          type: 'string',
+          enum: ['user', 'assistant'],
+          description: 'Filter by message role. Only per-message vectors (index-vectors) record a role; conversation chunks (index-chunks) hold both roles and never match',
+        },
+        date_from: {
+          type: 'string',
+          description: 'Only chunks at or after this date (ISO 8601)',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Only chunks at or before this date (ISO 8601)',
+        },
+        branch: {
+          type: 'string',
+          description: 'Filter to sessions that started on or switched to this git branch',
+        },
+        include_subagents: {
+          type: 'boolean',
+          description: 'Include sub-agent (sidechain) sessions (default: true)',
+        },
         min_similarity: {
           type: 'number',
           description: 'Minimum similarity score 0-1 (default: 0.5)',
         },
+        expand: {
+          type: 'number',
+          description: 'Include the conversation turns from up to N adjacent chunks before and after each match (default: 0, max: 10)',
+        },
+        mmr_lambda: {
+          type: 'number',
+          description: 'Diversify results with maximal marginal relevance: 1 = pure relevance, lower values favour chunks unlike those already returned (e.g. 0.7; default: off)',
+        },
+        max_per_session: {
+          type: 'number',
+          description: 'Maximum chunks returned from any one session (default: unlimited)',
+        },
+        group_by: {
+          type: 'string',
+          enum: ['chunk', 'session'],
+          description: 'Return individual chunks (default) or one result per session with its matching chunks, like search_conversations; limit then counts sessions',
+        },
       },
       required: ['query'],
     },
   },
+  {
+    name: 'get_chunk_context',
+    description: 'Expand a semantic search match into the surrounding conversation by following its previous/next chunk links. Returns the user/assistant turns in order.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        chunk_id: {
+          type: 'string',
+          description: 'Chunk ID from semantic_search results',
+        },
+        steps: {
+          type: 'number',
+          description: 'Adjacent chunks to include in each direction (default: 2, max: 10)',
+        },
+      },
+      required: ['chunk_id'],
+    },
+  },
+  {
+    name: 'hybrid_search',
+    description: 'Search conversations with both full-text (FTS5 bm25) and semantic (vector) search, fusing the rankings per session. Falls back to full-text only when the vector store is unavailable. Accepts the same query syntax and filters as search_conversations.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        query: {
+          type: 'string',
+          description: 'Search query (structured syntax as in search_conversations; free text is also embedded for semantic search)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum sessions to return (default: 10)',
+        },
+        semantic_weight: {
+          type: 'number',
+          description: 'Weight of semantic vs keyword ranking, 0-1 (default: 0.5)',
+        },
+        fusion: {
+          type: 'string',
+          enum: ['rrf', 'weighted'],
+          description: 'Fusion strategy: reciprocal-rank fusion (default) or weighted normalized scores',
+        },
+        min_similarity: {
+          type: 'number',
+          description: 'Minimum similarity for semantic hits, 0-1 (default: 0.3)',
+        },
+        include_adjacent: {
+          type: 'boolean',
+          description: 'Include the chunks before and after each semantic match (default: false)',
+        },
+        role: {
+          type: 'string',
+          enum: ['user', 'assistant'],
+          description: 'Filter by message role',
+        },
+        project: {
+          type: 'string',
+          description: 'Filter by project: numeric project ID, path prefix (starting with /), or partial name/path',
+        },
+        tag: {
+          type: 'string',
+          description: 'Filter to sessions with this tag',
+        },
+        date_from: {
+          type: 'string',
+          description: 'Only messages at or after this date (ISO 8601)',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Only messages at or before this date (ISO 8601)',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Limit search to a specific session',
+        },
+        branch: {
+          type: 'string',
+          description: 'Only messages written on this git branch',
+        },
+        include_subagents: {
+          type: 'boolean',
+          description: 'Include sub-agent (sidechain) traffic (default: true)',
+        },
+      },
+      required: ['query'],
+    },
+  },
+  {
+    name: 'search_tool_calls',
+    description: 'Search the tools Claude ran (Bash commands, file edits, MCP tools, ...) by tool name and input fields, with their results. ' +
+      'Example: tool_name "Bash" with input {"command": "npm publish"}, or tool_name "Edit" with input {"file_path": "src/index.ts"}.',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        tool_name: {
+          type: 'string',
+          description: 'Exact tool name, case-insensitive (e.g. Bash, Edit, Write, Read)',
+        },
+        input: {
+          type: 'object',
+          description: 'Input fields to match: keys are JSON paths into the tool input (e.g. "command", "file_path", "edits[0].old_string"), values are substrings',
+          additionalProperties: { type: 'string' },
+        },
+        input_contains: {
+          type: 'string',
+          description: 'Substring anywhere in the JSON input',
+        },
+        is_error: {
+          type: 'boolean',
+          description: 'Only calls whose result was (or was not) an error',
+        },
+        project: {
+          type: 'string',
+          description: 'Filter by project: numeric project ID, path prefix (starting with /), or partial name/path',
+        },
+        session_id: {
+          type: 'string',
+          description: 'Limit search to a specific session',
+        },
+        date_from: {
+          type: 'string',
+          description: 'Only calls at or after this date (ISO 8601)',
+        },
+        date_to: {
+          type: 'string',
+          description: 'Only calls at or before this date (ISO 8601)',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum results to return, newest first (default: 20)',
+        },
+        offset: {
+          type: 'number',
+          description: 'Pagination offset (default: 0)',
+        },
+      },
+    },
+  },
+  {
+    name: 'find_sessions_by_file',
+    description: 'Find conversations that read, edited, wrote or created a file. ' +
+      'Absolute paths also match files below a directory; relative paths match on a path suffix ' +
+      '(e.g. "src/services/VectorStore.ts").',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        file_path: {
+          type: 'string',
+          description: 'Absolute file or directory path, or a relative path suffix',
+        },
+        operations: {
+          type: 'array',
+          items: { type: 'string', enum: ['read', 'edit', 'write', 'create'] },
+          description: 'Only these operations, e.g. ["edit", "write", "create"] for sessions that changed the file (default: all)',
+        },
+        project: {
+          type: 'string',
+          description: 'Filter by project: numeric project ID, path prefix (starting with /), or partial name/path',
+        },
+        limit: {
+          type: 'number',
+          description: 'Maximum sessions to return, most recent first (default: 20)',
+        },
+        offset: {
+          type: 'number',
+          description: 'Pagination offset (default: 0)',
+        },
+      },
+      required: ['file_path'],
+    },
+  },
+  {
+    name: 'get_session_files',
+    description: 'List the files a conversation read, edited, wrote or created, with per-operation counts',
+    inputSchema: {
+      type: 'object' as const,
+      properties: {
+        session_id: {
+          type: 'string',
+          description: 'The session ID',
+        },
+        operations: {
+          type: 'array',
+          items: { type: 'string', enum: ['read', 'edit', 'write', 'create'] },
+          description: 'Only these operations (default: all)',
+        },
+      },
+      required: ['session_id'],
+    },
+  },
 ];
 
 // Prompt definitions - these appear as slash commands in Claude Code
@@ -623,22 +1091,106 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case 'search_conversations': {
-        const { query, limit = 20, role, project } = args as {
+        const {
+          query,
+          limit = 20,
+          offset = 0,
+          role,
+          project,
+          tag,
+          date_from,
+          date_to,
+          session_id,
+          branch,
+          include_subagents,
+          include_thinking = false,
+          granularity = 'session',
+          context = 0,
+        } = args as {
           query: string;
           limit?: number;
+          offset?: number;
           role?: 'user' | 'assistant';
           project?: string;
+          tag?: string;
+          date_from?: string;
+          date_to?: string;
+          session_id?: string;
+          branch?: string;
+          include_subagents?: boolean;
+          include_thinking?: boolean;
+          granularity?: 'session' | 'message';
+          context?: number;
         };
 
-        const results = messageRepo.search(query, limit, {
+        const parsed = parseSearchQuery(query);
+        const searchOptions = {
+          query,
+          limit,
+          offset,
           role,
-          session_id: undefined,
-        });
+          project,
+          tag,
+          date_from,
+          date_to,
+          session_id,
+          branch,
+          include_subagents,
+          include_thinking,
+        };
+
+        if (granularity === 'message') {
+          const page = messageRepo.searchMessages({
+            ...searchOptions,
+            context: Math.min(Math.max(context, 0), 10),
+          });
+
+          const formatContext = (messages: typeof page.results[number]['context_before']) =>
+            messages?.map(m => ({
+              uuid: m.uuid,
+              role: m.role,
+              content: m.content,
+              timestamp: m.timestamp,
+            }));
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  query,
+                  granularity,
+                  parsed: {
+                    terms: parsed.terms,
+                    excluded: parsed.excluded,
+                    filters: parsed.filters,
+                  },
+                  total_hits: page.total_hits,
+                  total_sessions: page.total_sessions,
+                  offset: page.offset,
+                  limit: page.limit,
+                  has_more: page.has_more,
+                  next_offset: page.next_offset,
+                  results: page.results.map(h => ({
+                    message_uuid: h.message_uuid,
+                    session_id: h.session_id,
+                    title: h.session_title,
+                    project: h.project_path,
+                    role: h.role,
+                    timestamp: h.timestamp,
+                    relevance_score: h.relevance_score,
+                    matched_in: include_thinking ? h.matched_in : undefined,
+                    snippet: h.snippet,
+                    context_before: formatContext(h.context_before),
+                    context_after: formatContext(h.context_after),
+                  })),
+                }, null, 2),
+              },
+            ],
+          };
+        }
 
-        // Filter by project if specified
-        const filtered = project
-          ? results.filter(r => r.session.project_path?.includes(project))
-          : results;
+        const page = messageRepo.search(searchOptions);
 
         return {
           content: [
@@ -646,14 +1198,25 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 query,
-                total_results: filtered.length,
-                results: filtered.map(r => ({
+                parsed: {
+                  terms: parsed.terms,
+                  excluded: parsed.excluded,
+                  filters: parsed.filters,
+                },
+                total_sessions: page.total_sessions,
+                total_hits: page.total_hits,
+                offset: page.offset,
+                limit: page.limit,
+                has_more: page.has_more,
+                next_offset: page.next_offset,
+                results: page.results.map(r => ({
                   session_id: r.session.id,
                   title: r.session.title,
                   project: r.session.project_path,
                   started_at: r.session.started_at,
                   match_count: r.match_count,
                   relevance_score: r.relevance_score,
+                  matched_in: include_thinking ? r.matched_in : undefined,
                   snippet: r.matching_content,
                 })),
               }, null, 2),
@@ -663,12 +1226,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'browse_sessions': {
-        const { limit = 20, offset = 0, project, tag, has_title } = args as {
+        const { limit = 20, offset = 0, project, tag, has_title, branch, include_subagents } = args as {
           limit?: number;
           offset?: number;
           project?: string;
           tag?: string;
           has_title?: boolean;
+          branch?: string;
+          include_subagents?: boolean;
         };
 
         // Get tag ID if filtering by tag
@@ -693,12 +1258,16 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           project_path: project,
           tag_id: tagId,
           has_title,
+          git_branch: branch,
+          include_subagents,
         });
 
         const total = sessionRepo.count({
           project_path: project,
           tag_id: tagId,
           has_title,
+          git_branch: branch,
+          include_subagents,
         });
 
         return {
@@ -716,6 +1285,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   project: s.project_path,
                   started_at: s.started_at,
                   message_count: s.message_count,
+                  git_branch: s.git_branch,
+                  parent_session_id: s.parent_session_id ?? undefined,
                   tags: s.tags.map(t => t.name),
                   first_message: s.first_message,
                 })),
@@ -726,10 +1297,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_session': {
-        const { session_id, include_messages = true, message_limit = 100 } = args as {
+        const {
+          session_id,
+          include_messages = true,
+          message_limit = 100,
+          include_thinking = false,
+          branch = 'all',
+        } = args as {
           session_id: string;
           include_messages?: boolean;
           message_limit?: number;
+          include_thinking?: boolean;
+          branch?: ThreadBranchMode;
         };
 
         const session = sessionRepo.findById(session_id);
@@ -745,9 +1324,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         }
 
         const tags = tagRepo.findBySession(session_id);
-        const messages = include_messages
-          ? messageRepo.findBySession(session_id, message_limit)
-          : [];
+        const subagents = sessionRepo.findChildren(session_id);
+        const continuedFrom = sessionLinkRepo.findContinuedFrom(session_id);
+        const continuedIn = sessionLinkRepo.findContinuedIn(session_id);
+        const messages = !include_messages
+          ? []
+          : branch === 'main'
+            ? threadingService.getMessages(session_id, 'main').slice(0, message_limit)
+            : messageRepo.findBySession(session_id, message_limit);
 
         return {
           content: [
@@ -758,10 +1342,24 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                   ...session,
                   tags: tags.map(t => t.name),
                 },
+                // Collapsed: pass a sub-agent's session_id to get_session to expand it
+                subagents: subagents.map(child => ({
+                  session_id: child.id,
+                  agent_id: child.agent_id,
+                  parent_tool_use_id: child.parent_tool_use_id,
+                  title: child.title,
+                  started_at: child.started_at,
+                  ended_at: child.ended_at,
+                  message_count: child.message_count,
+                })),
+                // session_id is null while the earlier session isn't imported
+                continued_from: continuedFrom,
+                continued_in: continuedIn,
                 messages: messages.map(m => ({
                   uuid: m.uuid,
                   role: m.role,
                   content: m.content,
+                  thinking: include_thinking ? m.thinking ?? undefined : undefined,
                   timestamp: m.timestamp,
                   model: m.model,
                 })),
@@ -772,18 +1370,28 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'get_messages': {
-        const { session_id, limit = 50, offset = 0, role } = args as {
+        const { session_id, limit = 50, offset = 0, role, include_thinking = false, branch = 'all' } = args as {
           session_id: string;
           limit?: number;
           offset?: number;
           role?: 'user' | 'assistant';
+          include_thinking?: boolean;
+          branch?: ThreadBranchMode;
         };
 
-        const messages = messageRepo.find(
-          { session_id, role },
-          limit,
-          offset
-        );
+        let messages;
+        let total;
+        if (branch === 'main') {
+          // The main line is resolved in memory, so role and paging are too
+          const mainLine = threadingService
+            .getMessages(session_id, 'main')
+            .filter(m => !role || m.role === role);
+          messages = mainLine.slice(offset, offset + limit);
+          total = mainLine.length;
+        } else {
+          messages = messageRepo.find({ session_id, role }, limit, offset);
+          total = messageRepo.count({ session_id, role });
+        }
 
         return {
           content: [
@@ -791,13 +1399,14 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               type: 'text',
               text: JSON.stringify({
                 session_id,
-                total: messageRepo.count({ session_id, role }),
+                total,
                 offset,
                 limit,
                 messages: messages.map(m => ({
                   uuid: m.uuid,
                   role: m.role,
                   content: m.content,
+                  thinking: include_thinking ? m.thinking ?? undefined : undefined,
                   timestamp: m.timestamp,
                   model: m.model,
                 })),
@@ -807,6 +1416,117 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_session_chain': {
+        const { session_id, branch = 'main', include_messages = true, limit = 100, offset = 0 } = args as {
+          session_id: string;
+          branch?: ThreadBranchMode;
+          include_messages?: boolean;
+          limit?: number;
+          offset?: number;
+        };
+
+        const chain = sessionChainService.getChain(session_id, branch);
+        if (!chain) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: `Session not found: ${session_id}` }),
+              },
+            ],
+          };
+        }
+
+        const messages = chain.segments
+          .flatMap(segment => segment.messages)
+          .slice(offset, offset + limit);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                session_id,
+                sessions: chain.segments.map(segment => ({
+                  session_id: segment.session.id,
+                  title: segment.session.title,
+                  project_path: segment.session.project_path,
+                  started_at: segment.session.started_at,
+                  ended_at: segment.session.ended_at,
+                  link_type: segment.link_type,
+                  continued_from_uuid: segment.continued_from_uuid,
+                  other_continuations: segment.other_continuations.length > 0 ? segment.other_continuations : undefined,
+                  message_count: segment.messages.length,
+                })),
+                total: chain.message_count,
+                offset,
+                limit,
+                messages: include_messages
+                  ? messages.map(m => ({
+                      session_id: m.session_id,
+                      uuid: m.uuid,
+                      role: m.role,
+                      content: m.content,
+                      timestamp: m.timestamp,
+                      model: m.model,
+                    }))
+                  : undefined,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_session_tree': {
+        const { session_id, include_nodes = true } = args as {
+          session_id: string;
+          include_nodes?: boolean;
+        };
+
+        const thread = threadingService.buildThread(session_id);
+        if (!thread) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: `Session not found: ${session_id}` }),
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                session_id,
+                leaf_uuid: thread.leaf_uuid,
+                leaf_source: thread.leaf_source,
+                message_count: thread.messages.length,
+                main_line_count: thread.main_line_count,
+                dead_count: thread.dead_count,
+                roots: thread.roots,
+                branch_points: thread.branch_points,
+                nodes: include_nodes
+                  ? thread.messages.map(({ message, parent_uuid, on_main_line, depth }) => ({
+                      uuid: message.uuid,
+                      parent_uuid,
+                      role: message.role,
+                      status: on_main_line ? 'main' : 'dead',
+                      depth,
+                      timestamp: message.timestamp,
+                      preview: message.content.length > 100
+                        ? message.content.slice(0, 100) + '...'
+                        : message.content,
+                    }))
+                  : undefined,
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'list_tags': {
         const tags = tagRepo.findAllWithCounts();
 
@@ -985,6 +1705,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         const sessionCount = sessionRepo.count();
         const messageCount = messageRepo.count();
         const tagCount = tagRepo.count();
+        const toolCallCount = toolCallRepo.count();
+        const fileCount = sessionFileRepo.countFiles();
         const messagesByRole = messageRepo.countByRole();
         const dateRange = messageRepo.getDateRange();
         const dbStats = db.getStats();
@@ -997,6 +1719,8 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
                 sessions: sessionCount,
                 messages: messageCount,
                 tags: tagCount,
+                tool_calls: toolCallCount,
+                files_touched: fileCount,
                 messages_by_role: messagesByRole,
                 date_range: dateRange,
                 database: {
@@ -1010,6 +1734,90 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_import_history': {
+        const {
+          run_id,
+          status,
+          trigger,
+          limit = 10,
+          offset = 0,
+          include_errors = true,
+          error_limit = 20,
+        } = args as {
+          run_id?: number;
+          status?: ImportRunStatus;
+          trigger?: string;
+          limit?: number;
+          offset?: number;
+          include_errors?: boolean;
+          error_limit?: number;
+        };
+
+        let runs;
+        let total;
+        if (run_id !== undefined) {
+          const run = importRunRepo.findById(run_id);
+          if (!run) {
+            return {
+              content: [
+                {
+                  type: 'text',
+                  text: JSON.stringify({ error: `Import run not found: ${run_id}` }),
+                },
+              ],
+            };
+          }
+          runs = [run];
+          total = 1;
+        } else {
+          runs = importRunRepo.findRecent({ status, trigger }, limit, offset);
+          total = importRunRepo.count({ status, trigger });
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                total,
+                runs: runs.map(run => ({
+                  ...run,
+                  error_count: importRunRepo.countErrors(run.id),
+                  errors: include_errors
+                    ? importRunRepo.findErrors(run.id, error_limit).map(e => ({
+                        file_path: e.file_path,
+                        line_number: e.line_number ?? undefined,
+                        error: e.error,
+                      }))
+                    : undefined,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'reconcile_sources': {
+        const {
+          source_dirs = [path.join(os.homedir(), '.claude/projects')],
+          dry_run = false,
+        } = args as {
+          source_dirs?: string[];
+          dry_run?: boolean;
+        };
+
+        const result = await reconcileService.reconcile({ sourceDirs: source_dirs, dryRun: dry_run });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(result, null, 2),
+            },
+          ],
+        };
+      }
+
       case 'list_projects': {
         const { limit = 50, name_filter } = args as {
           limit?: number;
@@ -1125,11 +1933,40 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'semantic_search': {
-        const { query, limit = 10, session_id, min_similarity = 0.5 } = args as {
+        const {
+          query,
+          limit = 10,
+          session_id,
+          project,
+          tag,
+          topic,
+          role,
+          date_from,
+          date_to,
+          branch,
+          include_subagents,
+          min_similarity = 0.5,
+          expand = 0,
+          mmr_lambda,
+          max_per_session,
+          group_by = 'chunk',
+        } = args as {
           query: string;
           limit?: number;
           session_id?: string;
+          project?: string;
+          tag?: string;
+          topic?: string;
+          role?: 'user' | 'assistant';
+          date_from?: string;
+          date_to?: string;
+          branch?: string;
+          include_subagents?: boolean;
           min_similarity?: number;
+          expand?: number;
+          mmr_lambda?: number;
+          max_per_session?: number;
+          group_by?: 'chunk' | 'session';
         };
 
         const store = await getVectorStore();
@@ -1139,28 +1976,91 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               {
                 type: 'text',
                 text: JSON.stringify({
-                  error: 'Vector search unavailable. Ensure ChromaDB and Ollama are running.',
-                  hint: 'Start ChromaDB: docker run -p 8000:8000 chromadb/chroma\nStart Ollama: ollama serve && ollama pull nomic-embed-text',
+                  error: 'Vector search unavailable. Ensure the embedding provider and the vector backend are running.',
+                  hint: 'Start Ollama: ollama serve && ollama pull nomic-embed-text (or set EMBEDDING_PROVIDER=openai|hashing)\nStart ChromaDB: docker run -p 8000:8000 chromadb/chroma (or set VECTOR_BACKEND=sqlite to use the embedded store)',
                 }),
               },
             ],
           };
         }
 
-        const results = session_id
-          ? await store.searchInSession(query, session_id, limit)
-          : await store.search(query, limit);
+        // Filters are applied inside the vector query, so results aren't crowded out
+        const filter = new VectorFilterResolver(sessionRepo, tagRepo).resolve({
+          session_id,
+          project,
+          tags: tag ? [tag] : [],
+          topic,
+          role,
+          date_from,
+          date_to,
+          branch,
+          include_subagents,
+        });
+        const rerankOptions = { mmr_lambda, max_per_session };
+
+        if (group_by === 'session') {
+          // Fetch several chunks per session, then group them in rank order
+          const hits = (await store.search(query, limit * 5, filter, rerankOptions))
+            .filter(r => r.similarity >= min_similarity);
+
+          const groups = new Map<string, typeof hits>();
+          for (const hit of hits) {
+            const sessionHits = groups.get(hit.metadata.session_id) ?? [];
+            sessionHits.push(hit);
+            groups.set(hit.metadata.session_id, sessionHits);
+          }
+
+          const sessions = [...groups.entries()].slice(0, limit).map(([sessionId, sessionHits]) => {
+            const session = sessionRepo.findById(sessionId);
+            const best = sessionHits.reduce((a, b) => (b.similarity > a.similarity ? b : a));
+
+            return {
+              session_id: sessionId,
+              title: session?.title,
+              project: session?.project_path || (best.metadata as Record<string, unknown>).project_path,
+              started_at: session?.started_at,
+              match_count: sessionHits.length,
+              relevance_score: Number(best.similarity.toFixed(3)),
+              snippet: best.content.length > 300 ? `${best.content.slice(0, 300)}...` : best.content,
+              chunks: sessionHits.map(hit => ({
+                chunk_id: hit.id,
+                similarity: hit.similarity.toFixed(3),
+                topic: (hit.metadata as Record<string, unknown>).topic_group || undefined,
+              })),
+            };
+          });
+
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  query,
+                  group_by,
+                  total_sessions: sessions.length,
+                  min_similarity,
+                  results: sessions,
+                }, null, 2),
+              },
+            ],
+          };
+        }
+
+        const results = await store.search(query, limit, filter, rerankOptions);
+
+        const contextService = expand > 0 ? new ChunkContextService(messageRepo, store) : null;
 
         // Filter by similarity threshold and enrich with session data
         // Supports both chunk format (message pairs) and legacy message format
-        const enrichedResults = results
+        const enrichedResults = await Promise.all(results
           .filter(r => r.similarity >= min_similarity)
-          .map(r => {
+          .map(async r => {
             const session = sessionRepo.findById(r.metadata.session_id);
             const meta = r.metadata as Record<string, unknown>;
 
             // Build result object - handle both chunk and legacy formats
             const result: Record<string, unknown> = {
+              chunk_id: r.id,
               content: r.content,
               similarity: r.similarity.toFixed(3),
               session_id: meta.session_id,
@@ -1172,14 +2072,26 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             // Chunk format fields (message pairs with topic detection)
             if (meta.topic_group) result.topic = meta.topic_group;
             if (meta.sequence_number) result.chunk_sequence = meta.sequence_number;
-            if (meta.previous_chunk) result.has_context = true;
+            if (meta.previous_chunk || meta.next_chunk) result.has_context = true;
+
+            // Adjacent turns (expand)
+            if (contextService && result.has_context) {
+              const context = await contextService.getContext(r.id, expand);
+              if (context) {
+                result.context = {
+                  turns: context.turns,
+                  has_more_before: context.has_more_before,
+                  has_more_after: context.has_more_after,
+                };
+              }
+            }
 
             // Legacy format fields (individual messages)
             if (meta.message_uuid) result.message_uuid = meta.message_uuid;
             if (meta.role) result.role = meta.role;
 
             return result;
-          });
+          }));
 
         return {
           content: [
@@ -1196,6 +2108,236 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         };
       }
 
+      case 'get_chunk_context': {
+        const { chunk_id, steps = 2 } = args as {
+          chunk_id: string;
+          steps?: number;
+        };
+
+        const store = await getVectorStore();
+        if (!store) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({
+                  error: 'Vector search unavailable. Ensure the embedding provider and the vector backend are running.',
+                }),
+              },
+            ],
+          };
+        }
+
+        const context = await new ChunkContextService(messageRepo, store).getContext(chunk_id, steps);
+        if (!context) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: `Chunk not found: ${chunk_id}` }),
+              },
+            ],
+          };
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify(context, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'hybrid_search': {
+        const options = args as {
+          query: string;
+          limit?: number;
+          semantic_weight?: number;
+          fusion?: 'rrf' | 'weighted';
+          min_similarity?: number;
+          include_adjacent?: boolean;
+          role?: 'user' | 'assistant';
+          project?: string;
+          tag?: string;
+          date_from?: string;
+          date_to?: string;
+          session_id?: string;
+          branch?: string;
+          include_subagents?: boolean;
+        };
+
+        const store = await getVectorStore();
+        const hybrid = new HybridSearchService(messageRepo, sessionRepo, tagRepo, store);
+        const response = await hybrid.search(options);
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                query: options.query,
+                mode: response.mode,
+                fusion: response.fusion,
+                semantic_weight: response.semantic_weight,
+                warning: response.warning,
+                candidates: {
+                  fts: response.fts_candidates,
+                  semantic: response.semantic_candidates,
+                },
+                total_results: response.results.length,
+                results: response.results.map(r => ({
+                  session_id: r.session.id,
+                  title: r.session.title,
+                  project: r.session.project_path,
+                  started_at: r.session.started_at,
+                  score: Number(r.score.toFixed(6)),
+                  fts_rank: r.fts_rank,
+                  semantic_rank: r.semantic_rank,
+                  match_count: r.match_count,
+                  snippet: r.snippet,
+                  semantic_match: r.semantic_match
+                    ? {
+                        ...r.semantic_match,
+                        similarity: r.semantic_match.similarity.toFixed(3),
+                      }
+                    : null,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'search_tool_calls': {
+        const options = args as ToolCallSearchOptions;
+        const { limit = 20, offset = 0 } = options;
+        const { results, total } = toolCallRepo.search({ ...options, limit, offset });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                total,
+                offset,
+                limit,
+                has_more: offset + results.length < total,
+                results: results.map(call => ({
+                  tool_use_id: call.tool_use_id,
+                  tool_name: call.tool_name,
+                  input: JSON.parse(call.input),
+                  timestamp: call.timestamp,
+                  session_id: call.session_id,
+                  session_title: call.session_title,
+                  project: call.project_path,
+                  message_uuid: call.message_uuid,
+                  is_error: call.is_error,
+                  result: call.result && call.result.length > 1000
+                    ? call.result.slice(0, 1000) + '...[truncated]'
+                    : call.result,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'find_sessions_by_file': {
+        const { file_path, operations, project, limit = 20, offset = 0 } = args as {
+          file_path: string;
+          operations?: FileOperation[];
+          project?: string;
+          limit?: number;
+          offset?: number;
+        };
+        const { results, total } = sessionFileRepo.findSessionsByFile({ file_path, operations, project, limit, offset });
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                file_path,
+                total,
+                offset,
+                limit,
+                has_more: offset + results.length < total,
+                sessions: results.map(r => ({
+                  session_id: r.session_id,
+                  title: r.session_title,
+                  project: r.project_path,
+                  started_at: r.started_at,
+                  file_paths: r.file_paths,
+                  operations: r.operations,
+                  count: r.count,
+                  first_seen_at: r.first_seen_at,
+                  last_seen_at: r.last_seen_at,
+                })),
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
+      case 'get_session_files': {
+        const { session_id, operations } = args as {
+          session_id: string;
+          operations?: FileOperation[];
+        };
+
+        const session = sessionRepo.findById(session_id);
+        if (!session) {
+          return {
+            content: [
+              {
+                type: 'text',
+                text: JSON.stringify({ error: `Session not found: ${session_id}` }),
+              },
+            ],
+          };
+        }
+
+        // One entry per file with counts per operation
+        const files = new Map<string, {
+          file_path: string;
+          operations: Partial<Record<FileOperation, number>>;
+          first_seen_at: string;
+          last_seen_at: string;
+        }>();
+        for (const row of sessionFileRepo.findBySession(session_id, operations)) {
+          const file = files.get(row.file_path);
+          if (!file) {
+            files.set(row.file_path, {
+              file_path: row.file_path,
+              operations: { [row.operation]: row.count },
+              first_seen_at: row.first_seen_at,
+              last_seen_at: row.last_seen_at,
+            });
+            continue;
+          }
+          file.operations[row.operation] = row.count;
+          if (row.first_seen_at < file.first_seen_at) file.first_seen_at = row.first_seen_at;
+          if (row.last_seen_at > file.last_seen_at) file.last_seen_at = row.last_seen_at;
+        }
+
+        return {
+          content: [
+            {
+              type: 'text',
+              text: JSON.stringify({
+                session_id,
+                title: session.title,
+                project: session.project_path,
+                total: files.size,
+                files: [...files.values()],
+              }, null, 2),
+            },
+          ],
+        };
+      }
+
       default:
         return {
           content: [
@@ -0,0 +1,102 @@
+/**
+ * Chunk Index State Repository
+ *
+ * Data access layer for per-session vector indexing state.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type { ChunkIndexState } from '../types/models.js';
+
+export type UpsertChunkIndexStateInput = Omit<ChunkIndexState, 'indexed_at'>;
+
+export class ChunkIndexStateRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Record that a session was indexed.
+   */
+  upsert(input: UpsertChunkIndexStateInput): void {
+    this.db
+      .prepare(`
+        INSERT INTO chunk_index_state (
+          collection, session_id, message_count, last_message_id, content_hash,
+          chunker_version, embedding_model, chunk_count
+        ) VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+        ON CONFLICT(collection, session_id) DO UPDATE SET
+          message_count = excluded.message_count,
+          last_message_id = excluded.last_message_id,
+          content_hash = excluded.content_hash,
+          chunker_version = excluded.chunker_version,
+          embedding_model = excluded.embedding_model,
+          chunk_count = excluded.chunk_count,
+          indexed_at = datetime('now')
+      `)
+      .run(
+        input.collection,
+        input.session_id,
+        input.message_count,
+        input.last_message_id,
+        input.content_hash,
+        input.chunker_version,
+        input.embedding_model,
+        input.chunk_count
+      );
+  }
+
+  /**
+   * Find the state for a session.
+   */
+  find(collection: string, sessionId: string): ChunkIndexState | null {
+    const result = this.db
+      .prepare('SELECT * FROM chunk_index_state WHERE collection = ? AND session_id = ?')
+      .get(collection, sessionId) as ChunkIndexState | undefined;
+
+    return result ?? null;
+  }
+
+  /**
+   * All states for a collection, keyed by session ID.
+   */
+  findAll(collection: string): Map<string, ChunkIndexState> {
+    const rows = this.db
+      .prepare('SELECT * FROM chunk_index_state WHERE collection = ?')
+      .all(collection) as ChunkIndexState[];
+
+    return new Map(rows.map(row => [row.session_id, row]));
+  }
+
+  /**
+   * Delete the state for a session.
+   */
+  delete(collection: string, sessionId: string): boolean {
+    const result = this.db
+      .prepare('DELETE FROM chunk_index_state WHERE collection = ? AND session_id = ?')
+      .run(collection, sessionId);
+
+    return result.changes > 0;
+  }
+
+  /**
+   * Delete all state for a collection (fresh reindex).
+   */
+  clear(collection: string): number {
+    return this.db
+      .prepare('DELETE FROM chunk_index_state WHERE collection = ?')
+      .run(collection).changes;
+  }
+
+  /**
+   * Count indexed sessions and chunks.
+   */
+  getStats(collection: string): { sessions: number; chunks: number } {
+    const result = this.db
+      .prepare(`
+        SELECT COUNT(*) as sessions, COALESCE(SUM(chunk_count), 0) as chunks
+        FROM chunk_index_state
+        WHERE collection = ?
+      `)
+      .get(collection) as { sessions: number; chunks: number };
+
+    return result;
+  }
+}
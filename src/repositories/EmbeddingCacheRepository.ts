@@ -0,0 +1,101 @@
+/**
+ * Embedding Cache Repository
+ *
+ * Data access layer for cached embeddings, keyed by provider, model and content hash.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+
+export class EmbeddingCacheRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Look up cached embeddings for a set of content hashes.
+   * Entries with a different vector size are ignored.
+   */
+  getMany(provider: string, model: string, hashes: string[], dimensions?: number): Map<string, number[]> {
+    const found = new Map<string, number[]>();
+    if (hashes.length === 0) return found;
+
+    const stmt = this.db.prepare(`
+      SELECT embedding, dimensions FROM embedding_cache
+      WHERE provider = ? AND model = ? AND content_hash = ?
+    `);
+
+    for (const hash of new Set(hashes)) {
+      const row = stmt.get(provider, model, hash) as { embedding: Buffer; dimensions: number } | undefined;
+      if (row && (dimensions === undefined || row.dimensions === dimensions)) {
+        found.set(hash, this.decode(row.embedding));
+      }
+    }
+
+    return found;
+  }
+
+  /**
+   * Store embeddings (replacing any existing entry for the same key).
+   */
+  putMany(provider: string, model: string, entries: Array<{ hash: string; embedding: number[] }>): void {
+    if (entries.length === 0) return;
+
+    const stmt = this.db.prepare(`
+      INSERT OR REPLACE INTO embedding_cache (provider, model, content_hash, dimensions, embedding)
+      VALUES (?, ?, ?, ?, ?)
+    `);
+
+    this.db.transaction(() => {
+      for (const { hash, embedding } of entries) {
+        stmt.run(provider, model, hash, embedding.length, this.encode(embedding));
+      }
+    });
+  }
+
+  /**
+   * Count cached embeddings, optionally for one provider/model.
+   */
+  count(provider?: string, model?: string): number {
+    let sql = 'SELECT COUNT(*) as count FROM embedding_cache';
+    const params: unknown[] = [];
+
+    if (provider) {
+      sql += ' WHERE provider = ?';
+      params.push(provider);
+      if (model) {
+        sql += ' AND model = ?';
+        params.push(model);
+      }
+    }
+
+    const result = this.db.prepare(sql).get(...params) as { count: number };
+    return result.count;
+  }
+
+  /**
+   * Delete cached embeddings, optionally for one provider/model.
+   */
+  clear(provider?: string, model?: string): number {
+    let sql = 'DELETE FROM embedding_cache';
+    const params: unknown[] = [];
+
+    if (provider) {
+      sql += ' WHERE provider = ?';
+      params.push(provider);
+      if (model) {
+        sql += ' AND model = ?';
+        params.push(model);
+      }
+    }
+
+    return this.db.prepare(sql).run(...params).changes;
+  }
+
+  private encode(embedding: number[]): Buffer {
+    const vector = new Float32Array(embedding);
+    return Buffer.from(vector.buffer, vector.byteOffset, vector.byteLength);
+  }
+
+  private decode(buffer: Buffer): number[] {
+    // Copy: SQLite buffers are not guaranteed to be 4-byte aligned
+    return Array.from(new Float32Array(new Uint8Array(buffer).buffer));
+  }
+}
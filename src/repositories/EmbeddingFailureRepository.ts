@@ -0,0 +1,102 @@
+/**
+ * Embedding Failure Repository
+ *
+ * Data access layer for the embedding failure ledger.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type { EmbeddingFailureRecord } from '../types/models.js';
+
+export interface RecordEmbeddingFailureInput {
+  chunk_id: string;
+  session_id: string;
+  error: string;
+  attempts: number;                 // Attempts made in this run
+}
+
+export class EmbeddingFailureRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Record failed chunks, accumulating attempts for chunks already in the ledger.
+   */
+  record(collection: string, failures: RecordEmbeddingFailureInput[]): void {
+    if (failures.length === 0) return;
+
+    const stmt = this.db.prepare(`
+      INSERT INTO embedding_failures (collection, chunk_id, session_id, error, attempts)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(collection, chunk_id) DO UPDATE SET
+        session_id = excluded.session_id,
+        error = excluded.error,
+        attempts = attempts + excluded.attempts,
+        last_failed_at = datetime('now')
+    `);
+
+    this.db.transaction(() => {
+      for (const failure of failures) {
+        stmt.run(collection, failure.chunk_id, failure.session_id, failure.error, failure.attempts);
+      }
+    });
+  }
+
+  /**
+   * Remove chunks from the ledger (embedded successfully or no longer exist).
+   */
+  resolve(collection: string, chunkIds: string[]): number {
+    if (chunkIds.length === 0) return 0;
+
+    const stmt = this.db.prepare('DELETE FROM embedding_failures WHERE collection = ? AND chunk_id = ?');
+    let removed = 0;
+
+    this.db.transaction(() => {
+      for (const chunkId of chunkIds) {
+        removed += stmt.run(collection, chunkId).changes;
+      }
+    });
+
+    return removed;
+  }
+
+  /**
+   * Remove all ledger entries for a session.
+   */
+  resolveSession(collection: string, sessionId: string): number {
+    return this.db
+      .prepare('DELETE FROM embedding_failures WHERE collection = ? AND session_id = ?')
+      .run(collection, sessionId).changes;
+  }
+
+  /**
+   * Remove all ledger entries for a collection (fresh reindex).
+   */
+  clear(collection: string): number {
+    return this.db
+      .prepare('DELETE FROM embedding_failures WHERE collection = ?')
+      .run(collection).changes;
+  }
+
+  /**
+   * List failed chunks, grouped by session.
+   */
+  findAll(collection: string): EmbeddingFailureRecord[] {
+    return this.db
+      .prepare(`
+        SELECT * FROM embedding_failures
+        WHERE collection = ?
+        ORDER BY session_id, chunk_id
+      `)
+      .all(collection) as EmbeddingFailureRecord[];
+  }
+
+  /**
+   * Count failed chunks.
+   */
+  count(collection: string): number {
+    const result = this.db
+      .prepare('SELECT COUNT(*) as count FROM embedding_failures WHERE collection = ?')
+      .get(collection) as { count: number };
+
+    return result.count;
+  }
+}
@@ -0,0 +1,79 @@
+/**
+ * Import File State Repository
+ *
+ * Data access layer for per-file import progress (size, mtime and the byte
+ * offset reached), used to import JSONL files incrementally.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type { ImportFileState } from '../types/models.js';
+
+export interface UpsertImportFileStateInput {
+  file_path: string;
+  session_id?: string;
+  size: number;
+  mtime_ms: number;
+  byte_offset: number;
+  line_count: number;
+}
+
+export class ImportFileStateRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Get the import state of a file.
+   */
+  findByPath(filePath: string): ImportFileState | null {
+    const row = this.db
+      .prepare('SELECT * FROM import_file_state WHERE file_path = ?')
+      .get(filePath) as ImportFileState | undefined;
+
+    return row ?? null;
+  }
+
+  /**
+   * Record how far a file has been imported.
+   */
+  upsert(input: UpsertImportFileStateInput): void {
+    this.db
+      .prepare(`
+        INSERT INTO import_file_state (file_path, session_id, size, mtime_ms, byte_offset, line_count, imported_at)
+        VALUES (?, ?, ?, ?, ?, ?, datetime('now'))
+        ON CONFLICT(file_path) DO UPDATE SET
+          session_id = excluded.session_id,
+          size = excluded.size,
+          mtime_ms = excluded.mtime_ms,
+          byte_offset = excluded.byte_offset,
+          line_count = excluded.line_count,
+          imported_at = excluded.imported_at
+      `)
+      .run(
+        input.file_path,
+        input.session_id ?? null,
+        input.size,
+        input.mtime_ms,
+        input.byte_offset,
+        input.line_count
+      );
+  }
+
+  /**
+   * Move the state of a file that was moved, unless the new path already
+   * has state of its own.
+   */
+  rename(oldPath: string, newPath: string): boolean {
+    return this.db
+      .prepare(`
+        UPDATE import_file_state SET file_path = ?
+        WHERE file_path = ? AND NOT EXISTS (SELECT 1 FROM import_file_state WHERE file_path = ?)
+      `)
+      .run(newPath, oldPath, newPath).changes > 0;
+  }
+
+  /**
+   * Forget a file, so it is imported again in full.
+   */
+  delete(filePath: string): boolean {
+    return this.db.prepare('DELETE FROM import_file_state WHERE file_path = ?').run(filePath).changes > 0;
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * Import Run Repository
+ *
+ * Data access layer for the history of import runs and the ledger of files
+ * and lines that failed to import.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type { ImportError, ImportRun, ImportRunStatus } from '../types/models.js';
+
+export interface StartImportRunInput {
+  trigger: string;
+  source_dirs: string[];
+  skip_existing: boolean;
+}
+
+export interface FinishImportRunInput {
+  files_found: number;
+  files_imported: number;
+  files_skipped: number;
+  files_failed: number;
+  messages_imported: number;
+  sessions_changed: number;
+  line_errors: number;
+  duration_ms: number;
+}
+
+export interface RecordImportErrorInput {
+  file_path: string;
+  line_number?: number;
+  error: string;
+}
+
+export interface ImportRunFilter {
+  status?: ImportRunStatus;
+  trigger?: string;
+}
+
+type ImportRunRow = Omit<ImportRun, 'source_dirs' | 'skip_existing'> & {
+  source_dirs: string;
+  skip_existing: number;
+};
+
+export class ImportRunRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Record the start of a run. Returns the run id.
+   */
+  start(input: StartImportRunInput): number {
+    const result = this.db
+      .prepare(`
+        INSERT INTO import_runs (trigger, source_dirs, skip_existing, started_at)
+        VALUES (?, ?, ?, strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+      `)
+      .run(input.trigger, JSON.stringify(input.source_dirs), input.skip_existing ? 1 : 0);
+
+    return result.lastInsertRowid as number;
+  }
+
+  /**
+   * Record the counts of a finished run.
+   */
+  finish(runId: number, input: FinishImportRunInput): void {
+    this.db
+      .prepare(`
+        UPDATE import_runs
+        SET
+          status = 'completed',
+          finished_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'),
+          duration_ms = ?,
+          files_found = ?,
+          files_imported = ?,
+          files_skipped = ?,
+          files_failed = ?,
+          messages_imported = ?,
+          sessions_changed = ?,
+          line_errors = ?
+        WHERE id = ?
+      `)
+      .run(
+        input.duration_ms,
+        input.files_found,
+        input.files_imported,
+        input.files_skipped,
+        input.files_failed,
+        input.messages_imported,
+        input.sessions_changed,
+        input.line_errors,
+        runId
+      );
+  }
+
+  /**
+   * Mark a run as failed.
+   */
+  fail(runId: number, error: string): void {
+    this.db
+      .prepare(`
+        UPDATE import_runs
+        SET status = 'failed', finished_at = strftime('%Y-%m-%dT%H:%M:%fZ', 'now'), error = ?
+        WHERE id = ?
+      `)
+      .run(error, runId);
+  }
+
+  /**
+   * Delete a run and its errors.
+   */
+  delete(runId: number): boolean {
+    return this.db.prepare('DELETE FROM import_runs WHERE id = ?').run(runId).changes > 0;
+  }
+
+  /**
+   * Record a file (no line_number) or line that failed to import.
+   */
+  recordError(runId: number, input: RecordImportErrorInput): void {
+    this.db
+      .prepare(`
+        INSERT INTO import_errors (run_id, file_path, line_number, error)
+        VALUES (?, ?, ?, ?)
+      `)
+      .run(runId, input.file_path, input.line_number ?? null, input.error);
+  }
+
+  /**
+   * Whether a run already recorded this error for a line of a file.
+   */
+  hasLineError(filePath: string, lineNumber: number, error: string): boolean {
+    const row = this.db
+      .prepare('SELECT 1 FROM import_errors WHERE file_path = ? AND line_number = ? AND error = ? LIMIT 1')
+      .get(filePath, lineNumber, error);
+
+    return row !== undefined;
+  }
+
+  /**
+   * Find a run by id.
+   */
+  findById(runId: number): ImportRun | null {
+    const row = this.db
+      .prepare('SELECT * FROM import_runs WHERE id = ?')
+      .get(runId) as ImportRunRow | undefined;
+
+    return row ? this.toImportRun(row) : null;
+  }
+
+  /**
+   * Find runs, most recent first.
+   */
+  findRecent(filter: ImportRunFilter = {}, limit: number = 10, offset: number = 0): ImportRun[] {
+    const { where, params } = this.buildFilter(filter);
+
+    const rows = this.db
+      .prepare(`SELECT * FROM import_runs ${where} ORDER BY started_at DESC, id DESC LIMIT ? OFFSET ?`)
+      .all(...params, limit, offset) as ImportRunRow[];
+
+    return rows.map(row => this.toImportRun(row));
+  }
+
+  /**
+   * Count runs.
+   */
+  count(filter: ImportRunFilter = {}): number {
+    const { where, params } = this.buildFilter(filter);
+
+    const result = this.db
+      .prepare(`SELECT COUNT(*) as count FROM import_runs ${where}`)
+      .get(...params) as { count: number };
+
+    return result.count;
+  }
+
+  /**
+   * Get the errors of a run, in the order they were recorded.
+   */
+  findErrors(runId: number, limit: number = 100): ImportError[] {
+    return this.db
+      .prepare('SELECT * FROM import_errors WHERE run_id = ? ORDER BY id ASC LIMIT ?')
+      .all(runId, limit) as ImportError[];
+  }
+
+  /**
+   * Count the errors of a run.
+   */
+  countErrors(runId: number): number {
+    const result = this.db
+      .prepare('SELECT COUNT(*) as count FROM import_errors WHERE run_id = ?')
+      .get(runId) as { count: number };
+
+    return result.count;
+  }
+
+  private buildFilter(filter: ImportRunFilter): { where: string; params: unknown[] } {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.status) {
+      conditions.push('status = ?');
+      params.push(filter.status);
+    }
+
+    if (filter.trigger) {
+      conditions.push('trigger = ?');
+      params.push(filter.trigger);
+    }
+
+    return {
+      where: conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '',
+      params,
+    };
+  }
+
+  private toImportRun(row: ImportRunRow): ImportRun {
+    return {
+      ...row,
+      source_dirs: JSON.parse(row.source_dirs) as string[],
+      skip_existing: Boolean(row.skip_existing),
+    };
+  }
+}
@@ -0,0 +1,79 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { SessionRepository } from './SessionRepository.js';
+import { MessageRepository } from './MessageRepository.js';
+import { ToolCallRepository } from './ToolCallRepository.js';
+
+describe('date upper bounds', () => {
+  let messageRepo: MessageRepository;
+  let toolCallRepo: ToolCallRepository;
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    messageRepo = new MessageRepository(db);
+    toolCallRepo = new ToolCallRepository(db);
+
+    new SessionRepository(db).create({ id: 's1', file_path: '/tmp/s1.jsonl', started_at: '2025-10-01T09:00:00Z' });
+    messageRepo.createMany([
+      { uuid: 'm1', session_id: 's1', role: 'user', content: 'race condition', timestamp: '2025-10-01T10:00:00Z' },
+      { uuid: 'm2', session_id: 's1', role: 'user', content: 'race again', timestamp: '2025-10-02T00:00:00Z' },
+    ]);
+    toolCallRepo.createMany([
+      { tool_use_id: 't1', session_id: 's1', message_uuid: 'm1', tool_name: 'Bash', input: {}, timestamp: '2025-10-01T10:00:00Z' },
+      { tool_use_id: 't2', session_id: 's1', message_uuid: 'm2', tool_name: 'Bash', input: {}, timestamp: '2025-10-02T00:00:00Z' },
+    ]);
+  });
+
+  const contents = (page: ReturnType<MessageRepository['search']>): string[] =>
+    page.results.map(result => result.matching_content);
+
+  it('includes the whole end day of a date-only date_to', () => {
+    const page = messageRepo.search({ query: 'race', date_to: '2025-10-01' });
+    expect(page.total_hits).toBe(1);
+    expect(contents(page)[0]).toContain('condition');
+  });
+
+  it('includes the whole end day of before:', () => {
+    expect(messageRepo.search({ query: 'race before:2025-10-01' }).total_hits).toBe(1);
+    expect(messageRepo.search({ query: 'race before:2025-10-02' }).total_hits).toBe(2);
+  });
+
+  it('keeps timestamps exact', () => {
+    expect(messageRepo.search({ query: 'race', date_to: '2025-10-01T09:59:59Z' }).total_hits).toBe(0);
+    expect(messageRepo.search({ query: 'race', date_to: '2025-10-01T10:00:00Z' }).total_hits).toBe(1);
+  });
+
+  it('applies the same bound to tool calls', () => {
+    expect(toolCallRepo.search({ date_to: '2025-10-01' }).results.map(call => call.tool_use_id)).toEqual(['t1']);
+  });
+});
+
+describe('partial match filters', () => {
+  let messageRepo: MessageRepository;
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    messageRepo = new MessageRepository(db);
+
+    const sessionRepo = new SessionRepository(db);
+    sessionRepo.create({ id: 's1', file_path: '/tmp/s1.jsonl', project_path: '/work/my-app', started_at: '2025-10-01T09:00:00Z' });
+    sessionRepo.create({ id: 's2', file_path: '/tmp/s2.jsonl', project_path: '/work/my_app', started_at: '2025-10-01T09:00:00Z' });
+    messageRepo.createMany([
+      { uuid: 'm1', session_id: 's1', role: 'assistant', content: 'deploy', timestamp: '2025-10-01T10:00:00Z', model: 'gpt-4' },
+      { uuid: 'm2', session_id: 's2', role: 'assistant', content: 'deploy', timestamp: '2025-10-01T10:00:00Z', model: 'gpt_4' },
+    ]);
+  });
+
+  const sessionIds = (query: string): string[] =>
+    messageRepo.search({ query }).results.map(result => result.session.id);
+
+  it('matches _ and % in values literally', () => {
+    expect(sessionIds('deploy model:gpt_4')).toEqual(['s2']);
+    expect(sessionIds('deploy project:my_app')).toEqual(['s2']);
+    expect(sessionIds('deploy model:gpt%')).toEqual([]);
+  });
+
+  it('still matches substrings', () => {
+    expect(sessionIds('deploy model:gpt').sort()).toEqual(['s1', 's2']);
+  });
+});
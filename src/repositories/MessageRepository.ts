@@ -5,7 +5,17 @@
  */
 
 import { DatabaseConnection } from '../database/index.js';
-import type { Message, SearchResult } from '../types/models.js';
+import type {
+  Message,
+  MessageSearchOptions,
+  MessageSearchResult,
+  SearchOptions,
+  SearchChannel,
+  SearchPage,
+  SearchResult,
+  Session,
+} from '../types/models.js';
+import { likeContains, parseSearchQuery, timestampAtOrBefore, type QueryFilters } from '../utils/index.js';
 import crypto from 'crypto';
 
 export interface CreateMessageInput {
@@ -20,6 +30,10 @@ export interface CreateMessageInput {
   cwd?: string;
   file_path?: string;
   token_count?: number;
+  git_branch?: string;
+  is_sidechain?: boolean;
+  agent_id?: string;
+  thinking?: string;
 }
 
 export interface MessageFilter {
@@ -29,6 +43,15 @@ export interface MessageFilter {
   date_to?: string;
 }
 
+/**
+ * WHERE fragments for a search, built from SearchOptions plus query filters.
+ * Fragments reference messages as `m` and sessions as `s`.
+ */
+interface SearchConditions {
+  conditions: string[];
+  params: unknown[];
+}
+
 export class MessageRepository {
   constructor(private db: DatabaseConnection) {}
 
@@ -41,8 +64,9 @@ export class MessageRepository {
     const stmt = this.db.prepare(`
       INSERT INTO messages (
         uuid, session_id, role, content, timestamp, model,
-        parent_uuid, message_type, cwd, file_path, content_hash, token_count
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        parent_uuid, message_type, cwd, file_path, content_hash, token_count,
+        git_branch, is_sidechain, agent_id, thinking
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     const result = stmt.run(
@@ -57,7 +81,11 @@ export class MessageRepository {
       input.cwd ?? null,
       input.file_path ?? null,
       contentHash,
-      input.token_count ?? null
+      input.token_count ?? null,
+      input.git_branch ?? null,
+      input.is_sidechain ? 1 : 0,
+      input.agent_id ?? null,
+      input.thinking ?? null
     );
 
     return this.findById(result.lastInsertRowid as number)!;
@@ -75,8 +103,9 @@ export class MessageRepository {
           this.create(input);
           created++;
         } catch (error) {
-          // Skip duplicates (UNIQUE constraint on uuid)
-          if (error instanceof Error && error.message.includes('UNIQUE constraint failed')) {
+          // Skip duplicates (UNIQUE constraint on uuid). Checked by code, since the
+          // driver's errors don't always pass instanceof Error (e.g. under jest)
+          if ((error as { code?: unknown }).code === 'SQLITE_CONSTRAINT_UNIQUE') {
             continue;
           }
           throw error;
@@ -87,6 +116,35 @@ export class MessageRepository {
     return created;
   }
 
+  /**
+   * Refresh session, parent, branch, sub-agent and thinking data on messages
+   * that already exist. Used when re-importing sessions imported before these were
+   * stored; also moves sidechain messages into their sub-agent session.
+   */
+  updateMetadata(inputs: CreateMessageInput[]): number {
+    const stmt = this.db.prepare(`
+      UPDATE messages SET session_id = ?, parent_uuid = ?, git_branch = ?, is_sidechain = ?, agent_id = ?, thinking = ?
+      WHERE uuid = ?
+    `);
+    let updated = 0;
+
+    this.db.transaction(() => {
+      for (const input of inputs) {
+        updated += stmt.run(
+          input.session_id,
+          input.parent_uuid ?? null,
+          input.git_branch ?? null,
+          input.is_sidechain ? 1 : 0,
+          input.agent_id ?? null,
+          input.thinking ?? null,
+          input.uuid
+        ).changes;
+      }
+    });
+
+    return updated;
+  }
+
   /**
    * Find a message by ID.
    */
@@ -174,87 +232,205 @@ export class MessageRepository {
   }
 
   /**
-   * Full-text search across message content.
+   * Full-text search across message content, grouped by session.
+   *
+   * The query uses the structured syntax from QueryParser: free text becomes
+   * the FTS5 MATCH expression, and field:value filters are combined with the
+   * explicit options. Every filter is applied in SQL, and LIMIT/OFFSET page over
+   * sessions (ordered by their best hit, then id) so pages are stable.
+   * Throws QuerySyntaxError on bad syntax.
    */
-  search(query: string, limit: number = 20, filter?: MessageFilter): SearchResult[] {
-    // Escape FTS5 special characters
-    const escapedQuery = this.escapeFtsQuery(query);
+  search(options: SearchOptions): SearchPage<SearchResult> {
+    const { limit = 20, offset = 0 } = options;
+    const parsed = parseSearchQuery(options.query);
+    const hits = this.buildHitsQuery(options, parsed.fts, parsed.filters);
+
+    const rows = this.db
+      .prepare(`
+        WITH hits AS MATERIALIZED (${hits.sql}),
+        grouped AS (
+          -- Bare column with MIN() takes best_message_id from the best-ranked row
+          SELECT session_id, COUNT(*) as match_count, MIN(rank) as best_rank,
+                 message_id as best_message_id, matched_in as best_matched_in
+          FROM hits
+          GROUP BY session_id
+        )
+        SELECT s.*, g.match_count, g.best_rank, g.best_message_id, g.best_matched_in
+        FROM grouped g
+        INNER JOIN sessions s ON g.session_id = s.id
+        ORDER BY g.best_rank ASC, g.session_id ASC
+        LIMIT ? OFFSET ?
+      `)
+      .all(...hits.params, limit, offset) as Array<Session & {
+        match_count: number;
+        best_rank: number;
+        best_message_id: number;
+        best_matched_in: SearchChannel;
+      }>;
+
+    const results = rows.map(row => {
+      const snippet = this.snippet(parsed.fts, row.best_message_id, row.best_matched_in);
+
+      return {
+        session: {
+          id: row.id,
+          file_path: row.file_path,
+          project_id: row.project_id,
+          project_path: row.project_path,
+          cwd: row.cwd,
+          started_at: row.started_at,
+          ended_at: row.ended_at,
+          message_count: row.message_count,
+          title: row.title,
+          summary: row.summary,
+          is_title_auto_generated: Boolean(row.is_title_auto_generated),
+          is_stub: Boolean(row.is_stub),
+          git_branch: row.git_branch,
+          client_version: row.client_version,
+          is_sidechain: Boolean(row.is_sidechain),
+          parent_session_id: row.parent_session_id,
+          agent_id: row.agent_id,
+          parent_tool_use_id: row.parent_tool_use_id,
+          leaf_uuid: row.leaf_uuid,
+          source_missing: Boolean(row.source_missing),
+          source_missing_at: row.source_missing_at,
+          created_at: row.created_at,
+          updated_at: row.updated_at,
+        },
+        matching_content: snippet,
+        match_count: row.match_count,
+        relevance_score: -row.best_rank, // bm25 returns negative scores
+        matched_in: row.best_matched_in,
+      };
+    });
 
-    let sql = `
-      SELECT m.*, s.*,
-             snippet(messages_fts, 0, '<mark>', '</mark>', '...', 32) as snippet,
-             bm25(messages_fts) as rank
-      FROM messages_fts
-      INNER JOIN messages m ON messages_fts.rowid = m.id
-      INNER JOIN sessions s ON m.session_id = s.id
-      WHERE messages_fts MATCH ?
-    `;
-    const params: unknown[] = [escapedQuery];
+    const totals = this.countHits(hits);
+    return this.toPage(results, totals.total_sessions, totals, offset, limit);
+  }
 
-    if (filter?.session_id) {
-      sql += ' AND m.session_id = ?';
-      params.push(filter.session_id);
-    }
+  /**
+   * Full-text search returning individual matching messages rather than
+   * sessions. With `context`, each hit includes up to N messages before and
+   * after it in conversation order.
+   */
+  searchMessages(options: MessageSearchOptions): SearchPage<MessageSearchResult> {
+    const { limit = 20, offset = 0, context = 0 } = options;
+    const parsed = parseSearchQuery(options.query);
+    const hits = this.buildHitsQuery(options, parsed.fts, parsed.filters);
+
+    const rows = this.db
+      .prepare(`
+        SELECT m.id, m.uuid, m.session_id, m.role, m.timestamp,
+               s.title as session_title, s.project_path,
+               h.rank, h.matched_in
+        FROM (${hits.sql}) h
+        INNER JOIN messages m ON h.message_id = m.id
+        INNER JOIN sessions s ON m.session_id = s.id
+        ORDER BY h.rank ASC, m.id ASC
+        LIMIT ? OFFSET ?
+      `)
+      .all(...hits.params, limit, offset) as Array<{
+        id: number;
+        uuid: string;
+        session_id: string;
+        role: Message['role'];
+        timestamp: string;
+        session_title: string | null;
+        project_path: string | null;
+        rank: number;
+        matched_in: SearchChannel;
+      }>;
+
+    const results = rows.map(row => {
+      const result: MessageSearchResult = {
+        message_uuid: row.uuid,
+        session_id: row.session_id,
+        session_title: row.session_title,
+        project_path: row.project_path,
+        role: row.role,
+        timestamp: row.timestamp,
+        snippet: this.snippet(parsed.fts, row.id, row.matched_in),
+        relevance_score: -row.rank, // bm25 returns negative scores
+        matched_in: row.matched_in,
+      };
+
+      if (context > 0) {
+        const around = this.findAround(row.session_id, row.timestamp, row.id, context, context);
+        result.context_before = around.before;
+        result.context_after = around.after;
+      }
 
-    if (filter?.role) {
-      sql += ' AND m.role = ?';
-      params.push(filter.role);
-    }
+      return result;
+    });
 
-    if (filter?.date_from) {
-      sql += ' AND m.timestamp >= ?';
-      params.push(filter.date_from);
-    }
+    const totals = this.countHits(hits);
+    return this.toPage(results, totals.total_hits, totals, offset, limit);
+  }
 
-    if (filter?.date_to) {
-      sql += ' AND m.timestamp <= ?';
-      params.push(filter.date_to);
+  /**
+   * Return the subset of session IDs that have at least one message passing
+   * the non-text filters of a search (options plus field:value filters in the
+   * query). Used to apply FTS filters to hits from other engines.
+   */
+  filterSessions(sessionIds: string[], options: SearchOptions): Set<string> {
+    if (sessionIds.length === 0) {
+      return new Set();
     }
 
-    sql += ' ORDER BY rank LIMIT ?';
-    params.push(limit);
-
-    const results = this.db.prepare(sql).all(...params) as Array<{
-      snippet: string;
-      rank: number;
-      [key: string]: unknown;
-    }>;
-
-    // Group by session and aggregate
-    const sessionMap = new Map<string, SearchResult>();
-
-    for (const row of results) {
-      const sessionId = row.session_id as string;
-
-      if (!sessionMap.has(sessionId)) {
-        sessionMap.set(sessionId, {
-          session: {
-            id: row.id as string,
-            file_path: row.file_path as string,
-            project_id: row.project_id as number | null,
-            project_path: row.project_path as string | null,
-            cwd: row.cwd as string | null,
-            started_at: row.started_at as string,
-            ended_at: row.ended_at as string | null,
-            message_count: row.message_count as number,
-            title: row.title as string | null,
-            summary: row.summary as string | null,
-            is_title_auto_generated: Boolean(row.is_title_auto_generated),
-            is_stub: Boolean(row.is_stub),
-            created_at: row.created_at as string,
-            updated_at: row.updated_at as string,
-          },
-          matching_content: row.snippet,
-          match_count: 1,
-          relevance_score: -row.rank, // bm25 returns negative scores
-        });
-      } else {
-        const existing = sessionMap.get(sessionId)!;
-        existing.match_count++;
-      }
+    const parsed = parseSearchQuery(options.query);
+    const { conditions, params } = this.buildSearchConditions(options, parsed.filters);
+    const placeholders = sessionIds.map(() => '?').join(', ');
+
+    let sql = `
+      SELECT DISTINCT m.session_id
+      FROM messages m
+      INNER JOIN sessions s ON m.session_id = s.id
+      WHERE m.session_id IN (${placeholders})
+    `;
+
+    for (const condition of conditions) {
+      sql += ` AND ${condition}`;
     }
 
-    return Array.from(sessionMap.values());
+    const rows = this.db.prepare(sql).all(...sessionIds, ...params) as Array<{ session_id: string }>;
+    return new Set(rows.map(r => r.session_id));
+  }
+
+  /**
+   * Find the messages immediately before and after a message in a session.
+   * Ordered by timestamp, with the row id breaking ties between messages
+   * written in the same instant.
+   */
+  findAround(
+    sessionId: string,
+    timestamp: string,
+    id: number,
+    before: number,
+    after: number
+  ): { before: Message[]; after: Message[] } {
+    const preceding = before > 0
+      ? this.db
+          .prepare(`
+            SELECT * FROM messages
+            WHERE session_id = ? AND (timestamp < ? OR (timestamp = ? AND id < ?))
+            ORDER BY timestamp DESC, id DESC
+            LIMIT ?
+          `)
+          .all(sessionId, timestamp, timestamp, id, before) as Message[]
+      : [];
+
+    const following = after > 0
+      ? this.db
+          .prepare(`
+            SELECT * FROM messages
+            WHERE session_id = ? AND (timestamp > ? OR (timestamp = ? AND id > ?))
+            ORDER BY timestamp ASC, id ASC
+            LIMIT ?
+          `)
+          .all(sessionId, timestamp, timestamp, id, after) as Message[]
+      : [];
+
+    return { before: preceding.reverse(), after: following };
   }
 
   /**
@@ -316,6 +492,25 @@ export class MessageRepository {
     return Object.fromEntries(results.map(r => [r.role, r.count]));
   }
 
+  /**
+   * Get a cheap change fingerprint for every session with messages:
+   * message count and highest message row ID.
+   */
+  getSessionFingerprints(): Map<string, { message_count: number; last_message_id: number }> {
+    const rows = this.db
+      .prepare(`
+        SELECT session_id, COUNT(*) as message_count, MAX(id) as last_message_id
+        FROM messages
+        GROUP BY session_id
+      `)
+      .all() as Array<{ session_id: string; message_count: number; last_message_id: number }>;
+
+    return new Map(rows.map(row => [row.session_id, {
+      message_count: row.message_count,
+      last_message_id: row.last_message_id,
+    }]));
+  }
+
   /**
    * Get date range of messages.
    */
@@ -338,21 +533,182 @@ export class MessageRepository {
   }
 
   /**
-   * Escape FTS5 special characters.
+   * Build the SELECT producing one row per matching message
+   * (message_id, session_id, rank, matched_in) with all filters applied.
+   * With include_thinking, thinking text is searched as well and each message
+   * keeps its better-ranked hit.
+   */
+  private buildHitsQuery(
+    options: SearchOptions,
+    fts: string,
+    parsed: QueryFilters
+  ): { sql: string; params: unknown[] } {
+    const { conditions, params } = this.buildSearchConditions(options, parsed);
+
+    const channelQuery = (table: string, channel: SearchChannel): string => {
+      let sql = `
+        SELECT m.id as message_id, m.session_id, bm25(${table}) as rank, '${channel}' as matched_in
+        FROM ${table}
+        INNER JOIN messages m ON ${table}.rowid = m.id
+        INNER JOIN sessions s ON m.session_id = s.id
+        WHERE ${table} MATCH ?
+      `;
+
+      for (const condition of conditions) {
+        sql += ` AND ${condition}`;
+      }
+
+      return sql;
+    };
+
+    if (!options.include_thinking) {
+      return { sql: channelQuery('messages_fts', 'content'), params: [fts, ...params] };
+    }
+
+    // Bare matched_in with MIN() comes from the best-ranked row
+    return {
+      sql: `
+        SELECT message_id, session_id, MIN(rank) as rank, matched_in
+        FROM (
+          ${channelQuery('messages_fts', 'content')}
+          UNION ALL
+          ${channelQuery('messages_thinking_fts', 'thinking')}
+        )
+        GROUP BY message_id
+      `,
+      params: [fts, ...params, fts, ...params],
+    };
+  }
+
+  /**
+   * Highlighted snippet of a message's matching text.
+   */
+  private snippet(fts: string, messageId: number, channel: SearchChannel): string {
+    const table = channel === 'thinking' ? 'messages_thinking_fts' : 'messages_fts';
+    const result = this.db
+      .prepare(`
+        SELECT snippet(${table}, 0, '<mark>', '</mark>', '...', 32) as snippet
+        FROM ${table}
+        WHERE ${table} MATCH ? AND rowid = ?
+      `)
+      .get(fts, messageId) as { snippet: string } | undefined;
+
+    return result?.snippet ?? '';
+  }
+
+  /**
+   * Count matching messages and sessions for a hits query.
+   */
+  private countHits(hits: { sql: string; params: unknown[] }): { total_hits: number; total_sessions: number } {
+    return this.db
+      .prepare(`
+        SELECT COUNT(*) as total_hits, COUNT(DISTINCT session_id) as total_sessions
+        FROM (${hits.sql})
+      `)
+      .get(...hits.params) as { total_hits: number; total_sessions: number };
+  }
+
+  /**
+   * Wrap one page of results with totals and paging hints.
+   * `total` is the number of items being paged over (sessions or messages).
    */
-  private escapeFtsQuery(query: string): string {
-    const trimmed = query.trim();
+  private toPage<T>(
+    results: T[],
+    total: number,
+    totals: { total_hits: number; total_sessions: number },
+    offset: number,
+    limit: number
+  ): SearchPage<T> {
+    const hasMore = offset + results.length < total;
+
+    return {
+      results,
+      total_hits: totals.total_hits,
+      total_sessions: totals.total_sessions,
+      offset,
+      limit,
+      has_more: hasMore,
+      next_offset: hasMore ? offset + results.length : null,
+    };
+  }
+
+  /**
+   * Build search predicates from explicit options and filters parsed from the
+   * query string. Explicit values win when both specify the same single-valued
+   * field; tags accumulate (a session must carry all of them).
+   */
+  private buildSearchConditions(options: SearchOptions, parsed: QueryFilters): SearchConditions {
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.session_id) {
+      conditions.push('m.session_id = ?');
+      params.push(options.session_id);
+    }
+
+    const role = options.role ?? parsed.role;
+    if (role) {
+      conditions.push('m.role = ?');
+      params.push(role);
+    }
+
+    const dateFrom = options.date_from ?? parsed.after;
+    if (dateFrom) {
+      conditions.push('m.timestamp >= ?');
+      params.push(dateFrom);
+    }
 
-    // If already quoted, return as-is
-    if ((trimmed.startsWith('"') && trimmed.endsWith('"')) ||
-        (trimmed.startsWith("'") && trimmed.endsWith("'"))) {
-      return trimmed;
+    const dateTo = options.date_to ?? parsed.before;
+    if (dateTo) {
+      const bound = timestampAtOrBefore('m.timestamp', dateTo);
+      conditions.push(bound.sql);
+      params.push(bound.param);
     }
 
-    // Escape internal double quotes
-    const escaped = trimmed.replace(/"/g, '""');
+    const model = options.model ?? parsed.model;
+    if (model) {
+      conditions.push("m.model LIKE ? ESCAPE '\\'");
+      params.push(likeContains(model));
+    }
+
+    // Messages imported before branches were recorded fall back to the session's
+    const branch = options.branch ?? parsed.branch;
+    if (branch) {
+      conditions.push('COALESCE(m.git_branch, s.git_branch) = ?');
+      params.push(branch);
+    }
+
+    if (options.include_subagents === false) {
+      conditions.push('m.is_sidechain = 0 AND s.is_sidechain = 0');
+    }
+
+    const project = options.project ?? parsed.project;
+    if (project) {
+      if (/^\d+$/.test(project)) {
+        // Project id
+        conditions.push('s.project_id = ?');
+        params.push(parseInt(project, 10));
+      } else if (project.startsWith('/')) {
+        // Path prefix
+        conditions.push('substr(s.project_path, 1, ?) = ?');
+        params.push(project.length, project);
+      } else {
+        // Partial match on path or project name
+        conditions.push("(s.project_path LIKE ? ESCAPE '\\' OR s.project_id IN (SELECT id FROM projects WHERE name LIKE ? ESCAPE '\\'))");
+        params.push(likeContains(project), likeContains(project));
+      }
+    }
+
+    const tags = [...(options.tag ? [options.tag] : []), ...parsed.tags];
+    for (const tag of tags) {
+      conditions.push(`EXISTS (
+        SELECT 1 FROM session_tags st
+        INNER JOIN tags t ON st.tag_id = t.id
+        WHERE st.session_id = s.id AND t.name = ?
+      )`);
+      params.push(tag.toLowerCase().trim());
+    }
 
-    // Wrap in quotes for phrase search
-    return `"${escaped}"`;
+    return { conditions, params };
   }
 }
@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { SessionRepository } from './SessionRepository.js';
+import { ToolCallRepository } from './ToolCallRepository.js';
+import { SessionFileRepository } from './SessionFileRepository.js';
+
+describe('SessionFileRepository', () => {
+  let toolCallRepo: ToolCallRepository;
+  let repo: SessionFileRepository;
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    toolCallRepo = new ToolCallRepository(db);
+    repo = new SessionFileRepository(db);
+
+    const sessionRepo = new SessionRepository(db);
+    sessionRepo.create({ id: 's1', file_path: '/tmp/s1.jsonl', started_at: '2025-10-01T09:00:00Z', project_path: '/home/me/app' });
+    sessionRepo.create({ id: 's2', file_path: '/tmp/s2.jsonl', started_at: '2025-10-02T09:00:00Z', project_path: '/home/me/api' });
+
+    toolCallRepo.createMany([
+      { tool_use_id: 't1', session_id: 's1', message_uuid: 'a1', tool_name: 'Read', input: { file_path: '/home/me/app/src/index.ts' }, timestamp: '2025-10-01T10:00:00Z' },
+      { tool_use_id: 't2', session_id: 's1', message_uuid: 'a2', tool_name: 'Edit', input: { file_path: '/home/me/app/src/index.ts' }, timestamp: '2025-10-01T10:01:00Z' },
+      { tool_use_id: 't3', session_id: 's1', message_uuid: 'a3', tool_name: 'MultiEdit', input: { file_path: '/home/me/app/src/index.ts' }, timestamp: '2025-10-01T10:02:00Z' },
+      { tool_use_id: 't4', session_id: 's1', message_uuid: 'a4', tool_name: 'Write', input: { file_path: '/home/me/app/README.md' }, timestamp: '2025-10-01T10:03:00Z', result: 'File created successfully at: /home/me/app/README.md' },
+      { tool_use_id: 't5', session_id: 's1', message_uuid: 'a5', tool_name: 'Edit', input: { file_path: '/home/me/app/broken.ts' }, timestamp: '2025-10-01T10:04:00Z', result: 'String not found', is_error: true },
+      { tool_use_id: 't6', session_id: 's1', message_uuid: 'a6', tool_name: 'Bash', input: { command: 'cat /home/me/app/package.json' }, timestamp: '2025-10-01T10:05:00Z' },
+      { tool_use_id: 't7', session_id: 's2', message_uuid: 'b1', tool_name: 'NotebookEdit', input: { notebook_path: '/home/me/api/src/index.ts' }, timestamp: '2025-10-02T10:00:00Z' },
+      { tool_use_id: 't8', session_id: 's2', message_uuid: 'b2', tool_name: 'Write', input: { file_path: '/home/me/api/out.txt' }, timestamp: '2025-10-02T10:01:00Z', result: 'The file has been updated' },
+    ]);
+    repo.rebuildForSession('s1');
+    repo.rebuildForSession('s2');
+  });
+
+  const sessions = (options: Parameters<SessionFileRepository['findSessionsByFile']>[0]): string[] =>
+    repo.findSessionsByFile(options).results.map(result => result.session_id);
+
+  it('aggregates file tool calls per file and operation', () => {
+    expect(repo.findBySession('s1').map(f => [f.file_path, f.operation, f.count])).toEqual([
+      ['/home/me/app/README.md', 'create', 1],
+      ['/home/me/app/src/index.ts', 'edit', 2],
+      ['/home/me/app/src/index.ts', 'read', 1],
+    ]);
+    expect(repo.findBySession('s1', ['edit'])[0]).toMatchObject({
+      first_seen_at: '2025-10-01T10:01:00Z',
+      last_seen_at: '2025-10-01T10:02:00Z',
+    });
+  });
+
+  it('reads notebook paths and tells writes from creates', () => {
+    expect(repo.findBySession('s2').map(f => [f.file_path, f.operation])).toEqual([
+      ['/home/me/api/out.txt', 'write'],
+      ['/home/me/api/src/index.ts', 'edit'],
+    ]);
+  });
+
+  it('replaces the index of a session when rebuilt', () => {
+    toolCallRepo.createMany([
+      { tool_use_id: 't9', session_id: 's1', message_uuid: 'a9', tool_name: 'Read', input: { file_path: '/home/me/app/src/index.ts' }, timestamp: '2025-10-01T11:00:00Z' },
+    ]);
+
+    expect(repo.rebuildForSession('s1')).toBe(3);
+    expect(repo.findBySession('s1', ['read'])[0]).toMatchObject({ count: 2, last_seen_at: '2025-10-01T11:00:00Z' });
+    expect(repo.countFiles()).toBe(4);
+  });
+
+  it('finds sessions by absolute path or directory, most recent first', () => {
+    expect(sessions({ file_path: '/home/me/app/src/index.ts' })).toEqual(['s1']);
+    expect(sessions({ file_path: '/home/me/app/' })).toEqual(['s1']);
+    expect(sessions({ file_path: '/home/me' })).toEqual(['s2', 's1']);
+    expect(sessions({ file_path: '/home/me/ap' })).toEqual([]);
+  });
+
+  it('finds sessions by path suffix', () => {
+    const { results, total } = repo.findSessionsByFile({ file_path: 'src/index.ts' });
+
+    expect(total).toBe(2);
+    expect(results.map(r => r.session_id)).toEqual(['s2', 's1']);
+    expect(results[1]).toMatchObject({ file_paths: ['/home/me/app/src/index.ts'], count: 3 });
+    expect(results[1].operations.sort()).toEqual(['edit', 'read']);
+    expect(sessions({ file_path: 'dex.ts' })).toEqual([]);
+  });
+
+  it('filters by operation and project', () => {
+    expect(sessions({ file_path: 'src/index.ts', operations: ['read'] })).toEqual(['s1']);
+    expect(sessions({ file_path: 'src/index.ts', project: 'api' })).toEqual(['s2']);
+    expect(sessions({ file_path: 'src/index.ts', project: '/home/me/app' })).toEqual(['s1']);
+  });
+});
@@ -0,0 +1,171 @@
+/**
+ * Session File Repository
+ *
+ * Data access layer for the index of files each session read, edited,
+ * wrote or created. The index is derived from tool_calls.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type {
+  FileOperation,
+  SessionFile,
+  SessionFileSearchOptions,
+  SessionFileSearchResult,
+} from '../types/models.js';
+import { likeContains } from '../utils/index.js';
+
+/**
+ * Aggregate file tool calls of one session into session_files rows.
+ * Mirrors the backfill in migration 009.
+ */
+const REBUILD_SQL = `
+  INSERT INTO session_files (session_id, file_path, operation, count, first_seen_at, last_seen_at)
+  SELECT session_id, file_path, operation, COUNT(*), MIN(timestamp), MAX(timestamp)
+  FROM (
+    SELECT
+      session_id,
+      timestamp,
+      COALESCE(json_extract(input, '$.file_path'), json_extract(input, '$.notebook_path')) AS file_path,
+      CASE
+        WHEN tool_name = 'Read' THEN 'read'
+        WHEN tool_name IN ('Edit', 'MultiEdit', 'NotebookEdit') THEN 'edit'
+        WHEN result LIKE 'File created successfully%' THEN 'create'
+        ELSE 'write'
+      END AS operation
+    FROM tool_calls
+    WHERE session_id = ?
+      AND tool_name IN ('Read', 'Edit', 'MultiEdit', 'NotebookEdit', 'Write')
+      AND is_error = 0
+  )
+  WHERE file_path IS NOT NULL
+  GROUP BY session_id, file_path, operation
+`;
+
+export class SessionFileRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Rebuild the file index of a session from its tool calls.
+   * Returns the number of rows written.
+   */
+  rebuildForSession(sessionId: string): number {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM session_files WHERE session_id = ?').run(sessionId);
+      return this.db.prepare(REBUILD_SQL).run(sessionId).changes;
+    });
+  }
+
+  /**
+   * Get the files touched by a session, ordered by path.
+   */
+  findBySession(sessionId: string, operations?: FileOperation[]): SessionFile[] {
+    let sql = 'SELECT * FROM session_files WHERE session_id = ?';
+    const params: unknown[] = [sessionId];
+
+    if (operations && operations.length > 0) {
+      sql += ` AND operation IN (${operations.map(() => '?').join(', ')})`;
+      params.push(...operations);
+    }
+
+    sql += ' ORDER BY file_path ASC, operation ASC';
+    return this.db.prepare(sql).all(...params) as SessionFile[];
+  }
+
+  /**
+   * Find sessions that touched a file, most recent first.
+   * Absolute paths match the file itself or anything below it (directories);
+   * relative paths match on a path suffix, so 'services/VectorStore.ts'
+   * finds '/home/me/app/src/services/VectorStore.ts'.
+   */
+  findSessionsByFile(options: SessionFileSearchOptions): { results: SessionFileSearchResult[]; total: number } {
+    const { limit = 20, offset = 0 } = options;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    const filePath = options.file_path.replace(/\/+$/, '');
+    if (filePath.startsWith('/')) {
+      conditions.push('(sf.file_path = ? OR substr(sf.file_path, 1, ?) = ?)');
+      params.push(filePath, filePath.length + 1, filePath + '/');
+    } else {
+      const suffix = '/' + filePath.replace(/^\.?\//, '');
+      conditions.push('(sf.file_path = ? OR substr(sf.file_path, -?) = ?)');
+      params.push(filePath, suffix.length, suffix);
+    }
+
+    if (options.operations && options.operations.length > 0) {
+      conditions.push(`sf.operation IN (${options.operations.map(() => '?').join(', ')})`);
+      params.push(...options.operations);
+    }
+
+    if (options.project) {
+      if (/^\d+$/.test(options.project)) {
+        // Project id
+        conditions.push('s.project_id = ?');
+        params.push(parseInt(options.project, 10));
+      } else if (options.project.startsWith('/')) {
+        // Path prefix
+        conditions.push('substr(s.project_path, 1, ?) = ?');
+        params.push(options.project.length, options.project);
+      } else {
+        // Partial match on path or project name
+        conditions.push("(s.project_path LIKE ? ESCAPE '\\' OR s.project_id IN (SELECT id FROM projects WHERE name LIKE ? ESCAPE '\\'))");
+        params.push(likeContains(options.project), likeContains(options.project));
+      }
+    }
+
+    const where = `WHERE ${conditions.join(' AND ')}`;
+
+    const rows = this.db
+      .prepare(`
+        SELECT
+          sf.session_id,
+          s.title as session_title,
+          s.project_path,
+          s.started_at,
+          json_group_array(DISTINCT sf.file_path) as file_paths,
+          json_group_array(DISTINCT sf.operation) as operations,
+          SUM(sf.count) as count,
+          MIN(sf.first_seen_at) as first_seen_at,
+          MAX(sf.last_seen_at) as last_seen_at
+        FROM session_files sf
+        INNER JOIN sessions s ON sf.session_id = s.id
+        ${where}
+        GROUP BY sf.session_id
+        ORDER BY last_seen_at DESC
+        LIMIT ? OFFSET ?
+      `)
+      .all(...params, limit, offset) as Array<Omit<SessionFileSearchResult, 'file_paths' | 'operations'> & {
+        file_paths: string;
+        operations: string;
+      }>;
+
+    const { total } = this.db
+      .prepare(`
+        SELECT COUNT(DISTINCT sf.session_id) as total
+        FROM session_files sf
+        INNER JOIN sessions s ON sf.session_id = s.id
+        ${where}
+      `)
+      .get(...params) as { total: number };
+
+    return {
+      results: rows.map(r => ({
+        ...r,
+        file_paths: JSON.parse(r.file_paths) as string[],
+        operations: JSON.parse(r.operations) as FileOperation[],
+      })),
+      total,
+    };
+  }
+
+  /**
+   * Count distinct files across all sessions.
+   */
+  countFiles(): number {
+    const result = this.db
+      .prepare('SELECT COUNT(DISTINCT file_path) as count FROM session_files')
+      .get() as { count: number };
+
+    return result.count;
+  }
+}
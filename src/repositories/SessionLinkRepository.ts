@@ -0,0 +1,127 @@
+/**
+ * Session Link Repository
+ *
+ * Data access layer for continuation links between sessions (resumed or
+ * compacted conversations that Claude Code wrote to a new file).
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type { LinkedSession, SessionLink, SessionLinkType } from '../types/models.js';
+
+export interface CreateSessionLinkInput {
+  target_uuid: string;
+  link_type: SessionLinkType;
+}
+
+export class SessionLinkRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Replace the links recorded for a continuing session.
+   * Returns the number of links written.
+   */
+  replaceForSession(sessionId: string, links: CreateSessionLinkInput[]): number {
+    return this.db.transaction(() => {
+      this.db.prepare('DELETE FROM session_links WHERE session_id = ?').run(sessionId);
+
+      const stmt = this.db.prepare(`
+        INSERT OR IGNORE INTO session_links (session_id, target_uuid, link_type)
+        VALUES (?, ?, ?)
+      `);
+
+      let created = 0;
+      for (const link of links) {
+        created += stmt.run(sessionId, link.target_uuid, link.link_type).changes;
+      }
+      return created;
+    });
+  }
+
+  /**
+   * Resolve links whose earlier session wasn't known yet, from the session
+   * holding the target message (or ending on it). Returns the number resolved.
+   */
+  resolvePending(): number {
+    return this.db
+      .prepare(`
+        UPDATE session_links
+        SET continued_from_session_id = resolved.session_id
+        FROM (
+          SELECT l.id, COALESCE(
+            (SELECT m.session_id FROM messages m
+             WHERE m.uuid = l.target_uuid AND m.session_id != l.session_id),
+            (SELECT s.id FROM sessions s
+             WHERE s.leaf_uuid = l.target_uuid AND s.id != l.session_id
+             LIMIT 1)
+          ) AS session_id
+          FROM session_links l
+          WHERE l.continued_from_session_id IS NULL
+        ) AS resolved
+        WHERE session_links.id = resolved.id AND resolved.session_id IS NOT NULL
+      `)
+      .run().changes;
+  }
+
+  /**
+   * Get the links recorded for a session.
+   */
+  findBySession(sessionId: string): SessionLink[] {
+    return this.db
+      .prepare('SELECT * FROM session_links WHERE session_id = ? ORDER BY id ASC')
+      .all(sessionId) as SessionLink[];
+  }
+
+  /**
+   * Sessions this session continues from, oldest first.
+   * Unresolved links are included with a null session_id.
+   */
+  findContinuedFrom(sessionId: string): LinkedSession[] {
+    return this.db
+      .prepare(`
+        SELECT
+          l.continued_from_session_id as session_id,
+          s.title,
+          s.started_at,
+          s.ended_at,
+          l.link_type,
+          l.target_uuid
+        FROM session_links l
+        LEFT JOIN sessions s ON l.continued_from_session_id = s.id
+        WHERE l.session_id = ?
+        ORDER BY s.started_at IS NULL, s.started_at ASC, l.id ASC
+      `)
+      .all(sessionId) as LinkedSession[];
+  }
+
+  /**
+   * Sessions continuing this session, oldest first.
+   */
+  findContinuedIn(sessionId: string): LinkedSession[] {
+    return this.db
+      .prepare(`
+        SELECT
+          l.session_id,
+          s.title,
+          s.started_at,
+          s.ended_at,
+          l.link_type,
+          l.target_uuid
+        FROM session_links l
+        INNER JOIN sessions s ON l.session_id = s.id
+        WHERE l.continued_from_session_id = ?
+        ORDER BY s.started_at ASC, l.id ASC
+      `)
+      .all(sessionId) as LinkedSession[];
+  }
+
+  /**
+   * Count resolved links.
+   */
+  count(): number {
+    const result = this.db
+      .prepare('SELECT COUNT(*) as count FROM session_links WHERE continued_from_session_id IS NOT NULL')
+      .get() as { count: number };
+
+    return result.count;
+  }
+}
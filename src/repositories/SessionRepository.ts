@@ -6,6 +6,7 @@
 
 import { DatabaseConnection } from '../database/index.js';
 import type { Session, SessionWithContext, Tag } from '../types/models.js';
+import { likeContains } from '../utils/index.js';
 
 export interface CreateSessionInput {
   id: string;
@@ -20,6 +21,11 @@ export interface CreateSessionInput {
   summary?: string;
   is_title_auto_generated?: boolean;
   is_stub?: boolean;                // True if creating a stub before import
+  git_branch?: string;
+  client_version?: string;
+  is_sidechain?: boolean;
+  parent_session_id?: string;       // Parent of a sub-agent session
+  agent_id?: string;
 }
 
 export interface CreateStubInput {
@@ -35,6 +41,12 @@ export interface UpdateSessionInput {
   title?: string;
   summary?: string;
   is_title_auto_generated?: boolean;
+  git_branch?: string;
+  client_version?: string;
+  is_sidechain?: boolean;
+  leaf_uuid?: string;
+  file_path?: string;               // Source file moved
+  source_missing?: boolean;         // Source file gone (or back)
 }
 
 export interface SessionFilter {
@@ -44,6 +56,8 @@ export interface SessionFilter {
   has_title?: boolean;
   date_from?: string;
   date_to?: string;
+  git_branch?: string;              // Session started on, or switched to, this branch
+  include_subagents?: boolean;      // Include sub-agent (sidechain) sessions (default: true)
 }
 
 export class SessionRepository {
@@ -56,8 +70,9 @@ export class SessionRepository {
     const stmt = this.db.prepare(`
       INSERT INTO sessions (
         id, file_path, project_id, project_path, cwd, started_at, ended_at,
-        message_count, title, summary, is_title_auto_generated, is_stub
-      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+        message_count, title, summary, is_title_auto_generated, is_stub,
+        git_branch, client_version, is_sidechain, parent_session_id, agent_id
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -72,7 +87,12 @@ export class SessionRepository {
       input.title ?? null,
       input.summary ?? null,
       input.is_title_auto_generated ? 1 : 0,
-      input.is_stub ? 1 : 0
+      input.is_stub ? 1 : 0,
+      input.git_branch ?? null,
+      input.client_version ?? null,
+      input.is_sidechain ? 1 : 0,
+      input.parent_session_id ?? null,
+      input.agent_id ?? null
     );
 
     return this.findById(input.id)!;
@@ -117,7 +137,8 @@ export class SessionRepository {
 
   /**
    * Update a stub session with full import data.
-   * Preserves tags and other user-set metadata.
+   * Preserves tags and other user-set metadata; the imported title is only
+   * used when the stub has none.
    */
   updateFromImport(id: string, input: CreateSessionInput): Session | null {
     const stmt = this.db.prepare(`
@@ -129,6 +150,11 @@ export class SessionRepository {
         started_at = ?,
         ended_at = ?,
         message_count = ?,
+        title = COALESCE(title, ?),
+        is_title_auto_generated = CASE WHEN title IS NULL THEN ? ELSE is_title_auto_generated END,
+        git_branch = ?,
+        client_version = ?,
+        is_sidechain = ?,
         is_stub = 0,
         updated_at = datetime('now')
       WHERE id = ?
@@ -142,6 +168,11 @@ export class SessionRepository {
       input.started_at,
       input.ended_at ?? null,
       input.message_count ?? 0,
+      input.title ?? null,
+      input.is_title_auto_generated ? 1 : 0,
+      input.git_branch ?? null,
+      input.client_version ?? null,
+      input.is_sidechain ? 1 : 0,
       id
     );
 
@@ -206,6 +237,34 @@ export class SessionRepository {
       fields.push('is_title_auto_generated = ?');
       values.push(input.is_title_auto_generated ? 1 : 0);
     }
+    if (input.git_branch !== undefined) {
+      fields.push('git_branch = ?');
+      values.push(input.git_branch);
+    }
+    if (input.client_version !== undefined) {
+      fields.push('client_version = ?');
+      values.push(input.client_version);
+    }
+    if (input.is_sidechain !== undefined) {
+      fields.push('is_sidechain = ?');
+      values.push(input.is_sidechain ? 1 : 0);
+    }
+    if (input.leaf_uuid !== undefined) {
+      fields.push('leaf_uuid = ?');
+      values.push(input.leaf_uuid);
+    }
+    if (input.file_path !== undefined) {
+      fields.push('file_path = ?');
+      values.push(input.file_path);
+    }
+    if (input.source_missing !== undefined) {
+      fields.push('source_missing = ?');
+      values.push(input.source_missing ? 1 : 0);
+      // Keep when the file first went missing
+      fields.push(input.source_missing
+        ? "source_missing_at = COALESCE(source_missing_at, datetime('now'))"
+        : 'source_missing_at = NULL');
+    }
 
     if (fields.length === 0) {
       return this.findById(id);
@@ -281,6 +340,8 @@ export class SessionRepository {
       params.push(filter.date_to);
     }
 
+    this.addClientConditions(filter, conditions, params);
+
     if (conditions.length > 0) {
       sql += ' WHERE ' + conditions.join(' AND ');
     }
@@ -310,6 +371,22 @@ export class SessionRepository {
     });
   }
 
+  /**
+   * Add branch and sub-agent conditions for a session filter.
+   */
+  private addClientConditions(filter: SessionFilter | undefined, conditions: string[], params: unknown[]): void {
+    if (filter?.git_branch) {
+      conditions.push(`(s.git_branch = ? OR EXISTS (
+        SELECT 1 FROM messages m WHERE m.session_id = s.id AND m.git_branch = ?
+      ))`);
+      params.push(filter.git_branch, filter.git_branch);
+    }
+
+    if (filter?.include_subagents === false) {
+      conditions.push('s.is_sidechain = 0');
+    }
+  }
+
   /**
    * Get tags for a session.
    */
@@ -368,6 +445,8 @@ export class SessionRepository {
       params.push(`%${filter.project_path}%`);
     }
 
+    this.addClientConditions(filter, conditions, params);
+
     if (conditions.length > 0) {
       sql += ' WHERE ' + conditions.join(' AND ');
     }
@@ -387,6 +466,114 @@ export class SessionRepository {
     return results.map(r => r.project_path);
   }
 
+  /**
+   * Get the project paths matching a project filter, using the same rules
+   * as search: numeric project ID, path prefix (starting with /), or partial
+   * match on path or project name.
+   */
+  findProjectPaths(project: string): string[] {
+    let condition: string;
+    let params: unknown[];
+
+    if (/^\d+$/.test(project)) {
+      condition = 'project_id = ?';
+      params = [parseInt(project, 10)];
+    } else if (project.startsWith('/')) {
+      condition = 'substr(project_path, 1, ?) = ?';
+      params = [project.length, project];
+    } else {
+      condition = "(project_path LIKE ? ESCAPE '\\' OR project_id IN (SELECT id FROM projects WHERE name LIKE ? ESCAPE '\\'))";
+      params = [likeContains(project), likeContains(project)];
+    }
+
+    const results = this.db
+      .prepare(`SELECT DISTINCT project_path FROM sessions WHERE project_path IS NOT NULL AND ${condition}`)
+      .all(...params) as Array<{ project_path: string }>;
+
+    return results.map(r => r.project_path);
+  }
+
+  /**
+   * Get the IDs of sessions that started on, or switched to, a branch.
+   */
+  findIdsByBranch(branch: string): string[] {
+    const results = this.db
+      .prepare(`
+        SELECT id FROM sessions WHERE git_branch = ?
+        UNION
+        SELECT DISTINCT session_id FROM messages WHERE git_branch = ?
+      `)
+      .all(branch, branch) as Array<{ id: string }>;
+
+    return results.map(r => r.id);
+  }
+
+  /**
+   * Find the sub-agent sessions spawned by a session, oldest first.
+   */
+  findChildren(parentSessionId: string): Session[] {
+    return this.db
+      .prepare('SELECT * FROM sessions WHERE parent_session_id = ? ORDER BY started_at ASC, id ASC')
+      .all(parentSessionId) as Session[];
+  }
+
+  /**
+   * Link unlinked sub-agent sessions of a parent to the Task/Agent tool calls
+   * that spawned them, by matching the sub-agent's first prompt against the
+   * tool call's prompt input. Returns the number of sessions linked.
+   */
+  linkSubagentToolCalls(parentSessionId: string): number {
+    const children = this.db
+      .prepare(`
+        SELECT s.id, (
+          SELECT m.content FROM messages m
+          WHERE m.session_id = s.id AND m.role = 'user'
+          ORDER BY m.timestamp ASC, m.id ASC
+          LIMIT 1
+        ) as prompt
+        FROM sessions s
+        WHERE s.parent_session_id = ? AND s.parent_tool_use_id IS NULL
+        ORDER BY s.started_at ASC, s.id ASC
+      `)
+      .all(parentSessionId) as Array<{ id: string; prompt: string | null }>;
+
+    const findSpawn = this.db.prepare(`
+      SELECT tc.tool_use_id FROM tool_calls tc
+      WHERE tc.session_id = ?
+        AND tc.tool_name IN ('Task', 'Agent')
+        AND trim(json_extract(tc.input, '$.prompt')) = trim(?)
+        AND NOT EXISTS (SELECT 1 FROM sessions s WHERE s.parent_tool_use_id = tc.tool_use_id)
+      ORDER BY tc.timestamp ASC, tc.id ASC
+      LIMIT 1
+    `);
+    const link = this.db.prepare('UPDATE sessions SET parent_tool_use_id = ? WHERE id = ?');
+
+    return this.db.transaction(() => {
+      let linked = 0;
+      for (const child of children) {
+        if (!child.prompt) continue;
+
+        const spawn = findSpawn.get(parentSessionId, child.prompt) as { tool_use_id: string } | undefined;
+        if (spawn) {
+          link.run(spawn.tool_use_id, child.id);
+          linked++;
+        }
+      }
+      return linked;
+    });
+  }
+
+  /**
+   * Get the IDs of sub-agent (sidechain) sessions.
+   */
+  findSidechainIds(): string[] {
+    const results = this.db
+      .prepare('SELECT id FROM sessions WHERE is_sidechain = 1')
+      .all() as Array<{ id: string }>;
+
+    return results.map(r => r.id);
+  }
+
   /**
    * Increment message count for a session.
    */
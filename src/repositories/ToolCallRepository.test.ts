@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { SessionRepository } from './SessionRepository.js';
+import { ToolCallRepository } from './ToolCallRepository.js';
+
+describe('ToolCallRepository', () => {
+  let repo: ToolCallRepository;
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    repo = new ToolCallRepository(db);
+
+    const sessionRepo = new SessionRepository(db);
+    sessionRepo.create({ id: 's1', file_path: '/tmp/s1.jsonl', started_at: '2025-10-01T09:00:00Z', project_path: '/home/me/app' });
+    sessionRepo.create({ id: 's2', file_path: '/tmp/s2.jsonl', started_at: '2025-10-02T09:00:00Z', project_path: '/home/me/api' });
+
+    repo.createMany([
+      { tool_use_id: 't1', session_id: 's1', message_uuid: 'a1', tool_name: 'Bash', input: { command: 'npm test' }, timestamp: '2025-10-01T10:00:00Z', result_message_uuid: 'u1', result: 'ok', is_error: false },
+      { tool_use_id: 't2', session_id: 's1', message_uuid: 'a2', tool_name: 'MultiEdit', input: { file_path: '/home/me/app/a.ts', edits: [{ old_string: 'foo_bar' }] }, timestamp: '2025-10-01T10:01:00Z' },
+      { tool_use_id: 't3', session_id: 's2', message_uuid: 'a3', tool_name: 'Bash', input: { command: 'rm -rf 100%' }, timestamp: '2025-10-02T10:00:00Z', result: 'permission denied', is_error: true },
+    ]);
+  });
+
+  const ids = (options: Parameters<ToolCallRepository['search']>[0]): string[] =>
+    repo.search(options).results.map(call => call.tool_use_id);
+
+  it('keeps stored results when a call is imported again without one', () => {
+    repo.createMany([
+      { tool_use_id: 't1', session_id: 's1', message_uuid: 'a1', tool_name: 'Bash', input: { command: 'npm test' }, timestamp: '2025-10-01T10:00:00Z' },
+    ]);
+
+    expect(repo.count()).toBe(3);
+    expect(repo.findByToolUseId('t1')).toMatchObject({ result: 'ok', result_message_uuid: 'u1', is_error: false });
+  });
+
+  it('fills in results and moves calls into another session on re-import', () => {
+    repo.createMany([
+      { tool_use_id: 't2', session_id: 's2', message_uuid: 'a2', tool_name: 'MultiEdit', input: {}, timestamp: '2025-10-01T10:01:00Z', result: 'failed', is_error: true },
+    ]);
+
+    expect(repo.findByToolUseId('t2')).toMatchObject({ session_id: 's2', result: 'failed', is_error: true });
+  });
+
+  it('records results for calls stored by an earlier import', () => {
+    const updated = repo.recordResults([
+      { tool_use_id: 't2', result_message_uuid: 'u2', result: 'edited', is_error: false },
+      { tool_use_id: 'unknown', result_message_uuid: 'u9', result: 'ok', is_error: false },
+    ]);
+
+    expect(updated).toBe(1);
+    expect(repo.findByToolUseId('t2')).toMatchObject({ result_message_uuid: 'u2', result: 'edited' });
+  });
+
+  it('lists a session in order', () => {
+    expect(repo.findBySession('s1').map(call => call.tool_use_id)).toEqual(['t1', 't2']);
+  });
+
+  it('searches by tool name, case-insensitively, newest first', () => {
+    expect(ids({ tool_name: 'bash' })).toEqual(['t3', 't1']);
+    expect(repo.search({ tool_name: 'bash' }).results[0]).toMatchObject({ project_path: '/home/me/api', is_error: true });
+  });
+
+  it('matches input fields by JSON path, including nested ones', () => {
+    expect(ids({ input: { command: 'npm' } })).toEqual(['t1']);
+    expect(ids({ input: { 'edits[0].old_string': 'foo_bar' } })).toEqual(['t2']);
+    expect(ids({ input_contains: 'a.ts' })).toEqual(['t2']);
+  });
+
+  it('treats LIKE wildcards in input filters literally', () => {
+    expect(ids({ input: { command: '100%' } })).toEqual(['t3']);
+    expect(ids({ input: { command: '_' } })).toEqual([]);
+    expect(ids({ input_contains: 'foo_bar' })).toEqual(['t2']);
+  });
+
+  it('filters by error state, session, project and date', () => {
+    expect(ids({ is_error: true })).toEqual(['t3']);
+    expect(ids({ is_error: false })).toEqual(['t2', 't1']);
+    expect(ids({ session_id: 's2' })).toEqual(['t3']);
+    expect(ids({ project: '/home/me/app' })).toEqual(['t2', 't1']);
+    expect(ids({ date_from: '2025-10-02' })).toEqual(['t3']);
+    expect(repo.search({ tool_name: 'Bash', limit: 1 }).total).toBe(2);
+  });
+
+  it('counts calls per tool', () => {
+    expect(repo.countByTool()).toEqual([
+      { tool_name: 'Bash', count: 2 },
+      { tool_name: 'MultiEdit', count: 1 },
+    ]);
+    expect(repo.countByTool('s2')).toEqual([{ tool_name: 'Bash', count: 1 }]);
+  });
+});
@@ -0,0 +1,247 @@
+/**
+ * Tool Call Repository
+ *
+ * Data access layer for tool invocations extracted from conversations.
+ */
+
+import { DatabaseConnection } from '../database/index.js';
+import type { ToolCall, ToolCallSearchOptions, ToolCallSearchResult } from '../types/models.js';
+import { likeContains, timestampAtOrBefore } from '../utils/index.js';
+
+export interface CreateToolCallInput {
+  tool_use_id: string;
+  session_id: string;
+  message_uuid: string;
+  tool_name: string;
+  input: Record<string, unknown>;
+  timestamp: string;
+  result_message_uuid?: string;
+  result?: string;
+  is_error?: boolean;
+}
+
+export interface RecordToolResultInput {
+  tool_use_id: string;
+  result_message_uuid: string;
+  result: string;
+  is_error: boolean;
+}
+
+export class ToolCallRepository {
+  constructor(private db: DatabaseConnection) {}
+
+  /**
+   * Insert tool calls in a transaction; returns the number written.
+   * Re-imports keep existing rows, filling in results that were missing and
+   * moving sub-agent calls into their child session.
+   */
+  createMany(inputs: CreateToolCallInput[]): number {
+    if (inputs.length === 0) return 0;
+
+    const stmt = this.db.prepare(`
+      INSERT INTO tool_calls (
+        tool_use_id, session_id, message_uuid, tool_name, input, timestamp,
+        result_message_uuid, result, is_error
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(tool_use_id) DO UPDATE SET
+        session_id = excluded.session_id,
+        result_message_uuid = COALESCE(excluded.result_message_uuid, result_message_uuid),
+        result = COALESCE(excluded.result, result),
+        is_error = CASE WHEN excluded.result IS NOT NULL THEN excluded.is_error ELSE is_error END
+    `);
+    let created = 0;
+
+    this.db.transaction(() => {
+      for (const input of inputs) {
+        stmt.run(
+          input.tool_use_id,
+          input.session_id,
+          input.message_uuid,
+          input.tool_name,
+          JSON.stringify(input.input),
+          input.timestamp,
+          input.result_message_uuid ?? null,
+          input.result ?? null,
+          input.is_error ? 1 : 0
+        );
+        created++;
+      }
+    });
+
+    return created;
+  }
+
+  /**
+   * Fill in results for tool calls stored earlier, e.g. when an incremental
+   * import reads a tool_result whose tool_use was in a previous run.
+   * Returns the number of tool calls updated.
+   */
+  recordResults(inputs: RecordToolResultInput[]): number {
+    if (inputs.length === 0) return 0;
+
+    const stmt = this.db.prepare(`
+      UPDATE tool_calls
+      SET result_message_uuid = ?, result = ?, is_error = ?
+      WHERE tool_use_id = ?
+    `);
+
+    return this.db.transaction(() => {
+      let updated = 0;
+      for (const input of inputs) {
+        updated += stmt.run(
+          input.result_message_uuid,
+          input.result,
+          input.is_error ? 1 : 0,
+          input.tool_use_id
+        ).changes;
+      }
+      return updated;
+    });
+  }
+
+  /**
+   * Find a tool call by its tool_use id.
+   */
+  findByToolUseId(toolUseId: string): ToolCall | null {
+    const result = this.db
+      .prepare('SELECT * FROM tool_calls WHERE tool_use_id = ?')
+      .get(toolUseId) as ToolCall | undefined;
+
+    return result ? this.toToolCall(result) : null;
+  }
+
+  /**
+   * Find all tool calls in a session, in order.
+   */
+  findBySession(sessionId: string): ToolCall[] {
+    const results = this.db
+      .prepare('SELECT * FROM tool_calls WHERE session_id = ? ORDER BY timestamp ASC, id ASC')
+      .all(sessionId) as ToolCall[];
+
+    return results.map(r => this.toToolCall(r));
+  }
+
+  /**
+   * Search tool calls by tool name and input fields.
+   * Input fields are matched with json_extract, so nested paths such as
+   * 'edits[0].old_string' work as well as top-level keys.
+   */
+  search(options: ToolCallSearchOptions): { results: ToolCallSearchResult[]; total: number } {
+    const { limit = 20, offset = 0 } = options;
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (options.tool_name) {
+      conditions.push('tc.tool_name = ? COLLATE NOCASE');
+      params.push(options.tool_name);
+    }
+
+    for (const [field, value] of Object.entries(options.input ?? {})) {
+      conditions.push("CAST(json_extract(tc.input, ?) AS TEXT) LIKE ? ESCAPE '\\'");
+      params.push(`$.${field}`, likeContains(value));
+    }
+
+    if (options.input_contains) {
+      conditions.push("tc.input LIKE ? ESCAPE '\\'");
+      params.push(likeContains(options.input_contains));
+    }
+
+    if (options.session_id) {
+      conditions.push('tc.session_id = ?');
+      params.push(options.session_id);
+    }
+
+    if (options.is_error !== undefined) {
+      conditions.push('tc.is_error = ?');
+      params.push(options.is_error ? 1 : 0);
+    }
+
+    if (options.date_from) {
+      conditions.push('tc.timestamp >= ?');
+      params.push(options.date_from);
+    }
+
+    if (options.date_to) {
+      const bound = timestampAtOrBefore('tc.timestamp', options.date_to);
+      conditions.push(bound.sql);
+      params.push(bound.param);
+    }
+
+    if (options.project) {
+      if (/^\d+$/.test(options.project)) {
+        // Project id
+        conditions.push('s.project_id = ?');
+        params.push(parseInt(options.project, 10));
+      } else if (options.project.startsWith('/')) {
+        // Path prefix
+        conditions.push('substr(s.project_path, 1, ?) = ?');
+        params.push(options.project.length, options.project);
+      } else {
+        // Partial match on path or project name
+        conditions.push("(s.project_path LIKE ? ESCAPE '\\' OR s.project_id IN (SELECT id FROM projects WHERE name LIKE ? ESCAPE '\\'))");
+        params.push(likeContains(options.project), likeContains(options.project));
+      }
+    }
+
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+
+    const rows = this.db
+      .prepare(`
+        SELECT tc.*, s.title as session_title, s.project_path
+        FROM tool_calls tc
+        INNER JOIN sessions s ON tc.session_id = s.id
+        ${where}
+        ORDER BY tc.timestamp DESC, tc.id DESC
+        LIMIT ? OFFSET ?
+      `)
+      .all(...params, limit, offset) as ToolCallSearchResult[];
+
+    const { total } = this.db
+      .prepare(`
+        SELECT COUNT(*) as total
+        FROM tool_calls tc
+        INNER JOIN sessions s ON tc.session_id = s.id
+        ${where}
+      `)
+      .get(...params) as { total: number };
+
+    return {
+      results: rows.map(r => ({ ...r, is_error: Boolean(r.is_error) })),
+      total,
+    };
+  }
+
+  /**
+   * Count tool calls per tool name, most used first.
+   */
+  countByTool(sessionId?: string): Array<{ tool_name: string; count: number }> {
+    let sql = 'SELECT tool_name, COUNT(*) as count FROM tool_calls';
+    const params: unknown[] = [];
+
+    if (sessionId) {
+      sql += ' WHERE session_id = ?';
+      params.push(sessionId);
+    }
+
+    sql += ' GROUP BY tool_name ORDER BY count DESC, tool_name ASC';
+    return this.db.prepare(sql).all(...params) as Array<{ tool_name: string; count: number }>;
+  }
+
+  /**
+   * Count all tool calls.
+   */
+  count(): number {
+    const result = this.db
+      .prepare('SELECT COUNT(*) as count FROM tool_calls')
+      .get() as { count: number };
+
+    return result.count;
+  }
+
+  /**
+   * Convert SQLite integers to booleans.
+   */
+  private toToolCall(row: ToolCall): ToolCall {
+    return { ...row, is_error: Boolean(row.is_error) };
+  }
+}
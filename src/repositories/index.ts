@@ -13,3 +13,30 @@ export type { CreateMessageInput, MessageFilter } from './MessageRepository.js';
 
 export { TagRepository } from './TagRepository.js';
 export type { CreateTagInput, UpdateTagInput } from './TagRepository.js';
+
+export { EmbeddingFailureRepository } from './EmbeddingFailureRepository.js';
+export type { RecordEmbeddingFailureInput } from './EmbeddingFailureRepository.js';
+
+export { ChunkIndexStateRepository } from './ChunkIndexStateRepository.js';
+export type { UpsertChunkIndexStateInput } from './ChunkIndexStateRepository.js';
+
+export { EmbeddingCacheRepository } from './EmbeddingCacheRepository.js';
+
+export { ToolCallRepository } from './ToolCallRepository.js';
+export type { CreateToolCallInput, RecordToolResultInput } from './ToolCallRepository.js';
+
+export { SessionFileRepository } from './SessionFileRepository.js';
+
+export { SessionLinkRepository } from './SessionLinkRepository.js';
+export type { CreateSessionLinkInput } from './SessionLinkRepository.js';
+
+export { ImportFileStateRepository } from './ImportFileStateRepository.js';
+export type { UpsertImportFileStateInput } from './ImportFileStateRepository.js';
+
+export { ImportRunRepository } from './ImportRunRepository.js';
+export type {
+  StartImportRunInput,
+  FinishImportRunInput,
+  RecordImportErrorInput,
+  ImportRunFilter,
+} from './ImportRunRepository.js';
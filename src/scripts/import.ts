@@ -3,14 +3,35 @@
  * Import script
  *
  * Import conversation history from JSONL files into the database.
- * Usage: npm run import [-- --source <path>] [-- --skip-existing] [-- --verbose]
+ * Usage: npm run import [-- --source <path>] [-- --no-skip-existing] [-- --concurrency <n>] [-- --index-chunks] [-- --verbose]
  */
 
 import * as path from 'path';
 import * as os from 'os';
 import { getDatabase, closeDatabase, MigrationRunner } from '../database/index.js';
-import { SessionRepository, MessageRepository, ProjectRepository } from '../repositories/index.js';
-import { ImportService } from '../services/index.js';
+import type { DatabaseConnection } from '../database/index.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  ProjectRepository,
+  EmbeddingFailureRepository,
+  ChunkIndexStateRepository,
+  EmbeddingCacheRepository,
+  ToolCallRepository,
+  SessionFileRepository,
+  SessionLinkRepository,
+  ImportFileStateRepository,
+  ImportRunRepository,
+} from '../repositories/index.js';
+import {
+  ImportService,
+  ChunkIndexer,
+  EmbeddingService,
+  createEmbeddingProvider,
+  createVectorStore,
+  embeddingConfigFromEnv,
+  parseVectorBackend,
+} from '../services/index.js';
 
 // Default source directories
 const DEFAULT_SOURCE_DIRS = [
@@ -21,6 +42,8 @@ const DEFAULT_SOURCE_DIRS = [
 interface CliOptions {
   sourceDirs: string[];
   skipExisting: boolean;
+  concurrency: number;
+  indexChunks: boolean;
   verbose: boolean;
 }
 
@@ -29,6 +52,8 @@ function parseArgs(): CliOptions {
   const options: CliOptions = {
     sourceDirs: [...DEFAULT_SOURCE_DIRS],
     skipExisting: true,
+    concurrency: 1,
+    indexChunks: false,
     verbose: false,
   };
 
@@ -41,6 +66,10 @@ function parseArgs(): CliOptions {
       options.sourceDirs.push(args[++i]);
     } else if (arg === '--no-skip-existing') {
       options.skipExisting = false;
+    } else if (arg === '--concurrency' && args[i + 1]) {
+      options.concurrency = Math.max(1, parseInt(args[++i], 10) || 1);
+    } else if (arg === '--index-chunks') {
+      options.indexChunks = true;
     } else if (arg === '--verbose' || arg === '-v') {
       options.verbose = true;
     } else if (arg === '--help' || arg === '-h') {
@@ -62,7 +91,12 @@ Usage:
 Options:
   --source <path>       Replace default source directories with specified path
   --add-source <path>   Add an additional source directory
-  --no-skip-existing    Re-import sessions that already exist
+  --no-skip-existing    Re-import every file in full (by default only lines added
+                        since the last import are read; unchanged files are skipped)
+  --concurrency <n>     Parse files in n worker threads (default: 1); for large
+                        imports, e.g. the first import of a long history
+  --index-chunks        Embed new/changed sessions into the vector store afterwards
+                        (uses VECTOR_BACKEND, CHROMA_HOST and EMBEDDING_* settings)
   --verbose, -v         Show detailed progress
   --help, -h            Show this help message
 
@@ -74,6 +108,8 @@ Examples:
   npm run import                        # Import from default directories
   npm run import -- --verbose           # Import with detailed progress
   npm run import -- --source ~/custom   # Import from custom directory only
+  npm run import -- --index-chunks      # Import, then index changed sessions
+  npm run import -- --concurrency 4     # Parse in 4 worker threads
 `);
 }
 
@@ -89,6 +125,61 @@ function formatNumber(n: number): string {
   return n.toLocaleString();
 }
 
+/**
+ * Post-import hook: embed only the sessions the import created or changed.
+ */
+async function indexChangedSessions(db: DatabaseConnection, sessionIds: string[], verbose: boolean): Promise<void> {
+  console.log('\n--- Chunk Indexing ---');
+
+  const embeddingService = new EmbeddingService(
+    createEmbeddingProvider(embeddingConfigFromEnv()),
+    {},
+    new EmbeddingCacheRepository(db)
+  );
+  const vectorStore = createVectorStore({
+    backend: parseVectorBackend(process.env.VECTOR_BACKEND),
+    embeddingService,
+    collectionName: 'conversation_messages',
+    chromaHost: process.env.CHROMA_HOST || 'http://localhost:8000',
+    db,
+  });
+
+  const embeddingHealth = await embeddingService.healthCheck();
+  const storeHealth = await vectorStore.healthCheck();
+  if (!embeddingHealth.available || !embeddingHealth.model_loaded || !storeHealth.available) {
+    console.error(`Skipping chunk indexing: ${embeddingHealth.error ?? storeHealth.error}`);
+    console.error('Run "npm run index-chunks" once the vector backend is available.');
+    return;
+  }
+
+  await vectorStore.initialize();
+
+  const indexer = new ChunkIndexer(
+    new SessionRepository(db),
+    new MessageRepository(db),
+    vectorStore,
+    new EmbeddingFailureRepository(db),
+    new ChunkIndexStateRepository(db)
+  );
+
+  const result = await indexer.indexAll({
+    sessionIds,
+    onProgress: verbose
+      ? (processed, total) => console.log(`  Indexed ${formatNumber(processed)} / ${formatNumber(total)} sessions`)
+      : undefined,
+  });
+
+  console.log(`Sessions embedded: ${formatNumber(result.processedSessions)} (${formatNumber(result.totalChunks)} chunks)`);
+  console.log(`Unchanged: ${formatNumber(result.unchangedSessions)}, removed: ${formatNumber(result.removedSessions)}`);
+  if (result.failedChunks > 0) {
+    console.log(`Failed chunks: ${formatNumber(result.failedChunks)} (retry with: npm run index-chunks -- --retry-failed)`);
+  }
+  if (result.cacheHits > 0) {
+    console.log(`Embedding cache hit rate: ${(result.cacheHitRate * 100).toFixed(1)}%`);
+  }
+  console.log(`Duration: ${formatDuration(result.duration)}`);
+}
+
 async function main(): Promise<void> {
   const options = parseArgs();
 
@@ -112,7 +203,22 @@ async function main(): Promise<void> {
     const sessionRepo = new SessionRepository(db);
     const messageRepo = new MessageRepository(db);
     const projectRepo = new ProjectRepository(db);
-    const importService = new ImportService(sessionRepo, messageRepo, projectRepo);
+    const toolCallRepo = new ToolCallRepository(db);
+    const sessionFileRepo = new SessionFileRepository(db);
+    const sessionLinkRepo = new SessionLinkRepository(db);
+    const fileStateRepo = new ImportFileStateRepository(db);
+    const importRunRepo = new ImportRunRepository(db);
+    const importService = new ImportService(
+      sessionRepo,
+      messageRepo,
+      projectRepo,
+      toolCallRepo,
+      sessionFileRepo,
+      sessionLinkRepo,
+      fileStateRepo,
+      importRunRepo,
+      db
+    );
 
     // Show current stats
     const beforeStats = importService.getStats();
@@ -129,12 +235,15 @@ async function main(): Promise<void> {
     console.log('');
 
     // Run import
-    console.log('Importing conversations...\n');
+    console.log(options.concurrency > 1
+      ? `Importing conversations (${options.concurrency} parser threads)...\n`
+      : 'Importing conversations...\n');
 
     let lastProgressLine = '';
     const result = await importService.importAll({
       sourceDirs: options.sourceDirs,
       skipExisting: options.skipExisting,
+      concurrency: options.concurrency,
       onProgress: (current, total, sessionId) => {
         if (options.verbose) {
           console.log(`  [${current}/${total}] ${sessionId}`);
@@ -163,9 +272,12 @@ async function main(): Promise<void> {
     // Print results
     console.log('\n--- Import Summary ---');
     console.log(`Total files found: ${formatNumber(result.totalFiles)}`);
-    console.log(`Successfully imported: ${formatNumber(result.imported)}`);
-    console.log(`Skipped (already exists): ${formatNumber(result.skipped)}`);
+    console.log(`Imported: ${formatNumber(result.imported)}`);
+    console.log(`Skipped (nothing new): ${formatNumber(result.skipped)}`);
     console.log(`Failed: ${formatNumber(result.failed)}`);
+    if (result.lineErrors.length > 0) {
+      console.log(`Malformed lines skipped: ${formatNumber(result.lineErrors.length)}`);
+    }
     console.log(`Total messages imported: ${formatNumber(result.totalMessages)}`);
     console.log(`Duration: ${formatDuration(result.duration)}`);
 
@@ -179,12 +291,34 @@ async function main(): Promise<void> {
       }
     }
 
+    if (result.lineErrors.length > 0 && options.verbose) {
+      console.log('\nMalformed lines:');
+      for (const err of result.lineErrors.slice(0, 10)) {
+        console.log(`  ${path.basename(err.file)}:${err.line}: ${err.error}`);
+      }
+      if (result.lineErrors.length > 10) {
+        console.log(`  ... and ${result.lineErrors.length - 10} more`);
+      }
+    }
+
+    if (result.runId !== null && (result.errors.length > 0 || result.lineErrors.length > 0)) {
+      console.log(`\nErrors recorded with import run #${result.runId} (see get_import_history)`);
+    }
+
     // Show final stats
     const afterStats = importService.getStats();
     console.log('\nFinal database state:');
     console.log(`  Sessions: ${formatNumber(afterStats.sessions)} (+${formatNumber(afterStats.sessions - beforeStats.sessions)})`);
     console.log(`  Messages: ${formatNumber(afterStats.messages)} (+${formatNumber(afterStats.messages - beforeStats.messages)})`);
 
+    if (options.indexChunks) {
+      if (result.changedSessionIds.length > 0) {
+        await indexChangedSessions(db, result.changedSessionIds, options.verbose);
+      } else {
+        console.log('\nNo new or changed sessions to index.');
+      }
+    }
+
     // Show database info
     const dbStats = db.getStats();
     console.log(`\nDatabase: ${dbStats.path}`);
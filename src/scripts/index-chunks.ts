@@ -6,30 +6,56 @@
  * - Message pairs (Q&A kept together)
  * - Topic detection and grouping
  * - Adjacency links for context expansion
- * - Checkpoint system for resumable indexing
+ * - Incremental: only new or changed sessions are re-embedded (state kept in SQLite)
+ * - Failure ledger with --retry-failed to re-embed only failed chunks
+ * - Persistent embedding cache: identical chunk text is never embedded twice
  *
  * Usage:
  *   npm run index-chunks [options]
  *
  * Options:
- *   --batch-size <n>    Process n sessions at a time (default: 10)
+ *   --batch-size <n>    Report progress every n sessions (default: 10)
  *   --concurrency <n>   Embedding concurrency (default: 10)
  *   --fresh             Start fresh (delete existing collection)
+ *   --full              Re-embed every session, ignoring stored index state
+ *   --retry-failed      Only re-embed chunks recorded in the failure ledger
+ *   --backend <name>    Vector backend: chroma or sqlite (default: $VECTOR_BACKEND or chroma)
+ *   --provider <name>   Embedding provider: ollama, openai or hashing
+ *   --no-cache          Don't read or write the embedding cache
  *   --verbose           Show detailed progress
  *   --help              Show help
  */
 
 import { getDatabase, closeDatabase } from '../database/index.js';
-import { SessionRepository, MessageRepository } from '../repositories/index.js';
-import { EmbeddingService, VectorStore, ChunkIndexer } from '../services/index.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  EmbeddingFailureRepository,
+  ChunkIndexStateRepository,
+  EmbeddingCacheRepository,
+} from '../repositories/index.js';
+import {
+  EmbeddingService,
+  ChunkIndexer,
+  createEmbeddingProvider,
+  createVectorStore,
+  embeddingConfigFromEnv,
+  parseEmbeddingProvider,
+  parseVectorBackend,
+} from '../services/index.js';
+import type { EmbeddingProviderConfig, VectorBackendType } from '../services/index.js';
 
 interface CliOptions {
   batchSize: number;
   concurrency: number;
   verbose: boolean;
   fresh: boolean;
+  full: boolean;
+  retryFailed: boolean;
+  useCache: boolean;
+  backend: VectorBackendType;
   chromaHost: string;
-  ollamaHost: string;
+  embedding: EmbeddingProviderConfig;
 }
 
 function parseArgs(): CliOptions {
@@ -39,8 +65,12 @@ function parseArgs(): CliOptions {
     concurrency: 10,
     verbose: false,
     fresh: false,
+    full: false,
+    retryFailed: false,
+    useCache: true,
+    backend: parseVectorBackend(process.env.VECTOR_BACKEND),
     chromaHost: 'http://localhost:8000',
-    ollamaHost: 'http://localhost:11434',
+    embedding: embeddingConfigFromEnv(),
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -50,14 +80,26 @@ function parseArgs(): CliOptions {
       options.batchSize = parseInt(args[++i], 10);
     } else if (arg === '--concurrency' && args[i + 1]) {
       options.concurrency = parseInt(args[++i], 10);
+    } else if (arg === '--backend' && args[i + 1]) {
+      options.backend = parseVectorBackend(args[++i]);
     } else if (arg === '--chroma-host' && args[i + 1]) {
       options.chromaHost = args[++i];
-    } else if (arg === '--ollama-host' && args[i + 1]) {
-      options.ollamaHost = args[++i];
+    } else if (arg === '--provider' && args[i + 1]) {
+      options.embedding.provider = parseEmbeddingProvider(args[++i]);
+    } else if (arg === '--model' && args[i + 1]) {
+      options.embedding.model = args[++i];
+    } else if ((arg === '--embedding-url' || arg === '--ollama-host') && args[i + 1]) {
+      options.embedding.baseUrl = args[++i];
     } else if (arg === '--verbose' || arg === '-v') {
       options.verbose = true;
     } else if (arg === '--fresh') {
       options.fresh = true;
+    } else if (arg === '--full') {
+      options.full = true;
+    } else if (arg === '--retry-failed') {
+      options.retryFailed = true;
+    } else if (arg === '--no-cache') {
+      options.useCache = false;
     } else if (arg === '--help' || arg === '-h') {
       printHelp();
       process.exit(0);
@@ -76,26 +118,40 @@ This script uses SEMANTIC CHUNKING for better search quality:
 - Topic detection: Groups related discussions
 - Adjacency links: Enable "expand context" features
 
+Indexing is incremental: only sessions that are new or changed since the last
+run (or indexed with another chunker version/embedding model) are re-embedded,
+and vectors of sessions deleted from SQLite are removed.
+
 Usage:
   npm run index-chunks [options]
 
 Options:
-  --batch-size <n>      Process n sessions at a time (default: 10)
+  --batch-size <n>      Report progress every n sessions (default: 10)
   --concurrency <n>     Embedding concurrency (default: 10)
   --fresh               Start fresh (delete existing collection)
+  --full                Re-embed every session, ignoring stored index state
+  --retry-failed        Only re-embed chunks recorded in the failure ledger
+  --no-cache            Don't read or write the embedding cache
+  --backend <name>      Vector backend: chroma or sqlite (default: $VECTOR_BACKEND or chroma)
   --chroma-host <url>   ChromaDB URL (default: http://localhost:8000)
-  --ollama-host <url>   Ollama URL (default: http://localhost:11434)
+  --provider <name>     Embedding provider: ollama, openai or hashing (default: $EMBEDDING_PROVIDER or ollama)
+  --model <name>        Embedding model (default: provider default or $EMBEDDING_MODEL)
+  --embedding-url <url>  Embedding server URL (alias: --ollama-host)
   --verbose, -v         Show detailed progress
   --help, -h            Show this help message
 
 Prerequisites:
   1. ChromaDB must be running: docker run -p 8000:8000 chromadb/chroma
+     (not needed with --backend sqlite, which stores vectors in conversations.db)
   2. Ollama must be running with nomic-embed-text: ollama pull nomic-embed-text
+     (not needed with --provider hashing; --provider openai uses a /v1/embeddings server)
 
 Examples:
-  npm run index-chunks                    # Index all sessions (resume from checkpoint)
+  npm run index-chunks                    # Index new and changed sessions
   npm run index-chunks -- --fresh         # Start fresh (delete existing)
   npm run index-chunks -- --verbose       # With detailed progress
+  npm run index-chunks -- --retry-failed  # Retry chunks that failed to embed
+  npm run index-chunks -- --backend sqlite  # Index into the embedded SQLite store
 `);
 }
 
@@ -111,6 +167,34 @@ function formatNumber(n: number): string {
   return n.toLocaleString();
 }
 
+/**
+ * Re-embed only the chunks recorded in the failure ledger.
+ */
+async function runRetryFailed(indexer: ChunkIndexer, pending: number, options: CliOptions): Promise<void> {
+  if (pending === 0) {
+    console.log('\nNo failed chunks to retry.');
+    return;
+  }
+
+  console.log(`\nRetrying ${formatNumber(pending)} failed chunks...\n`);
+
+  const result = await indexer.retryFailed({
+    concurrency: options.concurrency,
+    onProgress: (processed, total, currentSession) => {
+      if (options.verbose) {
+        console.log(`  Retried ${formatNumber(processed)} / ${formatNumber(total)} sessions (${currentSession})`);
+      }
+    },
+  });
+
+  console.log('\n--- Retry Summary ---');
+  console.log(`Attempted: ${formatNumber(result.attempted)} chunks`);
+  console.log(`Recovered: ${formatNumber(result.recovered)}`);
+  console.log(`Still failing: ${formatNumber(result.stillFailing)}`);
+  console.log(`Stale (chunk no longer exists): ${formatNumber(result.stale)}`);
+  console.log(`Duration: ${formatDuration(result.duration)}`);
+}
+
 async function main(): Promise<void> {
   const options = parseArgs();
 
@@ -120,44 +204,68 @@ async function main(): Promise<void> {
   // Initialize services
   console.log('Initializing services...');
 
-  const embeddingService = new EmbeddingService(options.ollamaHost);
-  const vectorStore = new VectorStore(
-    embeddingService,
-    'conversation_messages', // Same collection as MCP server uses
-    options.chromaHost
+  const db = getDatabase();
+  const embeddingService = new EmbeddingService(
+    createEmbeddingProvider(options.embedding),
+    {},
+    options.useCache ? new EmbeddingCacheRepository(db) : undefined
   );
+  const vectorStore = createVectorStore({
+    backend: options.backend,
+    embeddingService,
+    collectionName: 'conversation_messages', // Same collection as MCP server uses
+    chromaHost: options.chromaHost,
+    db,
+  });
 
   // Health checks
   console.log('\nHealth checks:');
 
-  const ollamaHealth = await embeddingService.healthCheck();
-  if (!ollamaHealth.available) {
-    console.error(`  ❌ Ollama: FAILED - ${ollamaHealth.error}`);
-    console.error('\nPlease ensure Ollama is running: ollama serve');
+  const embeddingHealth = await embeddingService.healthCheck();
+  const embeddingLabel = embeddingService.endpoint
+    ? `${embeddingService.providerName}, ${embeddingService.endpoint}`
+    : embeddingService.providerName;
+  if (!embeddingHealth.available) {
+    console.error(`  ❌ Embeddings: FAILED - ${embeddingHealth.error}`);
+    if (embeddingService.providerName === 'ollama') {
+      console.error('\nPlease ensure Ollama is running: ollama serve');
+    }
     process.exit(1);
   }
-  console.log(`  ✓ Ollama: OK (${options.ollamaHost})`);
+  console.log(`  ✓ Embeddings: OK (${embeddingLabel})`);
 
-  if (!ollamaHealth.model_loaded) {
-    console.error(`  ❌ Model: FAILED - ${ollamaHealth.error}`);
-    console.error('\nPlease pull the model: ollama pull nomic-embed-text');
+  if (!embeddingHealth.model_loaded) {
+    console.error(`  ❌ Model: FAILED - ${embeddingHealth.error}`);
+    if (embeddingService.providerName === 'ollama') {
+      console.error(`\nPlease pull the model: ollama pull ${embeddingService.model}`);
+    }
     process.exit(1);
   }
-  console.log('  ✓ Model: nomic-embed-text loaded');
-
-  const chromaHealth = await vectorStore.healthCheck();
-  if (!chromaHealth.available) {
-    console.error(`  ❌ ChromaDB: FAILED - ${chromaHealth.error}`);
-    console.error('\nPlease ensure ChromaDB is running:');
-    console.error('  docker run -p 8000:8000 chromadb/chroma');
-    process.exit(1);
+  const dimensions = await embeddingService.getDimensions();
+  console.log(`  ✓ Model: ${embeddingService.model} loaded (${dimensions} dimensions)`);
+
+  const storeHealth = await vectorStore.healthCheck();
+  if (options.backend === 'sqlite') {
+    if (!storeHealth.available) {
+      console.error(`  ❌ SQLite vector store: FAILED - ${storeHealth.error}`);
+      process.exit(1);
+    }
+    console.log(`  ✓ SQLite vector store: OK (${db.getPath()})`);
+  } else {
+    if (!storeHealth.available) {
+      console.error(`  ❌ ChromaDB: FAILED - ${storeHealth.error}`);
+      console.error('\nPlease ensure ChromaDB is running:');
+      console.error('  docker run -p 8000:8000 chromadb/chroma');
+      process.exit(1);
+    }
+    console.log(`  ✓ ChromaDB: OK (${options.chromaHost})`);
   }
-  console.log(`  ✓ ChromaDB: OK (${options.chromaHost})`);
 
   // Handle fresh start
   if (options.fresh) {
     console.log('\n⚠️  Fresh start requested - deleting existing collection...');
     await vectorStore.deleteCollection();
+    new EmbeddingFailureRepository(db).clear(vectorStore.collectionName);
   }
 
   // Initialize vector store
@@ -168,25 +276,35 @@ async function main(): Promise<void> {
   const vectorStats = await vectorStore.getStats();
   console.log(`\nCurrent vector index: ${formatNumber(vectorStats.count)} chunks`);
 
-  // Initialize database
-  const db = getDatabase();
+  // Initialize repositories
   const sessionRepo = new SessionRepository(db);
   const messageRepo = new MessageRepository(db);
+  const failureRepo = new EmbeddingFailureRepository(db);
+  const stateRepo = new ChunkIndexStateRepository(db);
 
   const allSessions = sessionRepo.findAll();
   console.log(`Total sessions in SQLite: ${formatNumber(allSessions.length)}`);
 
-  // Check for existing checkpoint
-  const checkpoint = ChunkIndexer.getProgress();
-  if (checkpoint && !options.fresh) {
-    console.log(`\n📋 Checkpoint found: ${checkpoint.processedCount}/${checkpoint.totalSessions} sessions`);
-    console.log(`   Last updated: ${checkpoint.timestamp}`);
+  const pendingFailures = failureRepo.count(vectorStore.collectionName);
+  if (pendingFailures > 0 && !options.retryFailed) {
+    console.log(`Failed chunks in ledger: ${formatNumber(pendingFailures)} (retry with --retry-failed)`);
+  }
+
+  // Show stored index state
+  if (!options.fresh && !options.retryFailed) {
+    const indexState = stateRepo.getStats(vectorStore.collectionName);
+    console.log(`Sessions with index state: ${formatNumber(indexState.sessions)} (${formatNumber(indexState.chunks)} chunks)`);
   }
 
   // Create indexer
-  const indexer = new ChunkIndexer(sessionRepo, messageRepo, vectorStore);
+  const indexer = new ChunkIndexer(sessionRepo, messageRepo, vectorStore, failureRepo, stateRepo);
 
   try {
+    if (options.retryFailed) {
+      await runRetryFailed(indexer, pendingFailures, options);
+      return;
+    }
+
     console.log('\nIndexing sessions...\n');
 
     let lastProgress = '';
@@ -194,6 +312,7 @@ async function main(): Promise<void> {
       batchSize: options.batchSize,
       concurrency: options.concurrency,
       freshStart: options.fresh,
+      force: options.full,
       onProgress: (processed, total, currentSession) => {
         if (options.verbose) {
           console.log(`  Processed ${formatNumber(processed)} / ${formatNumber(total)} sessions`);
@@ -220,8 +339,19 @@ async function main(): Promise<void> {
     console.log('\n--- Indexing Summary ---');
     console.log(`Total sessions: ${formatNumber(result.totalSessions)}`);
     console.log(`Processed: ${formatNumber(result.processedSessions)}`);
+    console.log(`Unchanged: ${formatNumber(result.unchangedSessions)}`);
     console.log(`Skipped: ${formatNumber(result.skippedSessions)} (no messages or empty chunks)`);
+    console.log(`Removed: ${formatNumber(result.removedSessions)} (deleted from SQLite)`);
     console.log(`Total chunks created: ${formatNumber(result.totalChunks)}`);
+    if (result.failedChunks > 0) {
+      console.log(`Failed chunks: ${formatNumber(result.failedChunks)} (not stored; retry with --retry-failed)`);
+    }
+    if (options.useCache && result.cacheHits + result.cacheMisses > 0) {
+      console.log(
+        `Embedding cache: ${formatNumber(result.cacheHits)} hits, ${formatNumber(result.cacheMisses)} misses ` +
+        `(${(result.cacheHitRate * 100).toFixed(1)}% hit rate)`
+      );
+    }
     console.log(`Errors: ${formatNumber(result.errors)}`);
     console.log(`Duration: ${formatDuration(result.duration)}`);
 
@@ -2,20 +2,34 @@
 /**
  * Vector Indexing Script
  *
- * Index conversation messages into ChromaDB for semantic search.
- * Usage: npm run index-vectors [-- --batch-size 100] [-- --verbose]
+ * Index conversation messages into the vector store (ChromaDB or embedded SQLite)
+ * for semantic search.
+ * Usage: npm run index-vectors [-- --batch-size 100] [-- --backend sqlite] [-- --verbose]
+ *        npm run index-vectors -- --retry-failed   # Re-embed messages that failed to embed
  */
 
 import { getDatabase, closeDatabase } from '../database/index.js';
-import { MessageRepository } from '../repositories/index.js';
-import { EmbeddingService, VectorStore, VectorIndexer } from '../services/index.js';
+import { MessageRepository, EmbeddingCacheRepository, EmbeddingFailureRepository } from '../repositories/index.js';
+import {
+  EmbeddingService,
+  VectorIndexer,
+  createEmbeddingProvider,
+  createVectorStore,
+  embeddingConfigFromEnv,
+  parseEmbeddingProvider,
+  parseVectorBackend,
+} from '../services/index.js';
+import type { EmbeddingProviderConfig, VectorBackendType } from '../services/index.js';
 
 interface CliOptions {
   batchSize: number;
   verbose: boolean;
   sessionId?: string;
+  useCache: boolean;
+  retryFailed: boolean;
+  backend: VectorBackendType;
   chromaHost: string;
-  ollamaHost: string;
+  embedding: EmbeddingProviderConfig;
 }
 
 function parseArgs(): CliOptions {
@@ -23,8 +37,11 @@ function parseArgs(): CliOptions {
   const options: CliOptions = {
     batchSize: 100,
     verbose: false,
+    useCache: true,
+    retryFailed: false,
+    backend: parseVectorBackend(process.env.VECTOR_BACKEND),
     chromaHost: 'http://localhost:8000',
-    ollamaHost: 'http://localhost:11434',
+    embedding: embeddingConfigFromEnv(),
   };
 
   for (let i = 0; i < args.length; i++) {
@@ -34,10 +51,20 @@ function parseArgs(): CliOptions {
       options.batchSize = parseInt(args[++i], 10);
     } else if (arg === '--session' && args[i + 1]) {
       options.sessionId = args[++i];
+    } else if (arg === '--backend' && args[i + 1]) {
+      options.backend = parseVectorBackend(args[++i]);
     } else if (arg === '--chroma-host' && args[i + 1]) {
       options.chromaHost = args[++i];
-    } else if (arg === '--ollama-host' && args[i + 1]) {
-      options.ollamaHost = args[++i];
+    } else if (arg === '--provider' && args[i + 1]) {
+      options.embedding.provider = parseEmbeddingProvider(args[++i]);
+    } else if (arg === '--model' && args[i + 1]) {
+      options.embedding.model = args[++i];
+    } else if ((arg === '--embedding-url' || arg === '--ollama-host') && args[i + 1]) {
+      options.embedding.baseUrl = args[++i];
+    } else if (arg === '--no-cache') {
+      options.useCache = false;
+    } else if (arg === '--retry-failed') {
+      options.retryFailed = true;
     } else if (arg === '--verbose' || arg === '-v') {
       options.verbose = true;
     } else if (arg === '--help' || arg === '-h') {
@@ -59,19 +86,27 @@ Usage:
 Options:
   --batch-size <n>        Process n messages at a time (default: 100)
   --session <id>          Only index a specific session
+  --backend <name>        Vector backend: chroma or sqlite (default: $VECTOR_BACKEND or chroma)
   --chroma-host <url>     ChromaDB URL (default: http://localhost:8000)
-  --ollama-host <url>     Ollama URL (default: http://localhost:11434)
+  --provider <name>       Embedding provider: ollama, openai or hashing (default: $EMBEDDING_PROVIDER or ollama)
+  --model <name>          Embedding model (default: provider default or $EMBEDDING_MODEL)
+  --embedding-url <url>   Embedding server URL (alias: --ollama-host)
+  --no-cache              Don't read or write the embedding cache
+  --retry-failed          Only re-embed messages recorded in the failure ledger
   --verbose, -v           Show detailed progress
   --help, -h              Show this help message
 
 Prerequisites:
   1. ChromaDB must be running: docker run -p 8000:8000 chromadb/chroma
+     (not needed with --backend sqlite, which stores vectors in conversations.db)
   2. Ollama must be running with nomic-embed-text: ollama pull nomic-embed-text
+     (not needed with --provider hashing; --provider openai uses a /v1/embeddings server)
 
 Examples:
   npm run index-vectors                    # Index all messages
   npm run index-vectors -- --verbose       # With detailed progress
   npm run index-vectors -- --session abc   # Index specific session
+  npm run index-vectors -- --retry-failed  # Retry messages that failed to embed
 `);
 }
 
@@ -87,6 +122,33 @@ function formatNumber(n: number): string {
   return n.toLocaleString();
 }
 
+/**
+ * Re-embed only the messages recorded in the failure ledger.
+ */
+async function runRetryFailed(indexer: VectorIndexer, pending: number, options: CliOptions): Promise<void> {
+  if (pending === 0) {
+    console.log('\nNo failed messages to retry.');
+    return;
+  }
+
+  console.log(`\nRetrying ${formatNumber(pending)} failed documents...\n`);
+
+  const result = await indexer.retryFailed({
+    onProgress: (processed, total, currentSession) => {
+      if (options.verbose) {
+        console.log(`  Retried ${formatNumber(processed)} / ${formatNumber(total)} sessions (${currentSession})`);
+      }
+    },
+  });
+
+  console.log('\n--- Retry Summary ---');
+  console.log(`Attempted: ${formatNumber(result.attempted)} documents`);
+  console.log(`Recovered: ${formatNumber(result.recovered)}`);
+  console.log(`Still failing: ${formatNumber(result.stillFailing)}`);
+  console.log(`Stale (message no longer exists): ${formatNumber(result.stale)}`);
+  console.log(`Duration: ${formatDuration(result.duration)}`);
+}
+
 async function main(): Promise<void> {
   const options = parseArgs();
 
@@ -96,39 +158,62 @@ async function main(): Promise<void> {
   // Initialize services
   console.log('Initializing services...');
 
-  const embeddingService = new EmbeddingService(options.ollamaHost);
-  const vectorStore = new VectorStore(
-    embeddingService,
-    'conversation_messages',
-    options.chromaHost
+  const db = getDatabase();
+  const embeddingService = new EmbeddingService(
+    createEmbeddingProvider(options.embedding),
+    {},
+    options.useCache ? new EmbeddingCacheRepository(db) : undefined
   );
+  const vectorStore = createVectorStore({
+    backend: options.backend,
+    embeddingService,
+    collectionName: 'conversation_messages',
+    chromaHost: options.chromaHost,
+    db,
+  });
 
   // Health checks
   console.log('\nHealth checks:');
 
-  const ollamaHealth = await embeddingService.healthCheck();
-  if (!ollamaHealth.available) {
-    console.error(`  Ollama: FAILED - ${ollamaHealth.error}`);
-    console.error('\nPlease ensure Ollama is running: ollama serve');
+  const embeddingHealth = await embeddingService.healthCheck();
+  const embeddingLabel = embeddingService.endpoint
+    ? `${embeddingService.providerName}, ${embeddingService.endpoint}`
+    : embeddingService.providerName;
+  if (!embeddingHealth.available) {
+    console.error(`  Embeddings: FAILED - ${embeddingHealth.error}`);
+    if (embeddingService.providerName === 'ollama') {
+      console.error('\nPlease ensure Ollama is running: ollama serve');
+    }
     process.exit(1);
   }
-  console.log(`  Ollama: OK (${options.ollamaHost})`);
+  console.log(`  Embeddings: OK (${embeddingLabel})`);
 
-  if (!ollamaHealth.model_loaded) {
-    console.error(`  Model: FAILED - ${ollamaHealth.error}`);
-    console.error('\nPlease pull the model: ollama pull nomic-embed-text');
+  if (!embeddingHealth.model_loaded) {
+    console.error(`  Model: FAILED - ${embeddingHealth.error}`);
+    if (embeddingService.providerName === 'ollama') {
+      console.error(`\nPlease pull the model: ollama pull ${embeddingService.model}`);
+    }
     process.exit(1);
   }
-  console.log('  Model: nomic-embed-text loaded');
-
-  const chromaHealth = await vectorStore.healthCheck();
-  if (!chromaHealth.available) {
-    console.error(`  ChromaDB: FAILED - ${chromaHealth.error}`);
-    console.error('\nPlease ensure ChromaDB is running:');
-    console.error('  docker run -p 8000:8000 chromadb/chroma');
-    process.exit(1);
+  const dimensions = await embeddingService.getDimensions();
+  console.log(`  Model: ${embeddingService.model} loaded (${dimensions} dimensions)`);
+
+  const storeHealth = await vectorStore.healthCheck();
+  if (options.backend === 'sqlite') {
+    if (!storeHealth.available) {
+      console.error(`  SQLite vector store: FAILED - ${storeHealth.error}`);
+      process.exit(1);
+    }
+    console.log(`  SQLite vector store: OK (${db.getPath()})`);
+  } else {
+    if (!storeHealth.available) {
+      console.error(`  ChromaDB: FAILED - ${storeHealth.error}`);
+      console.error('\nPlease ensure ChromaDB is running:');
+      console.error('  docker run -p 8000:8000 chromadb/chroma');
+      process.exit(1);
+    }
+    console.log(`  ChromaDB: OK (${options.chromaHost})`);
   }
-  console.log(`  ChromaDB: OK (${options.chromaHost})`);
 
   // Initialize vector store
   await vectorStore.initialize();
@@ -138,17 +223,27 @@ async function main(): Promise<void> {
   const vectorStats = await vectorStore.getStats();
   console.log(`\nCurrent vector index: ${formatNumber(vectorStats.count)} documents`);
 
-  // Initialize database
-  const db = getDatabase();
+  // Initialize repositories
   const messageRepo = new MessageRepository(db);
+  const failureRepo = new EmbeddingFailureRepository(db);
 
   const totalMessages = messageRepo.count();
   console.log(`Total messages in SQLite: ${formatNumber(totalMessages)}`);
 
+  const pendingFailures = failureRepo.count(vectorStore.collectionName);
+  if (pendingFailures > 0 && !options.retryFailed) {
+    console.log(`Failed documents in ledger: ${formatNumber(pendingFailures)} (retry with --retry-failed)`);
+  }
+
   // Create indexer
-  const indexer = new VectorIndexer(messageRepo, vectorStore);
+  const indexer = new VectorIndexer(messageRepo, vectorStore, failureRepo);
 
   try {
+    if (options.retryFailed) {
+      await runRetryFailed(indexer, pendingFailures, options);
+      return;
+    }
+
     console.log('\nIndexing messages...\n');
 
     let lastProgress = '';
@@ -181,7 +276,13 @@ async function main(): Promise<void> {
     console.log(`Indexed: ${formatNumber(result.indexed)}`);
     console.log(`Skipped: ${formatNumber(result.skipped)} (too short, wrong role, or already indexed)`);
     console.log(`Chunks created: ${formatNumber(result.chunks)}`);
-    console.log(`Errors: ${formatNumber(result.errors)}`);
+    if (options.useCache && result.cacheHits + result.cacheMisses > 0) {
+      console.log(
+        `Embedding cache: ${formatNumber(result.cacheHits)} hits, ${formatNumber(result.cacheMisses)} misses ` +
+        `(${(result.cacheHitRate * 100).toFixed(1)}% hit rate)`
+      );
+    }
+    console.log(`Errors: ${formatNumber(result.errors)}${result.errors > 0 ? ' (retry with --retry-failed)' : ''}`);
     console.log(`Duration: ${formatDuration(result.duration)}`);
 
     // Final stats
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Reconcile script
+ *
+ * Check sessions against their source JSONL files: relink files that moved
+ * (found by session id in the source directories) and flag sessions whose
+ * file is gone as source_missing. Sessions are never deleted.
+ * Usage: npm run reconcile [-- --source <path>] [-- --dry-run] [-- --verbose]
+ */
+
+import * as path from 'path';
+import * as os from 'os';
+import { getDatabase, closeDatabase, MigrationRunner } from '../database/index.js';
+import { SessionRepository, ImportFileStateRepository } from '../repositories/index.js';
+import { ReconcileService } from '../services/index.js';
+
+// Default source directories (same as import)
+const DEFAULT_SOURCE_DIRS = [
+  path.join(os.homedir(), '.claude/projects'),
+  path.join(os.homedir(), 'backups/conversation-search-old/claude-conversations'),
+];
+
+interface CliOptions {
+  sourceDirs: string[];
+  dryRun: boolean;
+  verbose: boolean;
+}
+
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {
+    sourceDirs: [...DEFAULT_SOURCE_DIRS],
+    dryRun: false,
+    verbose: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--source' && args[i + 1]) {
+      options.sourceDirs = [args[++i]];
+    } else if (arg === '--add-source' && args[i + 1]) {
+      options.sourceDirs.push(args[++i]);
+    } else if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--verbose' || arg === '-v') {
+      options.verbose = true;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function printHelp(): void {
+  console.log(`
+Conversation Search v2 - Reconcile Tool
+
+Usage:
+  npm run reconcile [options]
+
+Options:
+  --source <path>       Replace default source directories with specified path
+  --add-source <path>   Add an additional source directory
+  --dry-run             Report the changes without applying them
+  --verbose, -v         List every changed session
+  --help, -h            Show this help message
+
+Sessions whose source file is gone are flagged source_missing and kept;
+moved files are found by session id in the source directories.
+
+Default source directories:
+  - ~/.claude/projects
+  - ~/backups/conversation-search-old/claude-conversations
+
+Examples:
+  npm run reconcile -- --dry-run          # See what would change
+  npm run reconcile -- --source ~/moved   # Relink files moved to ~/moved
+`);
+}
+
+function printChanges<T>(label: string, changes: T[], format: (change: T) => string, verbose: boolean): void {
+  console.log(`${label}: ${changes.length.toLocaleString()}`);
+  if (!verbose) return;
+  for (const change of changes) {
+    console.log(`  ${format(change)}`);
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log('Conversation Search v2 - Reconcile Tool');
+  console.log('=======================================\n');
+
+  const db = getDatabase();
+
+  try {
+    // Ensure migrations are applied
+    const migrationRunner = new MigrationRunner(db);
+    if (migrationRunner.getStatus().pending_count > 0) {
+      console.log('Applying pending migrations...');
+      migrationRunner.migrate();
+      console.log('Migrations applied.\n');
+    }
+
+    const reconcileService = new ReconcileService(
+      db,
+      new SessionRepository(db),
+      new ImportFileStateRepository(db)
+    );
+
+    const result = await reconcileService.reconcile({
+      sourceDirs: options.sourceDirs,
+      dryRun: options.dryRun,
+    });
+
+    for (const dir of result.missing_source_dirs) {
+      console.log(`Warning: source directory not found: ${dir}`);
+    }
+    if (result.missing_source_dirs.length > 0) {
+      console.log('');
+    }
+
+    console.log(`--- Reconcile Summary${result.dry_run ? ' (dry run, nothing changed)' : ''} ---`);
+    console.log(`Sessions checked: ${result.checked.toLocaleString()}`);
+    console.log(`Files scanned: ${result.scanned_files.toLocaleString()}`);
+    printChanges('Relinked (moved)', result.relinked,
+      c => `${c.session_id}: ${c.old_path} -> ${c.new_path}`, options.verbose);
+    printChanges('Newly missing', result.missing,
+      c => `${c.session_id}: ${c.file_path}`, options.verbose);
+    printChanges('Restored', result.restored,
+      c => `${c.session_id}: ${c.file_path}`, options.verbose);
+    console.log(`Still missing: ${result.still_missing.toLocaleString()}`);
+    console.log(`Duration: ${result.duration}ms`);
+
+    if (result.missing.length > 0 || result.still_missing > 0) {
+      console.log('\nSessions with missing sources keep their history and stay searchable.');
+    }
+  } finally {
+    closeDatabase();
+  }
+}
+
+main().catch((error) => {
+  console.error('Reconcile failed:', error);
+  process.exit(1);
+});
@@ -0,0 +1,244 @@
+#!/usr/bin/env node
+/**
+ * Watch script
+ *
+ * Long-running import: watches the source directories and imports new lines
+ * of JSONL files shortly after Claude Code writes them, so active sessions
+ * become searchable without waiting for the next scheduled import.
+ * Runs alongside the MCP server and scheduled imports; they share the
+ * database through SQLite's WAL mode.
+ *
+ * Usage: npm run watch [-- --source <path>] [-- --index-chunks] [-- --debounce <ms>] [-- --verbose]
+ */
+
+import * as path from 'path';
+import * as os from 'os';
+import { getDatabase, closeDatabase, MigrationRunner } from '../database/index.js';
+import type { DatabaseConnection } from '../database/index.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  ProjectRepository,
+  EmbeddingFailureRepository,
+  ChunkIndexStateRepository,
+  EmbeddingCacheRepository,
+  ToolCallRepository,
+  SessionFileRepository,
+  SessionLinkRepository,
+  ImportFileStateRepository,
+  ImportRunRepository,
+} from '../repositories/index.js';
+import {
+  ImportService,
+  ImportWatcher,
+  ChunkIndexer,
+  EmbeddingService,
+  createEmbeddingProvider,
+  createVectorStore,
+  embeddingConfigFromEnv,
+  parseVectorBackend,
+} from '../services/index.js';
+import type { ImportResult } from '../services/index.js';
+
+// Default source directories
+const DEFAULT_SOURCE_DIRS = [
+  path.join(os.homedir(), '.claude/projects'),
+];
+
+interface CliOptions {
+  sourceDirs: string[];
+  indexChunks: boolean;
+  debounceMs: number;
+  maxWaitMs: number;
+  rescanIntervalMs: number;
+  verbose: boolean;
+}
+
+function parseArgs(): CliOptions {
+  const args = process.argv.slice(2);
+  const options: CliOptions = {
+    sourceDirs: [...DEFAULT_SOURCE_DIRS],
+    indexChunks: false,
+    debounceMs: 2000,
+    maxWaitMs: 15000,
+    rescanIntervalMs: 300000,
+    verbose: false,
+  };
+
+  for (let i = 0; i < args.length; i++) {
+    const arg = args[i];
+
+    if (arg === '--source' && args[i + 1]) {
+      options.sourceDirs = [args[++i]];
+    } else if (arg === '--add-source' && args[i + 1]) {
+      options.sourceDirs.push(args[++i]);
+    } else if (arg === '--index-chunks') {
+      options.indexChunks = true;
+    } else if (arg === '--debounce' && args[i + 1]) {
+      options.debounceMs = parseInt(args[++i], 10);
+    } else if (arg === '--max-wait' && args[i + 1]) {
+      options.maxWaitMs = parseInt(args[++i], 10);
+    } else if (arg === '--rescan' && args[i + 1]) {
+      options.rescanIntervalMs = parseInt(args[++i], 10) * 1000;
+    } else if (arg === '--verbose' || arg === '-v') {
+      options.verbose = true;
+    } else if (arg === '--help' || arg === '-h') {
+      printHelp();
+      process.exit(0);
+    }
+  }
+
+  return options;
+}
+
+function printHelp(): void {
+  console.log(`
+Conversation Search v2 - Watch Mode
+
+Usage:
+  npm run watch [options]
+
+Options:
+  --source <path>       Replace the default source directory with specified path
+  --add-source <path>   Add an additional source directory
+  --index-chunks        Embed changed sessions into the vector store after each import
+                        (uses VECTOR_BACKEND, CHROMA_HOST and EMBEDDING_* settings)
+  --debounce <ms>       Quiet period before a changed file is imported (default: 2000)
+  --max-wait <ms>       Longest a file that keeps changing waits (default: 15000)
+  --rescan <seconds>    Full rescan interval, 0 to disable (default: 300)
+  --verbose, -v         Log every import
+  --help, -h            Show this help message
+
+Default source directories:
+  - ~/.claude/projects
+
+Examples:
+  npm run watch                         # Watch ~/.claude/projects
+  npm run watch -- --index-chunks       # Also keep the vector index current
+`);
+}
+
+function timestamp(): string {
+  return new Date().toISOString().replace('T', ' ').slice(0, 19);
+}
+
+/**
+ * Create a chunk indexer for changed sessions, or null (with a warning) when
+ * the vector backend isn't available.
+ */
+async function createChunkIndexer(db: DatabaseConnection): Promise<ChunkIndexer | null> {
+  const embeddingService = new EmbeddingService(
+    createEmbeddingProvider(embeddingConfigFromEnv()),
+    {},
+    new EmbeddingCacheRepository(db)
+  );
+  const vectorStore = createVectorStore({
+    backend: parseVectorBackend(process.env.VECTOR_BACKEND),
+    embeddingService,
+    collectionName: 'conversation_messages',
+    chromaHost: process.env.CHROMA_HOST || 'http://localhost:8000',
+    db,
+  });
+
+  const embeddingHealth = await embeddingService.healthCheck();
+  const storeHealth = await vectorStore.healthCheck();
+  if (!embeddingHealth.available || !embeddingHealth.model_loaded || !storeHealth.available) {
+    console.error(`Chunk indexing disabled: ${embeddingHealth.error ?? storeHealth.error}`);
+    console.error('Run "npm run index-chunks" once the vector backend is available.');
+    return null;
+  }
+
+  await vectorStore.initialize();
+
+  return new ChunkIndexer(
+    new SessionRepository(db),
+    new MessageRepository(db),
+    vectorStore,
+    new EmbeddingFailureRepository(db),
+    new ChunkIndexStateRepository(db)
+  );
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs();
+
+  console.log('Conversation Search v2 - Watch Mode');
+  console.log('===================================\n');
+
+  const db = getDatabase();
+
+  // Ensure migrations are applied
+  const migrationRunner = new MigrationRunner(db);
+  if (migrationRunner.getStatus().pending_count > 0) {
+    console.log('Applying pending migrations...');
+    migrationRunner.migrate();
+    console.log('Migrations applied.\n');
+  }
+
+  const importService = new ImportService(
+    new SessionRepository(db),
+    new MessageRepository(db),
+    new ProjectRepository(db),
+    new ToolCallRepository(db),
+    new SessionFileRepository(db),
+    new SessionLinkRepository(db),
+    new ImportFileStateRepository(db),
+    new ImportRunRepository(db),
+    db
+  );
+
+  const indexer = options.indexChunks ? await createChunkIndexer(db) : null;
+
+  const onImported = async (result: ImportResult): Promise<void> => {
+    const sessionIds = [...new Set(result.changedSessionIds)];
+    console.log(
+      `[${timestamp()}] Imported ${result.totalMessages} message(s) into ${sessionIds.length} session(s)` +
+      (options.verbose ? `: ${sessionIds.join(', ')}` : '')
+    );
+
+    if (indexer) {
+      const indexed = await indexer.indexAll({ sessionIds });
+      if (options.verbose || indexed.failedChunks > 0) {
+        console.log(
+          `[${timestamp()}] Embedded ${indexed.processedSessions} session(s) (${indexed.totalChunks} chunks)` +
+          (indexed.failedChunks > 0 ? `, ${indexed.failedChunks} failed` : '')
+        );
+      }
+    }
+  };
+
+  const watcher = new ImportWatcher(importService, {
+    sourceDirs: options.sourceDirs,
+    debounceMs: options.debounceMs,
+    maxWaitMs: options.maxWaitMs,
+    rescanIntervalMs: options.rescanIntervalMs,
+    onImported,
+    onError: (error, file) => {
+      console.error(`[${timestamp()}] ERROR${file ? ` ${file}` : ''}: ${error.message}`);
+    },
+  });
+
+  console.log('Watching:');
+  for (const dir of options.sourceDirs) {
+    console.log(`  - ${dir}`);
+  }
+  console.log('\nCatching up on changes since the last import...');
+
+  await watcher.start();
+  console.log(`[${timestamp()}] Watching for changes (Ctrl+C to stop)`);
+
+  const shutdown = async (): Promise<void> => {
+    console.log('\nStopping...');
+    await watcher.stop();
+    closeDatabase();
+    process.exit(0);
+  };
+  process.on('SIGINT', () => void shutdown());
+  process.on('SIGTERM', () => void shutdown());
+}
+
+main().catch((error) => {
+  console.error('Watch failed:', error);
+  closeDatabase();
+  process.exit(1);
+});
@@ -0,0 +1,150 @@
+/**
+ * Chunk Context Service
+ *
+ * Expands a semantic search hit into the surrounding conversation.
+ * Features:
+ * - Walks the previous_chunk/next_chunk adjacency links N steps each way
+ * - Resolves each chunk's message_uuids back to the stored user/assistant turns
+ * - Returns turns in conversation order, without duplicates
+ */
+
+import type { MessageRepository } from '../repositories/index.js';
+import { chunkMessageUuids, type VectorSearchResult } from './VectorStore.js';
+import type { VectorStoreBackend } from './VectorStoreBackend.js';
+
+/** Upper bound on steps walked in each direction */
+export const MAX_CONTEXT_STEPS = 10;
+
+export interface ChunkContextTurn {
+  uuid: string;
+  role: string;
+  content: string;
+  timestamp: string;
+  chunk_id: string;                 // Chunk the turn was indexed in
+}
+
+export interface ChunkContextChunk {
+  chunk_id: string;
+  offset: number;                   // Steps from the requested chunk (negative = before)
+  sequence_number?: number;
+  topic?: string;
+  timestamp?: string;
+  content?: string;                 // Chunk text, only when its messages are no longer in SQLite
+}
+
+export interface ChunkContext {
+  chunk_id: string;
+  session_id: string;
+  steps: number;
+  chunks: ChunkContextChunk[];
+  turns: ChunkContextTurn[];
+  has_more_before: boolean;         // Walk stopped at the step limit, not the session start
+  has_more_after: boolean;
+}
+
+export class ChunkContextService {
+  constructor(
+    private messageRepo: MessageRepository,
+    private vectorStore: VectorStoreBackend
+  ) {}
+
+  /**
+   * Get a chunk with up to `steps` adjacent chunks on each side.
+   * Returns null when the chunk is not in the vector store.
+   */
+  async getContext(chunkId: string, steps: number = 1): Promise<ChunkContext | null> {
+    const limit = Math.max(0, Math.min(Math.floor(steps), MAX_CONTEXT_STEPS));
+    const start = await this.vectorStore.getChunkWithContext(chunkId);
+    if (!start.chunk) return null;
+
+    const seen = new Set([start.chunk.id]);
+    const before = await this.walk(start.previous, 'previous', limit, seen);
+    const after = await this.walk(start.next, 'next', limit, seen);
+
+    const ordered = [
+      ...before.chunks.reverse().map((chunk, i, all) => ({ chunk, offset: i - all.length })),
+      { chunk: start.chunk, offset: 0 },
+      ...after.chunks.map((chunk, i) => ({ chunk, offset: i + 1 })),
+    ];
+
+    const chunks: ChunkContextChunk[] = [];
+    const turns: ChunkContextTurn[] = [];
+    const seenTurns = new Set<string>();
+
+    for (const { chunk, offset } of ordered) {
+      const meta = chunk.metadata as Record<string, unknown>;
+      const entry: ChunkContextChunk = {
+        chunk_id: chunk.id,
+        offset,
+        sequence_number: typeof meta.sequence_number === 'number' ? meta.sequence_number : undefined,
+        topic: typeof meta.topic_group === 'string' && meta.topic_group ? meta.topic_group : undefined,
+        timestamp: typeof meta.timestamp === 'string' ? meta.timestamp : undefined,
+      };
+
+      let resolved = 0;
+      for (const uuid of chunkMessageUuids(meta)) {
+        if (seenTurns.has(uuid)) continue;
+        const message = this.messageRepo.findByUuid(uuid);
+        if (!message) continue;
+
+        seenTurns.add(uuid);
+        resolved++;
+        if (message.role !== 'user' && message.role !== 'assistant') continue;
+
+        turns.push({
+          uuid: message.uuid,
+          role: message.role,
+          content: message.content,
+          timestamp: message.timestamp,
+          chunk_id: chunk.id,
+        });
+      }
+
+      if (resolved === 0) {
+        entry.content = chunk.content;
+      }
+      chunks.push(entry);
+    }
+
+    return {
+      chunk_id: start.chunk.id,
+      session_id: start.chunk.metadata.session_id,
+      steps: limit,
+      chunks,
+      turns,
+      has_more_before: before.hasMore,
+      has_more_after: after.hasMore,
+    };
+  }
+
+  /**
+   * Follow one adjacency link up to `limit` chunks, nearest first.
+   */
+  private async walk(
+    first: VectorSearchResult | null,
+    direction: 'previous' | 'next',
+    limit: number,
+    seen: Set<string>
+  ): Promise<{ chunks: VectorSearchResult[]; hasMore: boolean }> {
+    const chunks: VectorSearchResult[] = [];
+    let current = first;
+
+    while (current && !seen.has(current.id)) {
+      if (chunks.length === limit) {
+        return { chunks, hasMore: true };
+      }
+
+      seen.add(current.id);
+      chunks.push(current);
+
+      const linked = (current.metadata as Record<string, unknown>)[`${direction}_chunk`];
+      if (chunks.length === limit || !linked) {
+        return { chunks, hasMore: Boolean(linked) };
+      }
+
+      current = (await this.vectorStore.getChunkWithContext(current.id))[direction];
+    }
+
+    return { chunks, hasMore: false };
+  }
+}
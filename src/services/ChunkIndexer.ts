@@ -1,46 +1,72 @@
 /**
  * Chunk Indexer Service
  *
- * Indexes conversations into ChromaDB using semantic chunking.
+ * Indexes conversations into the vector store using semantic chunking.
  * Features:
  * - Message pairing (Q&A kept together)
  * - Topic detection and grouping
- * - Checkpoint system for resumable indexing
+ * - Incremental indexing: per-session state in SQLite, so only new or changed
+ *   sessions are re-embedded and vectors of deleted sessions are removed
  * - Session-based processing for better organization
+ * - Failure ledger: chunks that can't be embedded are recorded and retried later
  */
 
-import fs from 'fs';
-import type { MessageRepository, SessionRepository } from '../repositories/index.js';
-import type { VectorStore, ChunkDocument } from './VectorStore.js';
-import { ChunkManager, type ConversationChunk } from './ChunkManager.js';
+import crypto from 'crypto';
+import type {
+  ChunkIndexStateRepository,
+  EmbeddingFailureRepository,
+  MessageRepository,
+  SessionRepository,
+} from '../repositories/index.js';
+import type { ChunkIndexState, Session } from '../types/models.js';
+import type { ChunkDocument } from './VectorStore.js';
+import type { UpsertResult, VectorStoreBackend } from './VectorStoreBackend.js';
+import type { EmbeddingSignature } from './EmbeddingProvider.js';
+import { ChunkManager, CHUNKER_VERSION, type ConversationChunk } from './ChunkManager.js';
 
 export interface ChunkIndexingOptions {
-  /** Number of sessions to process per batch */
+  /** Number of sessions between progress reports */
   batchSize?: number;
   /** Concurrency for embedding requests */
   concurrency?: number;
   /** Progress callback */
   onProgress?: (processed: number, total: number, currentSession?: string) => void;
-  /** Checkpoint file path (for resumable indexing) */
-  checkpointPath?: string;
-  /** Start fresh (ignore checkpoint) */
+  /** Only consider these sessions (e.g. the ones changed by an import) */
+  sessionIds?: string[];
+  /** Re-embed every session, ignoring stored state */
+  force?: boolean;
+  /** Forget all stored state (the caller deletes the collection) */
   freshStart?: boolean;
 }
 
 export interface ChunkIndexingResult {
   totalSessions: number;
-  processedSessions: number;
-  skippedSessions: number;
+  processedSessions: number;        // Re-chunked and re-embedded
+  unchangedSessions: number;        // Up to date; nothing embedded
+  skippedSessions: number;          // No messages or empty chunks
+  removedSessions: number;          // Deleted from SQLite; vectors removed
   totalChunks: number;
+  failedChunks: number;             // Chunks left out after embedding retries (see ledger)
+  cacheHits: number;                // Chunk embeddings served from the embedding cache
+  cacheMisses: number;              // Chunk embeddings requested from the provider
+  cacheHitRate: number;             // cacheHits / (cacheHits + cacheMisses), 0 when nothing embedded
   errors: number;
   duration: number;
 }
 
-interface Checkpoint {
-  lastProcessedSessionId: string | null;
-  processedCount: number;
-  totalSessions: number;
-  timestamp: string;
+export interface RetryFailedOptions {
+  /** Concurrency for embedding requests */
+  concurrency?: number;
+  /** Progress callback */
+  onProgress?: (processed: number, total: number, currentSession?: string) => void;
+}
+
+export interface RetryFailedResult {
+  attempted: number;                // Ledger entries retried
+  recovered: number;                // Embedded and upserted this time
+  stillFailing: number;             // Failed again (attempts incremented)
+  stale: number;                    // Chunk/session no longer exists; dropped from ledger
+  duration: number;
 }
 
 export class ChunkIndexer {
@@ -49,122 +75,121 @@ export class ChunkIndexer {
   constructor(
     private sessionRepo: SessionRepository,
     private messageRepo: MessageRepository,
-    private vectorStore: VectorStore
+    private vectorStore: VectorStoreBackend,
+    private failureRepo?: EmbeddingFailureRepository,
+    private stateRepo?: ChunkIndexStateRepository
   ) {
     this.chunkManager = new ChunkManager();
   }
 
   /**
-   * Index all sessions into ChromaDB using semantic chunking.
+   * Index new and changed sessions into the vector store.
+   * Sessions whose message fingerprint, chunker version and embedding model
+   * match the stored state are skipped without loading their messages.
    */
   async indexAll(options: ChunkIndexingOptions = {}): Promise<ChunkIndexingResult> {
     const {
       batchSize = 10,
       concurrency = 10,
       onProgress,
-      checkpointPath = '/tmp/chunk-indexer-checkpoint.json',
+      sessionIds,
+      force = false,
       freshStart = false,
     } = options;
 
     const startTime = Date.now();
+    const collection = this.vectorStore.collectionName;
     const result: ChunkIndexingResult = {
       totalSessions: 0,
       processedSessions: 0,
+      unchangedSessions: 0,
       skippedSessions: 0,
+      removedSessions: 0,
       totalChunks: 0,
+      failedChunks: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      cacheHitRate: 0,
       errors: 0,
       duration: 0,
     };
 
-    // Get all session IDs
-    const allSessions = this.sessionRepo.findAll();
-    result.totalSessions = allSessions.length;
+    if (freshStart) {
+      this.stateRepo?.clear(collection);
+    }
 
-    // Load checkpoint if exists and not fresh start
-    let checkpoint: Checkpoint | null = null;
-    let startIndex = 0;
+    const embeddingModel = formatSignature(await this.vectorStore.getEmbeddingSignature());
+    const states = this.stateRepo?.findAll(collection) ?? new Map<string, ChunkIndexState>();
+    const fingerprints = this.messageRepo.getSessionFingerprints();
+    const allSessions = this.sessionRepo.findAll();
 
-    if (!freshStart && fs.existsSync(checkpointPath)) {
+    // Remove vectors of sessions that no longer exist in SQLite
+    const existing = new Set(allSessions.map(s => s.id));
+    for (const sessionId of states.keys()) {
+      if (existing.has(sessionId)) continue;
       try {
-        checkpoint = JSON.parse(fs.readFileSync(checkpointPath, 'utf-8'));
-        if (checkpoint?.lastProcessedSessionId) {
-          const idx = allSessions.findIndex(s => s.id === checkpoint!.lastProcessedSessionId);
-          if (idx >= 0) {
-            startIndex = idx + 1;
-            result.processedSessions = checkpoint.processedCount;
-            console.log(`Resuming from checkpoint: ${startIndex}/${allSessions.length} sessions`);
-          }
-        }
-      } catch {
-        console.log('Could not load checkpoint, starting fresh');
+        await this.removeSession(sessionId);
+        result.removedSessions++;
+      } catch (error) {
+        console.error(`Error removing vectors for session ${sessionId}:`, error);
+        result.errors++;
       }
     }
 
-    // Process sessions in batches (upsert per-session to avoid huge payloads)
-    for (let i = startIndex; i < allSessions.length; i += batchSize) {
-      const batch = allSessions.slice(i, i + batchSize);
-
-      for (const session of batch) {
+    const requested = sessionIds ? new Set(sessionIds) : null;
+    const sessions = requested ? allSessions.filter(s => requested.has(s.id)) : allSessions;
+    result.totalSessions = sessions.length;
+
+    for (let i = 0; i < sessions.length; i++) {
+      const session = sessions[i];
+      const state = states.get(session.id) ?? null;
+      const fingerprint = fingerprints.get(session.id);
+
+      if (
+        !force &&
+        state &&
+        state.message_count === (fingerprint?.message_count ?? 0) &&
+        state.last_message_id === (fingerprint?.last_message_id ?? null) &&
+        this.isCurrent(state, embeddingModel)
+      ) {
+        result.unchangedSessions++;
+      } else {
         try {
-          // Get messages for this session
-          const messages = this.messageRepo.findBySession(session.id);
-
-          if (messages.length === 0) {
-            result.skippedSessions++;
-            continue;
-          }
-
-          // Create chunks using ChunkManager
-          const chunks = this.chunkManager.processSession(session, messages);
+          const outcome = await this.indexChangedSession(session, state, embeddingModel, concurrency, force);
 
-          if (chunks.length === 0) {
+          if (outcome.status === 'unchanged') {
+            result.unchangedSessions++;
+          } else if (outcome.status === 'empty') {
             result.skippedSessions++;
-            continue;
+          } else if (outcome.status === 'error') {
+            result.errors += outcome.chunks;
+          } else {
+            result.processedSessions++;
+            result.totalChunks += outcome.upsert.upserted;
+            result.failedChunks += outcome.upsert.failed.length;
+            result.cacheHits += outcome.upsert.cacheHits;
+            result.cacheMisses += outcome.upsert.cacheMisses;
           }
-
-          // Convert to ChunkDocuments and upsert immediately (per-session)
-          const sessionChunks = chunks.map(c => this.chunkToDocument(c));
-
-          try {
-            await this.vectorStore.upsertChunks(sessionChunks, concurrency);
-          } catch (error) {
-            console.error(`Error upserting session ${session.id}:`, error);
-            result.errors += sessionChunks.length;
-            continue;
-          }
-
-          result.processedSessions++;
-          result.totalChunks += chunks.length;
         } catch (error) {
           console.error(`Error processing session ${session.id}:`, error);
           result.errors++;
         }
       }
 
-      // Save checkpoint
-      const lastSession = batch[batch.length - 1];
-      this.saveCheckpoint(checkpointPath, {
-        lastProcessedSessionId: lastSession.id,
-        processedCount: result.processedSessions,
-        totalSessions: result.totalSessions,
-        timestamp: new Date().toISOString(),
-      });
-
       // Report progress
-      onProgress?.(i + batch.length, allSessions.length, lastSession?.id);
-    }
-
-    // Clean up checkpoint on successful completion
-    if (fs.existsSync(checkpointPath)) {
-      fs.unlinkSync(checkpointPath);
+      if ((i + 1) % batchSize === 0 || i === sessions.length - 1) {
+        onProgress?.(i + 1, sessions.length, session.id);
+      }
     }
 
+    const embedded = result.cacheHits + result.cacheMisses;
+    result.cacheHitRate = embedded > 0 ? result.cacheHits / embedded : 0;
     result.duration = Date.now() - startTime;
     return result;
   }
 
   /**
-   * Index a single session.
+   * Index a single session, replacing its existing vectors.
    */
   async indexSession(sessionId: string, concurrency: number = 10): Promise<number> {
     const session = this.sessionRepo.findById(sessionId);
@@ -172,30 +197,114 @@ export class ChunkIndexer {
       throw new Error(`Session not found: ${sessionId}`);
     }
 
-    const messages = this.messageRepo.findBySession(sessionId);
-    if (messages.length === 0) {
-      return 0;
-    }
+    const embeddingModel = formatSignature(await this.vectorStore.getEmbeddingSignature());
+    const state = this.stateRepo?.find(this.vectorStore.collectionName, sessionId) ?? null;
+    const outcome = await this.indexChangedSession(session, state, embeddingModel, concurrency, true);
 
-    const chunks = this.chunkManager.processSession(session, messages);
-    if (chunks.length === 0) {
-      return 0;
+    if (outcome.status === 'error') {
+      throw outcome.error;
     }
-
-    const documents = chunks.map(c => this.chunkToDocument(c));
-    await this.vectorStore.upsertChunks(documents, concurrency);
-
-    return chunks.length;
+    return outcome.status === 'indexed' ? outcome.upsert.upserted : 0;
   }
 
   /**
    * Reindex a session (delete existing and re-add).
    */
   async reindexSession(sessionId: string, concurrency: number = 10): Promise<number> {
-    await this.vectorStore.deleteBySession(sessionId);
+    await this.removeSession(sessionId);
     return this.indexSession(sessionId, concurrency);
   }
 
+  /**
+   * Re-embed only the chunks recorded in the failure ledger.
+   * Chunks are rebuilt from SQLite, so entries whose session or chunk
+   * no longer exists are dropped as stale.
+   */
+  async retryFailed(options: RetryFailedOptions = {}): Promise<RetryFailedResult> {
+    if (!this.failureRepo) {
+      throw new Error('retryFailed requires an EmbeddingFailureRepository');
+    }
+
+    const { concurrency = 10, onProgress } = options;
+    const collection = this.vectorStore.collectionName;
+    const startTime = Date.now();
+    const result: RetryFailedResult = {
+      attempted: 0,
+      recovered: 0,
+      stillFailing: 0,
+      stale: 0,
+      duration: 0,
+    };
+
+    // Group ledger entries by session
+    const bySession = new Map<string, Set<string>>();
+    for (const entry of this.failureRepo.findAll(collection)) {
+      if (!bySession.has(entry.session_id)) {
+        bySession.set(entry.session_id, new Set());
+      }
+      bySession.get(entry.session_id)!.add(entry.chunk_id);
+    }
+
+    let processed = 0;
+    for (const [sessionId, chunkIds] of bySession) {
+      result.attempted += chunkIds.size;
+
+      const session = this.sessionRepo.findById(sessionId);
+      const documents = session
+        ? this.chunkManager
+            .processSession(session, this.messageRepo.findBySession(sessionId))
+            .filter(c => chunkIds.has(c.chunk_id))
+            .map(c => this.chunkToDocument(c))
+        : [];
+
+      // Ledger entries that no longer map to a chunk
+      const found = new Set(documents.map(d => d.id));
+      const stale = [...chunkIds].filter(id => !found.has(id));
+      result.stale += this.failureRepo.resolve(collection, stale);
+
+      if (documents.length > 0) {
+        try {
+          const upsert = await this.vectorStore.upsertChunks(documents, concurrency);
+          this.updateLedger(documents, upsert);
+          result.recovered += upsert.upserted;
+          result.stillFailing += upsert.failed.length;
+        } catch (error) {
+          console.error(`Error upserting session ${sessionId}:`, error);
+          result.stillFailing += documents.length;
+        }
+      }
+
+      onProgress?.(++processed, bySession.size, sessionId);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Record failed chunks in the ledger and clear chunks that now succeeded.
+   */
+  private updateLedger(documents: ChunkDocument[], upsert: UpsertResult): void {
+    if (!this.failureRepo) return;
+
+    const collection = this.vectorStore.collectionName;
+    const failedIds = new Set(upsert.failed.map(f => f.id));
+
+    this.failureRepo.record(
+      collection,
+      upsert.failed.map(f => ({
+        chunk_id: f.id,
+        session_id: f.session_id,
+        error: f.error,
+        attempts: f.attempts,
+      }))
+    );
+    this.failureRepo.resolve(
+      collection,
+      documents.map(d => d.id).filter(id => !failedIds.has(id))
+    );
+  }
+
   /**
    * Convert ConversationChunk to ChunkDocument for VectorStore.
    */
@@ -208,6 +317,7 @@ export class ChunkIndexer {
         sequence_number: chunk.sequence_number,
         chunk_type: chunk.chunk_type,
         timestamp: chunk.timestamp,
+        timestamp_epoch: Date.parse(chunk.timestamp) || 0,
         project_path: chunk.project_path || '',
         message_count: chunk.message_count,
         previous_chunk: chunk.previous_chunk || '',
@@ -215,32 +325,113 @@ export class ChunkIndexer {
         topic_group: chunk.topic_group || '',
         token_count: chunk.token_count,
         processing_date: chunk.processing_date,
+        message_uuids: chunk.message_uuids.join(','),
       },
     };
   }
 
   /**
-   * Save checkpoint to file.
+   * Re-chunk a session and, if its chunks changed, replace its vectors.
+   * Old vectors are deleted first so chunks that disappeared don't linger.
    */
-  private saveCheckpoint(filePath: string, checkpoint: Checkpoint): void {
+  private async indexChangedSession(
+    session: Session,
+    state: ChunkIndexState | null,
+    embeddingModel: string,
+    concurrency: number,
+    force: boolean
+  ): Promise<
+    | { status: 'indexed'; upsert: UpsertResult }
+    | { status: 'unchanged' }
+    | { status: 'empty' }
+    | { status: 'error'; chunks: number; error: unknown }
+  > {
+    const collection = this.vectorStore.collectionName;
+    const messages = this.messageRepo.findBySession(session.id);
+    const chunks = messages.length > 0 ? this.chunkManager.processSession(session, messages) : [];
+    const documents = chunks.map(c => this.chunkToDocument(c));
+    const contentHash = hashDocuments(documents);
+
+    const recordState = (chunkCount: number) => {
+      this.stateRepo?.upsert({
+        collection,
+        session_id: session.id,
+        message_count: messages.length,
+        last_message_id: messages.reduce<number | null>((max, m) => (max === null || m.id > max ? m.id : max), null),
+        content_hash: contentHash,
+        chunker_version: CHUNKER_VERSION,
+        embedding_model: embeddingModel,
+        chunk_count: chunkCount,
+      });
+    };
+
+    if (documents.length === 0) {
+      if (!state || state.chunk_count > 0) {
+        await this.vectorStore.deleteBySession(session.id);
+        this.failureRepo?.resolveSession(collection, session.id);
+      }
+      recordState(0);
+      return { status: 'empty' };
+    }
+
+    // New messages that didn't change any chunk (e.g. system messages)
+    if (!force && state && state.content_hash === contentHash && this.isCurrent(state, embeddingModel)) {
+      recordState(state.chunk_count);
+      return { status: 'unchanged' };
+    }
+
+    await this.vectorStore.deleteBySession(session.id);
+    this.failureRepo?.resolveSession(collection, session.id);
+
+    let upsert: UpsertResult;
     try {
-      fs.writeFileSync(filePath, JSON.stringify(checkpoint, null, 2));
+      upsert = await this.vectorStore.upsertChunks(documents, concurrency);
     } catch (error) {
-      console.error('Failed to save checkpoint:', error);
+      console.error(`Error upserting session ${session.id}:`, error);
+      this.stateRepo?.delete(collection, session.id);
+      return { status: 'error', chunks: documents.length, error };
     }
+
+    this.updateLedger(documents, upsert);
+    recordState(upsert.upserted);
+    return { status: 'indexed', upsert };
   }
 
   /**
-   * Get indexing progress from checkpoint.
+   * Whether stored state was produced by the current chunker and embedding model.
    */
-  static getProgress(checkpointPath: string = '/tmp/chunk-indexer-checkpoint.json'): Checkpoint | null {
-    if (!fs.existsSync(checkpointPath)) {
-      return null;
-    }
-    try {
-      return JSON.parse(fs.readFileSync(checkpointPath, 'utf-8'));
-    } catch {
-      return null;
-    }
+  private isCurrent(state: ChunkIndexState, embeddingModel: string): boolean {
+    return state.chunker_version === CHUNKER_VERSION && state.embedding_model === embeddingModel;
+  }
+
+  /**
+   * Delete a session's vectors, state and ledger entries.
+   */
+  private async removeSession(sessionId: string): Promise<void> {
+    const collection = this.vectorStore.collectionName;
+    await this.vectorStore.deleteBySession(sessionId);
+    this.stateRepo?.delete(collection, sessionId);
+    this.failureRepo?.resolveSession(collection, sessionId);
+  }
+}
+
+/**
+ * Identify an embedding model in index state (provider/model/dimensions).
+ */
+function formatSignature(signature: EmbeddingSignature): string {
+  return `${signature.provider}/${signature.model}/${signature.dimensions}`;
+}
+
+/**
+ * Hash what gets embedded, so unchanged chunks are not re-embedded.
+ */
+function hashDocuments(documents: ChunkDocument[]): string {
+  const hash = crypto.createHash('sha256');
+  for (const document of documents) {
+    hash.update(document.id).update('\0');
+    hash.update(document.content).update('\0');
+    hash.update(document.metadata.project_path).update('\0');
+    hash.update(document.metadata.topic_group).update('\n');
   }
+  return hash.digest('hex');
 }
@@ -13,6 +13,13 @@
 
 import type { Message, Session } from '../types/models.js';
 
+/**
+ * Version of the chunking algorithm.
+ * Bump whenever chunk boundaries, IDs, content or metadata change, so
+ * incremental indexing re-chunks every session.
+ */
+export const CHUNKER_VERSION = 3;
+
 /**
  * A conversation chunk optimized for semantic search.
  */
@@ -27,6 +34,9 @@ export interface ConversationChunk {
   user_message?: string;
   assistant_message?: string;
 
+  // Source messages (for mapping hits back to messages)
+  message_uuids: string[];
+
   // Timestamps
   timestamp: string;
   processing_date: string;
@@ -107,6 +117,9 @@ export class ChunkManager {
           content,
           user_message: pair.userMessage?.content,
           assistant_message: pair.assistantMessage?.content,
+          message_uuids: [pair.userMessage?.uuid, pair.assistantMessage?.uuid].filter(
+            (uuid): uuid is string => Boolean(uuid)
+          ),
           timestamp: pair.timestamp,
           project_path: session.project_path || undefined,
           message_count:
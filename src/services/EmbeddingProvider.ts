@@ -0,0 +1,189 @@
+/**
+ * Embedding Providers
+ *
+ * Common interface for the models that turn text into vectors, plus the
+ * factory and environment configuration used to pick one.
+ *
+ * Providers (EMBEDDING_PROVIDER):
+ * - ollama   Ollama /api/embeddings (default, nomic-embed-text)
+ * - openai   OpenAI-compatible /v1/embeddings (llama.cpp, LM Studio, vLLM, ...)
+ * - hashing  Pure TypeScript feature hashing; no model or server needed
+ *
+ * Every vector collection records the signature (provider, model, dimensions)
+ * of the vectors it holds, so mixing embeddings from different models is refused.
+ */
+
+import { OllamaEmbeddingProvider } from './OllamaEmbeddingProvider.js';
+import { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider.js';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
+
+export type EmbeddingProviderType = 'ollama' | 'openai' | 'hashing';
+
+export const EMBEDDING_PROVIDERS: readonly EmbeddingProviderType[] = ['ollama', 'openai', 'hashing'];
+
+export interface EmbeddingHealth {
+  available: boolean;
+  model_loaded: boolean;
+  error?: string;
+}
+
+export interface EmbeddingProvider {
+  /** Provider type */
+  readonly name: EmbeddingProviderType;
+  /** Model identifier recorded in collection metadata */
+  readonly model: string;
+  /** Server URL, or null for in-process providers */
+  readonly endpoint: string | null;
+  /** Vector size when known up front; otherwise probed on first use */
+  readonly dimensions?: number;
+
+  embed(text: string): Promise<number[]>;
+  healthCheck(): Promise<EmbeddingHealth>;
+}
+
+export interface EmbeddingProviderConfig {
+  provider: EmbeddingProviderType;
+  model?: string;                     // Provider default when omitted
+  baseUrl?: string;                   // Provider default when omitted
+  apiKey?: string;                    // Bearer token (openai)
+  dimensions?: number;                // Override/declare vector size
+}
+
+/**
+ * Identifies the vectors stored in a collection.
+ */
+export interface EmbeddingSignature {
+  provider: string;
+  model: string;
+  dimensions: number;
+}
+
+/**
+ * Signature assumed for collections indexed before signatures were recorded.
+ */
+export const LEGACY_EMBEDDING_SIGNATURE: EmbeddingSignature = {
+  provider: 'ollama',
+  model: 'nomic-embed-text',
+  dimensions: 768,
+};
+
+/**
+ * Raised when a collection holds vectors from a different provider or model.
+ */
+export class EmbeddingMismatchError extends Error {
+  constructor(
+    collectionName: string,
+    public readonly stored: EmbeddingSignature,
+    public readonly current: EmbeddingSignature
+  ) {
+    super(
+      `Collection "${collectionName}" holds ${describeSignature(stored)} embeddings, ` +
+        `but the configured provider produces ${describeSignature(current)}. ` +
+        'Reindex with --fresh or configure the matching provider.'
+    );
+    this.name = 'EmbeddingMismatchError';
+  }
+}
+
+/**
+ * Parse a provider name, throwing on unknown values.
+ */
+export function parseEmbeddingProvider(value: string | undefined): EmbeddingProviderType {
+  const provider = (value ?? 'ollama').toLowerCase();
+  if (!(EMBEDDING_PROVIDERS as readonly string[]).includes(provider)) {
+    throw new Error(`Unknown embedding provider "${value}". Expected one of: ${EMBEDDING_PROVIDERS.join(', ')}`);
+  }
+  return provider as EmbeddingProviderType;
+}
+
+/**
+ * Read provider configuration from the environment.
+ *
+ * EMBEDDING_PROVIDER, EMBEDDING_MODEL, EMBEDDING_BASE_URL, EMBEDDING_API_KEY,
+ * EMBEDDING_DIMENSIONS. OLLAMA_HOST is still honoured for the ollama provider.
+ */
+export function embeddingConfigFromEnv(env: NodeJS.ProcessEnv = process.env): EmbeddingProviderConfig {
+  const provider = parseEmbeddingProvider(env.EMBEDDING_PROVIDER);
+
+  let dimensions: number | undefined;
+  if (env.EMBEDDING_DIMENSIONS) {
+    dimensions = parseInt(env.EMBEDDING_DIMENSIONS, 10);
+    if (!Number.isInteger(dimensions) || dimensions <= 0) {
+      throw new Error(`Invalid EMBEDDING_DIMENSIONS "${env.EMBEDDING_DIMENSIONS}". Expected a positive integer`);
+    }
+  }
+
+  return {
+    provider,
+    model: env.EMBEDDING_MODEL || undefined,
+    baseUrl: env.EMBEDDING_BASE_URL || (provider === 'ollama' ? env.OLLAMA_HOST : undefined) || undefined,
+    apiKey: env.EMBEDDING_API_KEY || undefined,
+    dimensions,
+  };
+}
+
+/**
+ * Create an embedding provider from configuration.
+ */
+export function createEmbeddingProvider(config: EmbeddingProviderConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config.baseUrl, config.model, config.apiKey, config.dimensions);
+    case 'hashing':
+      return new HashingEmbeddingProvider(config.dimensions);
+    case 'ollama':
+    default:
+      return new OllamaEmbeddingProvider(config.baseUrl, config.model, config.dimensions);
+  }
+}
+
+/**
+ * Encode a signature as flat collection metadata.
+ */
+export function signatureToMetadata(signature: EmbeddingSignature): Record<string, string | number> {
+  return {
+    embedding_provider: signature.provider,
+    embedding_model: signature.model,
+    embedding_dimensions: signature.dimensions,
+  };
+}
+
+/**
+ * Read a signature from collection metadata, or null if none was recorded.
+ */
+export function signatureFromMetadata(metadata: Record<string, unknown> | null | undefined): EmbeddingSignature | null {
+  if (
+    !metadata ||
+    typeof metadata.embedding_provider !== 'string' ||
+    typeof metadata.embedding_model !== 'string'
+  ) {
+    return null;
+  }
+
+  return {
+    provider: metadata.embedding_provider,
+    model: metadata.embedding_model,
+    dimensions: Number(metadata.embedding_dimensions),
+  };
+}
+
+/**
+ * Throw EmbeddingMismatchError unless both signatures describe the same vectors.
+ */
+export function assertSignatureMatches(
+  collectionName: string,
+  stored: EmbeddingSignature,
+  current: EmbeddingSignature
+): void {
+  if (
+    stored.provider !== current.provider ||
+    stored.model !== current.model ||
+    stored.dimensions !== current.dimensions
+  ) {
+    throw new EmbeddingMismatchError(collectionName, stored, current);
+  }
+}
+
+function describeSignature(signature: EmbeddingSignature): string {
+  return `${signature.provider}/${signature.model} (${signature.dimensions}d)`;
+}
@@ -0,0 +1,41 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { EmbeddingCacheRepository } from '../repositories/EmbeddingCacheRepository.js';
+import { EmbeddingService } from './EmbeddingService.js';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
+
+describe('EmbeddingService.embedBatch', () => {
+  let provider: HashingEmbeddingProvider;
+  let embedded: string[];
+  let service: EmbeddingService;
+
+  beforeEach(() => {
+    provider = new HashingEmbeddingProvider(16);
+    embedded = [];
+    const embed = provider.embed.bind(provider);
+    provider.embed = async (text: string) => {
+      embedded.push(text);
+      return embed(text);
+    };
+    service = new EmbeddingService(provider, {}, new EmbeddingCacheRepository(createTestDatabase()));
+  });
+
+  it('embeds a duplicate once and counts it as one miss', async () => {
+    const batch = await service.embedBatch(['alpha', 'beta', 'alpha']);
+
+    expect(embedded.sort()).toEqual(['alpha', 'beta']);
+    expect(batch.cacheMisses).toBe(2);
+    expect(batch.cacheHits).toBe(0);
+    expect(batch.results[2]?.embedding).toEqual(batch.results[0]?.embedding);
+  });
+
+  it('serves cached texts without calling the provider', async () => {
+    await service.embedBatch(['alpha']);
+    embedded = [];
+
+    const batch = await service.embedBatch(['alpha', 'alpha', 'gamma']);
+    expect(embedded).toEqual(['gamma']);
+    expect(batch.cacheHits).toBe(2);
+    expect(batch.cacheMisses).toBe(1);
+  });
+});
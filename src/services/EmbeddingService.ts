@@ -1,48 +1,96 @@
 /**
  * Embedding Service
  *
- * Generates embeddings using Nomic via Ollama.
- * Nomic-embed-text produces 768-dimensional embeddings.
+ * Generates embeddings through a pluggable EmbeddingProvider
+ * (Ollama, OpenAI-compatible server, or offline hashing).
+ * Vector dimensions come from the provider, or are probed on first use.
+ * Failed requests are retried with exponential backoff; texts that still
+ * fail are reported to the caller instead of being replaced by zero vectors.
+ * Batches consult an optional persistent cache keyed by provider, model and
+ * content hash, so unchanged text is never sent to the provider twice.
  */
 
+import { createHash } from 'crypto';
+import type { EmbeddingCacheRepository } from '../repositories/EmbeddingCacheRepository.js';
+import type { EmbeddingHealth, EmbeddingProvider, EmbeddingSignature } from './EmbeddingProvider.js';
+
 export interface EmbeddingResult {
   embedding: number[];
   token_count: number;
 }
 
+export interface EmbeddingFailure {
+  index: number;                      // Position in the input batch
+  error: string;
+  attempts: number;
+}
+
+export interface EmbeddingBatchResult {
+  results: Array<EmbeddingResult | null>;   // null where embedding failed
+  failures: EmbeddingFailure[];
+  cacheHits: number;                        // Texts served from the embedding cache
+  cacheMisses: number;                      // Distinct texts sent to the provider
+}
+
+export interface EmbeddingRetryOptions {
+  /** Attempts per text, including the first (default: 3) */
+  maxAttempts?: number;
+  /** Delay before the first retry; doubles on each retry (default: 500ms) */
+  baseDelayMs?: number;
+}
+
 export class EmbeddingService {
-  private baseUrl: string;
-  private model: string;
+  private dimensions: number | undefined;
+  private maxAttempts: number;
+  private baseDelayMs: number;
 
   constructor(
-    baseUrl: string = 'http://localhost:11434',
-    model: string = 'nomic-embed-text'
+    private provider: EmbeddingProvider,
+    retry: EmbeddingRetryOptions = {},
+    private cache?: EmbeddingCacheRepository
   ) {
-    this.baseUrl = baseUrl;
-    this.model = model;
+    this.dimensions = provider.dimensions;
+    this.maxAttempts = Math.max(1, retry.maxAttempts ?? 3);
+    this.baseDelayMs = retry.baseDelayMs ?? 500;
+  }
+
+  /**
+   * Provider type (ollama, openai, hashing).
+   */
+  get providerName(): EmbeddingProvider['name'] {
+    return this.provider.name;
+  }
+
+  /**
+   * Model identifier.
+   */
+  get model(): string {
+    return this.provider.model;
+  }
+
+  /**
+   * Provider server URL, or null for in-process providers.
+   */
+  get endpoint(): string | null {
+    return this.provider.endpoint;
   }
 
   /**
    * Generate embedding for a single text.
    */
   async embed(text: string): Promise<EmbeddingResult> {
-    const response = await fetch(`${this.baseUrl}/api/embeddings`, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        model: this.model,
-        prompt: text,
-      }),
-    });
+    const embedding = await this.provider.embed(text);
 
-    if (!response.ok) {
-      throw new Error(`Embedding request failed: ${response.statusText}`);
+    if (this.dimensions === undefined) {
+      this.dimensions = embedding.length;
+    } else if (embedding.length !== this.dimensions) {
+      throw new Error(
+        `${this.provider.name}/${this.provider.model} returned ${embedding.length} dimensions, expected ${this.dimensions}`
+      );
     }
 
-    const data = await response.json() as { embedding: number[] };
-
     return {
-      embedding: data.embedding,
+      embedding,
       token_count: this.estimateTokens(text),
     };
   }
@@ -50,34 +98,106 @@ export class EmbeddingService {
   /**
    * Generate embeddings for multiple texts in batch.
    * Uses concurrent requests for better GPU utilization.
+   * Cached texts are served without calling the provider, and identical
+   * texts within the batch are only embedded once.
+   * Each text is retried with backoff; texts that still fail get a null
+   * result and an entry in `failures`.
    */
-  async embedBatch(texts: string[], concurrency: number = 50): Promise<EmbeddingResult[]> {
-    const results: EmbeddingResult[] = new Array(texts.length);
-    const queue = texts.map((text, index) => ({ text, index }));
+  async embedBatch(texts: string[], concurrency: number = 50): Promise<EmbeddingBatchResult> {
+    const results: Array<EmbeddingResult | null> = new Array(texts.length).fill(null);
+    const failures: EmbeddingFailure[] = [];
+    const hashes = texts.map(hashContent);
+    const cached = this.cache
+      ? this.cache.getMany(this.provider.name, this.provider.model, hashes, this.dimensions)
+      : new Map<string, number[]>();
+
+    // Group uncached texts by content so duplicates share one request
+    const pending = new Map<string, { text: string; indexes: number[] }>();
+    let cacheHits = 0;
+
+    texts.forEach((text, index) => {
+      const hash = hashes[index];
+      const embedding = cached.get(hash);
+      if (embedding) {
+        results[index] = { embedding, token_count: this.estimateTokens(text) };
+        cacheHits++;
+        return;
+      }
+
+      const entry = pending.get(hash);
+      if (entry) {
+        entry.indexes.push(index);
+      } else {
+        pending.set(hash, { text, indexes: [index] });
+      }
+    });
+
+    // A duplicate is embedded once, so it is one miss
+    const cacheMisses = pending.size;
+    const queue = [...pending.entries()];
+    const embedded: Array<{ hash: string; embedding: number[] }> = [];
     let cursor = 0;
 
     const worker = async () => {
       while (cursor < queue.length) {
         const idx = cursor++;
         if (idx >= queue.length) break;
-        const { text, index } = queue[idx];
-        try {
-          results[index] = await this.embed(text);
-        } catch (error) {
-          // On error, create a zero embedding to avoid breaking the batch
-          console.error(`Embedding failed for text ${index}:`, error);
-          results[index] = { embedding: new Array(768).fill(0), token_count: 0 };
+        const [hash, { text, indexes }] = queue[idx];
+
+        for (let attempt = 1; attempt <= this.maxAttempts; attempt++) {
+          try {
+            const result = await this.embed(text);
+            for (const index of indexes) {
+              results[index] = result;
+            }
+            embedded.push({ hash, embedding: result.embedding });
+            break;
+          } catch (error) {
+            if (attempt === this.maxAttempts) {
+              const message = error instanceof Error ? error.message : String(error);
+              console.error(`Embedding failed for text ${indexes[0]} after ${attempt} attempts: ${message}`);
+              for (const index of indexes) {
+                failures.push({ index, error: message, attempts: attempt });
+              }
+            } else {
+              await sleep(this.baseDelayMs * 2 ** (attempt - 1));
+            }
+          }
         }
       }
     };
 
     // Launch concurrent workers
-    const workers = Array(Math.min(concurrency, texts.length))
+    const workers = Array(Math.min(concurrency, queue.length))
       .fill(null)
       .map(() => worker());
 
     await Promise.all(workers);
-    return results;
+    this.cache?.putMany(this.provider.name, this.provider.model, embedded);
+    failures.sort((a, b) => a.index - b.index);
+    return { results, failures, cacheHits, cacheMisses };
+  }
+
+  /**
+   * Vector size produced by the provider.
+   * Embeds a short probe text when the provider doesn't declare it.
+   */
+  async getDimensions(): Promise<number> {
+    if (this.dimensions === undefined) {
+      await this.embed('dimension probe');
+    }
+    return this.dimensions!;
+  }
+
+  /**
+   * Signature recorded in collection metadata to prevent mixing vectors.
+   */
+  async getSignature(): Promise<EmbeddingSignature> {
+    return {
+      provider: this.provider.name,
+      model: this.provider.model,
+      dimensions: await this.getDimensions(),
+    };
   }
 
   /**
@@ -89,31 +209,20 @@ export class EmbeddingService {
   }
 
   /**
-   * Check if Ollama is available and model is loaded.
+   * Check if the provider is reachable and its model is ready.
    */
-  async healthCheck(): Promise<{ available: boolean; model_loaded: boolean; error?: string }> {
-    try {
-      // Check if Ollama is running
-      const response = await fetch(`${this.baseUrl}/api/tags`);
-      if (!response.ok) {
-        return { available: false, model_loaded: false, error: 'Ollama not responding' };
-      }
-
-      const data = await response.json() as { models: Array<{ name: string }> };
-      const models = data.models || [];
-      const modelLoaded = models.some(m => m.name.includes(this.model));
-
-      return {
-        available: true,
-        model_loaded: modelLoaded,
-        error: modelLoaded ? undefined : `Model ${this.model} not loaded. Run: ollama pull ${this.model}`,
-      };
-    } catch (error) {
-      return {
-        available: false,
-        model_loaded: false,
-        error: `Cannot connect to Ollama at ${this.baseUrl}`,
-      };
-    }
+  async healthCheck(): Promise<EmbeddingHealth> {
+    return this.provider.healthCheck();
   }
 }
+
+/**
+ * Cache key for a text: SHA-256 of its content.
+ */
+function hashContent(text: string): string {
+  return createHash('sha256').update(text).digest('hex');
+}
+
+function sleep(ms: number): Promise<void> {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
@@ -0,0 +1,88 @@
+/**
+ * Hashing Embedding Provider
+ *
+ * Deterministic, offline embeddings computed in pure TypeScript.
+ * Features:
+ * - Feature hashing of word unigrams and bigrams into a fixed-size vector
+ * - Sublinear term frequency (1 + log tf) with stop words dropped
+ * - Signed hashing to cancel out collisions, L2-normalized output
+ *
+ * Quality is closer to keyword overlap than to a neural model, but it needs
+ * no server, no download and produces identical vectors on every machine.
+ */
+
+import type { EmbeddingHealth, EmbeddingProvider } from './EmbeddingProvider.js';
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'can', 'do', 'for', 'from',
+  'has', 'have', 'i', 'if', 'in', 'is', 'it', 'its', 'me', 'my', 'of', 'on', 'or',
+  'so', 'that', 'the', 'this', 'to', 'was', 'we', 'were', 'will', 'with', 'you', 'your',
+]);
+
+const BIGRAM_WEIGHT = 0.5;
+
+export class HashingEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'hashing' as const;
+  readonly model = 'hashing-v1';
+  readonly endpoint = null;
+  readonly dimensions: number;
+
+  constructor(dimensions: number = 512) {
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Generate an embedding for a single text.
+   */
+  async embed(text: string): Promise<number[]> {
+    const tokens = (text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) ?? [])
+      .filter(token => !STOP_WORDS.has(token));
+
+    const counts = new Map<string, number>();
+    const add = (feature: string, weight: number) => {
+      counts.set(feature, (counts.get(feature) ?? 0) + weight);
+    };
+
+    for (let i = 0; i < tokens.length; i++) {
+      add(tokens[i], 1);
+      if (i + 1 < tokens.length) {
+        add(`${tokens[i]} ${tokens[i + 1]}`, BIGRAM_WEIGHT);
+      }
+    }
+
+    const vector = new Array<number>(this.dimensions).fill(0);
+    for (const [feature, tf] of counts) {
+      const hash = fnv1a(feature);
+      const index = hash % this.dimensions;
+      const sign = (hash >>> 31) === 0 ? 1 : -1;
+      vector[index] += sign * (1 + Math.log(tf));
+    }
+
+    let norm = 0;
+    for (const value of vector) {
+      norm += value * value;
+    }
+    norm = Math.sqrt(norm);
+
+    return norm > 0 ? vector.map(value => value / norm) : vector;
+  }
+
+  /**
+   * Always available: nothing to connect to.
+   */
+  async healthCheck(): Promise<EmbeddingHealth> {
+    return { available: true, model_loaded: true };
+  }
+}
+
+/**
+ * 32-bit FNV-1a hash of a string (unsigned).
+ */
+function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
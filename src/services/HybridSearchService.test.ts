@@ -0,0 +1,33 @@
+import { describe, it, expect } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { MessageRepository, SessionRepository, TagRepository } from '../repositories/index.js';
+import { HybridSearchService } from './HybridSearchService.js';
+import type { VectorStoreBackend } from './VectorStoreBackend.js';
+
+describe('HybridSearchService', () => {
+  it('embeds only the positive terms and phrases of a structured query', async () => {
+    const db = createTestDatabase();
+    const sessionRepo = new SessionRepository(db);
+    const messageRepo = new MessageRepository(db);
+    sessionRepo.create({ id: 's1', file_path: '/tmp/s1.jsonl', started_at: '2025-10-01T09:00:00Z' });
+    messageRepo.createMany([
+      { uuid: 'm1', session_id: 's1', role: 'user', content: 'deploy race condition', timestamp: '2025-10-01T10:00:00Z' },
+    ]);
+
+    const embedded: string[] = [];
+    const vectorStore = {
+      search: async (query: string) => {
+        embedded.push(query);
+        return [];
+      },
+    } as unknown as VectorStoreBackend;
+
+    const service = new HybridSearchService(messageRepo, sessionRepo, new TagRepository(db), vectorStore);
+    const response = await service.search({
+      query: 'deploy OR ship "race condition" -docker after:2025-01-01 role:user',
+    });
+
+    expect(embedded).toEqual(['deploy ship race condition']);
+    expect(response.results.map(result => result.session.id)).toEqual(['s1']);
+  });
+});
@@ -0,0 +1,278 @@
+/**
+ * Hybrid Search Service
+ *
+ * Combines FTS5 keyword search with vector similarity search.
+ * Features:
+ * - Runs MessageRepository.search and the vector store search side by side
+ * - Applies project/tag/date filters inside the vector query, not after it
+ * - Maps chunk hits back to sessions and source messages
+ * - Fuses both rankings with reciprocal-rank fusion or a weighted score
+ * - Falls back to FTS-only when no vector store is available
+ */
+
+import type { MessageRepository, SessionRepository, TagRepository } from '../repositories/index.js';
+import type { Session, VectorSearchOptions } from '../types/models.js';
+import { chunkMessageUuids, type VectorSearchResult } from './VectorStore.js';
+import type { VectorStoreBackend } from './VectorStoreBackend.js';
+import { parseSearchQuery } from '../utils/index.js';
+import { VectorFilterResolver } from './VectorFilterResolver.js';
+
+export interface HybridSearchOptions extends VectorSearchOptions {
+  /** Fusion strategy (default: rrf) */
+  fusion?: 'rrf' | 'weighted';
+  /** RRF damping constant (default: 60) */
+  rrf_k?: number;
+  /** Minimum similarity for vector hits to be considered (default: 0.3) */
+  min_similarity?: number;
+}
+
+export interface HybridSearchResult {
+  session: Session;
+  score: number;                    // Fused score, higher is better
+  fts_rank: number | null;          // 1-based rank in FTS results, null if absent
+  semantic_rank: number | null;     // 1-based rank in vector results, null if absent
+  snippet: string | null;           // Best FTS snippet
+  match_count: number;              // FTS matches in session
+  semantic_match: {
+    chunk_id: string;
+    content: string;
+    similarity: number;
+    message_uuids: string[];
+    previous?: string;              // Adjacent chunk content (include_adjacent)
+    next?: string;
+  } | null;
+}
+
+export interface HybridSearchResponse {
+  mode: 'hybrid' | 'fts_only';
+  fusion: 'rrf' | 'weighted';
+  semantic_weight: number;
+  fts_candidates: number;
+  semantic_candidates: number;
+  warning?: string;
+  results: HybridSearchResult[];
+}
+
+interface Candidate {
+  sessionId: string;
+  ftsRank: number | null;
+  ftsScore: number;
+  semanticRank: number | null;
+  similarity: number;
+  snippet: string | null;
+  matchCount: number;
+  session: Session | null;
+  vectorHit: VectorSearchResult | null;
+}
+
+export class HybridSearchService {
+  private filterResolver: VectorFilterResolver;
+
+  constructor(
+    private messageRepo: MessageRepository,
+    private sessionRepo: SessionRepository,
+    tagRepo: TagRepository,
+    private vectorStore: VectorStoreBackend | null
+  ) {
+    this.filterResolver = new VectorFilterResolver(sessionRepo, tagRepo);
+  }
+
+  /**
+   * Search with both engines and fuse the rankings per session.
+   */
+  async search(options: HybridSearchOptions): Promise<HybridSearchResponse> {
+    const {
+      limit = 10,
+      fusion = 'rrf',
+      rrf_k = 60,
+      min_similarity = 0.3,
+      include_adjacent = false,
+    } = options;
+    const candidateCount = Math.max(limit * 3, 30);
+
+    let semanticWeight = Math.min(Math.max(options.semantic_weight ?? 0.5, 0), 1);
+    let warning: string | undefined;
+
+    // Keyword candidates (filters are applied in SQL)
+    const ftsPage = this.messageRepo.search({ ...options, limit: candidateCount, offset: 0 });
+
+    // Semantic candidates: embed only what to search for, not filters or excluded terms
+    const { text, filters } = parseSearchQuery(options.query);
+    let vectorHits: VectorSearchResult[] = [];
+    if (!this.vectorStore) {
+      warning = 'Vector store unavailable; results are FTS-only.';
+    } else if (!text.trim()) {
+      warning = 'Query has no terms to search for semantically; results are FTS-only.';
+    } else {
+      try {
+        const filter = this.filterResolver.resolve({
+          session_id: options.session_id,
+          project: options.project ?? filters.project,
+          tags: [...(options.tag ? [options.tag] : []), ...filters.tags],
+          date_from: options.date_from ?? filters.after,
+          date_to: options.date_to ?? filters.before,
+          branch: options.branch ?? filters.branch,
+          include_subagents: options.include_subagents,
+        });
+
+        vectorHits = await this.vectorStore.search(text, candidateCount, filter);
+        vectorHits = vectorHits.filter(hit => hit.similarity >= min_similarity);
+
+        // Apply the remaining filters (role, model) the same way as the FTS side
+        const allowed = this.messageRepo.filterSessions(
+          [...new Set(vectorHits.map(hit => hit.metadata.session_id))],
+          options
+        );
+        vectorHits = vectorHits.filter(hit => allowed.has(hit.metadata.session_id));
+      } catch (error) {
+        warning = `Vector search failed; results are FTS-only: ${error instanceof Error ? error.message : String(error)}`;
+      }
+    }
+
+    const semanticAvailable = this.vectorStore !== null && warning === undefined;
+    if (!semanticAvailable) {
+      semanticWeight = 0;
+    }
+
+    // Merge candidates per session
+    const candidates = new Map<string, Candidate>();
+
+    ftsPage.results.forEach((result, index) => {
+      candidates.set(result.session.id, {
+        sessionId: result.session.id,
+        ftsRank: index + 1,
+        ftsScore: result.relevance_score ?? 0,
+        semanticRank: null,
+        similarity: 0,
+        snippet: result.matching_content,
+        matchCount: result.match_count,
+        session: result.session,
+        vectorHit: null,
+      });
+    });
+
+    let semanticRank = 0;
+    for (const hit of vectorHits) {
+      const sessionId = hit.metadata.session_id;
+      const existing = candidates.get(sessionId);
+
+      // Keep only the best chunk per session
+      if (existing?.semanticRank !== null && existing?.semanticRank !== undefined) {
+        continue;
+      }
+
+      semanticRank++;
+      if (existing) {
+        existing.semanticRank = semanticRank;
+        existing.similarity = hit.similarity;
+        existing.vectorHit = hit;
+      } else {
+        candidates.set(sessionId, {
+          sessionId,
+          ftsRank: null,
+          ftsScore: 0,
+          semanticRank,
+          similarity: hit.similarity,
+          snippet: null,
+          matchCount: 0,
+          session: null,
+          vectorHit: hit,
+        });
+      }
+    }
+
+    const maxFtsScore = Math.max(0, ...ftsPage.results.map(r => r.relevance_score ?? 0));
+    const scored: Array<{ candidate: Candidate; score: number }> = [];
+
+    for (const candidate of candidates.values()) {
+      // Vector-only candidates: skip sessions that no longer exist in SQLite
+      if (!candidate.session) {
+        candidate.session = this.sessionRepo.findById(candidate.sessionId);
+        if (!candidate.session) continue;
+      }
+
+      scored.push({
+        candidate,
+        score: this.fuse(candidate, fusion, semanticWeight, rrf_k, maxFtsScore),
+      });
+    }
+
+    scored.sort((a, b) => b.score - a.score || a.candidate.sessionId.localeCompare(b.candidate.sessionId));
+
+    const results: HybridSearchResult[] = [];
+    for (const { candidate, score } of scored.slice(0, limit)) {
+      results.push({
+        session: candidate.session!,
+        score,
+        fts_rank: candidate.ftsRank,
+        semantic_rank: candidate.semanticRank,
+        snippet: candidate.snippet,
+        match_count: candidate.matchCount,
+        semantic_match: candidate.vectorHit
+          ? await this.toSemanticMatch(candidate.vectorHit, include_adjacent)
+          : null,
+      });
+    }
+
+    return {
+      mode: semanticAvailable ? 'hybrid' : 'fts_only',
+      fusion,
+      semantic_weight: semanticWeight,
+      fts_candidates: ftsPage.results.length,
+      semantic_candidates: vectorHits.length,
+      warning,
+      results,
+    };
+  }
+
+  /**
+   * Compute the fused score for a candidate.
+   *
+   * rrf:      (1 - w) / (k + fts_rank) + w / (k + semantic_rank)
+   * weighted: (1 - w) * normalized_bm25 + w * similarity
+   */
+  private fuse(
+    candidate: Candidate,
+    fusion: 'rrf' | 'weighted',
+    semanticWeight: number,
+    k: number,
+    maxFtsScore: number
+  ): number {
+    if (fusion === 'weighted') {
+      const ftsNormalized = maxFtsScore > 0 ? candidate.ftsScore / maxFtsScore : 0;
+      const similarity = Math.min(Math.max(candidate.similarity, 0), 1);
+      return (1 - semanticWeight) * ftsNormalized + semanticWeight * similarity;
+    }
+
+    const ftsPart = candidate.ftsRank !== null ? 1 / (k + candidate.ftsRank) : 0;
+    const semanticPart = candidate.semanticRank !== null ? 1 / (k + candidate.semanticRank) : 0;
+    return (1 - semanticWeight) * ftsPart + semanticWeight * semanticPart;
+  }
+
+  /**
+   * Describe a vector hit, resolving the messages it was built from.
+   * Handles both chunk documents (message_uuids) and legacy per-message documents.
+   */
+  private async toSemanticMatch(
+    hit: VectorSearchResult,
+    includeAdjacent: boolean
+  ): Promise<NonNullable<HybridSearchResult['semantic_match']>> {
+    const meta = hit.metadata as Record<string, unknown>;
+    const messageUuids = chunkMessageUuids(meta);
+
+    const match: NonNullable<HybridSearchResult['semantic_match']> = {
+      chunk_id: hit.id,
+      content: hit.content,
+      similarity: hit.similarity,
+      message_uuids: messageUuids.filter(uuid => this.messageRepo.exists(uuid)),
+    };
+
+    if (includeAdjacent && this.vectorStore && meta.previous_chunk !== undefined) {
+      const context = await this.vectorStore.getChunkWithContext(hit.id);
+      match.previous = context.previous?.content;
+      match.next = context.next?.content;
+    }
+
+    return match;
+  }
+}
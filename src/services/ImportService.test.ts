@@ -0,0 +1,275 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import ts from 'typescript';
+import { createTestDatabase } from '../__tests__/database.js';
+import type { DatabaseConnection } from '../database/index.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  ProjectRepository,
+  ToolCallRepository,
+  SessionFileRepository,
+  SessionLinkRepository,
+  ImportFileStateRepository,
+  ImportRunRepository,
+} from '../repositories/index.js';
+import { ImportService, findJsonlFiles } from './ImportService.js';
+import { ImportWorkerPool } from './ImportWorkerPool.js';
+
+/**
+ * A user message line of session s1, ending in a newline.
+ */
+function messageLine(n: number): string {
+  return JSON.stringify({
+    type: 'user',
+    uuid: `m${n}`,
+    parentUuid: n > 1 ? `m${n - 1}` : null,
+    sessionId: 's1',
+    timestamp: `2025-10-01T10:00:0${n}Z`,
+    message: { role: 'user', content: `message ${n}` },
+  }) + '\n';
+}
+
+describe('incremental import', () => {
+  let dir: string;
+  let file: string;
+  let messageRepo: MessageRepository;
+  let fileStateRepo: ImportFileStateRepository;
+  let service: ImportService;
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    messageRepo = new MessageRepository(db);
+    fileStateRepo = new ImportFileStateRepository(db);
+    service = new ImportService(
+      new SessionRepository(db),
+      messageRepo,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      fileStateRepo,
+      new ImportRunRepository(db)
+    );
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-test-'));
+    file = path.join(dir, 's1.jsonl');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const state = () => fileStateRepo.findByPath(file)!;
+
+  it('skips a file that has not changed', async () => {
+    fs.writeFileSync(file, messageLine(1) + messageLine(2));
+
+    expect(await service.importFile(file)).toBe(2);
+    expect(await service.importFile(file)).toBeNull();
+    expect(state().byte_offset).toBe(fs.statSync(file).size);
+    expect(state().line_count).toBe(2);
+  });
+
+  it('only parses the lines appended since the last import', async () => {
+    fs.writeFileSync(file, messageLine(1));
+    await service.importFile(file);
+
+    fs.appendFileSync(file, messageLine(2) + messageLine(3));
+    expect(await service.importFile(file)).toBe(2);
+    expect(messageRepo.count({ session_id: 's1' })).toBe(3);
+    expect(state().byte_offset).toBe(fs.statSync(file).size);
+    expect(state().line_count).toBe(3);
+  });
+
+  it('holds back a line that is still being written', async () => {
+    const partial = messageLine(2);
+    fs.writeFileSync(file, messageLine(1) + partial.slice(0, 20));
+
+    expect(await service.importFile(file)).toBe(1);
+    expect(state().byte_offset).toBe(Buffer.byteLength(messageLine(1)));
+    expect(state().line_count).toBe(1);
+
+    fs.appendFileSync(file, partial.slice(20));
+    expect(await service.importFile(file)).toBe(1);
+    expect(state().byte_offset).toBe(fs.statSync(file).size);
+  });
+
+  it('parses a file that shrank again from the start', async () => {
+    fs.writeFileSync(file, messageLine(1) + messageLine(2) + messageLine(3));
+    await service.importFile(file);
+
+    fs.writeFileSync(file, messageLine(1));
+    expect(await service.importFile(file)).toBe(0);
+    expect(state().byte_offset).toBe(fs.statSync(file).size);
+    expect(state().line_count).toBe(1);
+  });
+
+  it('moves past appended lines that have no session', async () => {
+    fs.writeFileSync(file, messageLine(1));
+    await service.importFile(file);
+
+    fs.appendFileSync(file, JSON.stringify({ type: 'summary', summary: 'Title' }) + '\n{"oops": \n');
+    const result = await service.importFiles([file]);
+
+    expect(result.lineErrors.map(error => error.line)).toEqual([3]);
+    expect(state().byte_offset).toBe(fs.statSync(file).size);
+    expect(state().line_count).toBe(3);
+
+    // The next message is parsed from there, without reporting line 3 again
+    fs.appendFileSync(file, messageLine(2));
+    const next = await service.importFiles([file]);
+    expect(next.lineErrors).toEqual([]);
+    expect(next.totalMessages).toBe(1);
+    expect(state().line_count).toBe(4);
+  });
+
+  it('records a malformed line once when the file is read again', async () => {
+    // No session yet, so every change re-reads the file from the start
+    const summary = JSON.stringify({ type: 'summary', summary: 'Title' }) + '\n';
+    fs.writeFileSync(file, summary + '{"oops": \n');
+
+    const first = await service.importFiles([file]);
+    expect(first.lineErrors.map(error => error.line)).toEqual([2]);
+    expect(first.imported).toBe(1);
+    expect(first.skipped).toBe(0);
+
+    fs.appendFileSync(file, summary);
+    const second = await service.importFiles([file]);
+    expect(second.lineErrors).toEqual([]);
+    expect(second.skipped).toBe(1);
+  });
+});
+
+describe('parallel import', () => {
+  let dir: string;
+  let workerDir: string;
+  const defaultWorkerUrl = ImportWorkerPool.workerUrl;
+
+  const line = (fields: Record<string, unknown>): string => JSON.stringify(fields) + '\n';
+
+  /**
+   * Compile the worker and the parser it runs into workerDir; workers run
+   * outside jest, so they need JavaScript.
+   */
+  function compileWorker(): void {
+    for (const name of ['ImportWorker', 'JsonlParser']) {
+      const source = fs.readFileSync(fileURLToPath(new URL(`./${name}.ts`, import.meta.url)), 'utf8');
+      const { outputText } = ts.transpileModule(source, {
+        compilerOptions: { module: ts.ModuleKind.ES2022, target: ts.ScriptTarget.ES2022 },
+      });
+      fs.writeFileSync(path.join(workerDir, `${name}.js`), outputText);
+    }
+    fs.writeFileSync(path.join(workerDir, 'package.json'), '{"type": "module"}');
+  }
+
+  function writeFixtures(): void {
+    const sessionLines = (sid: string, count: number): string => {
+      let lines = '';
+      for (let n = 1; n <= count; n++) {
+        const uuid = `${sid}-m${n}`;
+        const parentUuid = n > 1 ? `${sid}-m${n - 1}` : null;
+        const timestamp = `2025-10-01T10:00:${String(n).padStart(2, '0')}Z`;
+        lines += n % 2 === 1
+          ? line({ type: 'user', uuid, parentUuid, sessionId: sid, cwd: `/work/${sid}`, timestamp,
+            message: { role: 'user', content: `question ${n} of ${sid}` } })
+          : line({ type: 'assistant', uuid, parentUuid, sessionId: sid, cwd: `/work/${sid}`, timestamp,
+            message: { role: 'assistant', content: [
+              { type: 'text', text: `answer ${n} of ${sid}` },
+              { type: 'tool_use', id: `${uuid}-tool`, name: 'Read', input: { file_path: `/work/${sid}/file${n}.ts` } },
+            ] } });
+      }
+      return lines;
+    };
+
+    fs.mkdirSync(path.join(dir, 'a', 's2', 'subagents'), { recursive: true });
+    fs.mkdirSync(path.join(dir, 'b'));
+    fs.writeFileSync(path.join(dir, 'a', 's1.jsonl'), sessionLines('s1', 6) + '{"oops": \n');
+    fs.writeFileSync(path.join(dir, 'a', 's2.jsonl'), sessionLines('s2', 4));
+    fs.writeFileSync(path.join(dir, 'a', 's2', 'subagents', 'agent-x.jsonl'), line({
+      type: 'user', uuid: 's2-x1', parentUuid: null, sessionId: 's2', isSidechain: true, agentId: 'x',
+      timestamp: '2025-10-01T10:01:00Z', message: { role: 'user', content: 'sub task' },
+    }));
+    // Fails after its session row is written: the role can't be stored
+    fs.writeFileSync(path.join(dir, 'b', 's3.jsonl'), sessionLines('s3', 2) + line({
+      type: 'user', uuid: 's3-bad', parentUuid: 's3-m2', sessionId: 's3', timestamp: '2025-10-01T10:02:00Z',
+      message: { role: { name: 'user' }, content: 'unstorable' },
+    }));
+    fs.writeFileSync(path.join(dir, 'b', 's4.jsonl'), sessionLines('s4', 3));
+  }
+
+  async function importInto(db: DatabaseConnection, concurrency: number) {
+    const service = new ImportService(
+      new SessionRepository(db),
+      new MessageRepository(db),
+      new ProjectRepository(db),
+      new ToolCallRepository(db),
+      new SessionFileRepository(db),
+      new SessionLinkRepository(db),
+      new ImportFileStateRepository(db),
+      new ImportRunRepository(db),
+      db
+    );
+    const files = [...await findJsonlFiles(dir), path.join(dir, 'gone.jsonl')];
+    return service.importFiles(files, { concurrency });
+  }
+
+  /**
+   * Rows of the tables an import writes, without the times they were written.
+   */
+  function dump(db: DatabaseConnection): Record<string, unknown[]> {
+    const written = new Set(['created_at', 'updated_at', 'imported_at']);
+    const tables = ['sessions', 'messages', 'tool_calls', 'session_files', 'import_file_state'];
+    return Object.fromEntries(tables.map(table => [
+      table,
+      (db.prepare(`SELECT * FROM ${table} ORDER BY rowid`).all() as Array<Record<string, unknown>>)
+        .map(row => Object.fromEntries(Object.entries(row).filter(([column]) => !written.has(column)))),
+    ]));
+  }
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-test-'));
+    workerDir = fs.mkdtempSync(path.join(os.tmpdir(), 'import-worker-'));
+    compileWorker();
+    ImportWorkerPool.workerUrl = new URL(`file://${workerDir}/ImportWorker.js`);
+    writeFixtures();
+  });
+
+  afterEach(() => {
+    ImportWorkerPool.workerUrl = defaultWorkerUrl;
+    fs.rmSync(dir, { recursive: true, force: true });
+    fs.rmSync(workerDir, { recursive: true, force: true });
+  });
+
+  it('runs the worker module next to the pool', () => {
+    const worker = fileURLToPath(defaultWorkerUrl);
+    expect(path.dirname(worker)).toBe(path.dirname(fileURLToPath(import.meta.url)));
+    expect(fs.existsSync(worker.replace(/\.js$/, '.ts'))).toBe(true);
+  });
+
+  it('writes the same rows as a serial import', async () => {
+    const serialDb = createTestDatabase();
+    const parallelDb = createTestDatabase();
+
+    const serial = await importInto(serialDb, 1);
+    const parallel = await importInto(parallelDb, 2);
+
+    expect(parallel.imported).toBe(serial.imported);
+    expect(parallel.totalMessages).toBe(serial.totalMessages);
+    expect(parallel.lineErrors).toEqual(serial.lineErrors);
+    expect(parallel.errors.map(error => path.basename(error.file))).toEqual(['s3.jsonl', 'gone.jsonl']);
+    expect(serial.errors.map(error => path.basename(error.file))).toEqual(['s3.jsonl', 'gone.jsonl']);
+
+    const rows = dump(parallelDb);
+    expect(rows).toEqual(dump(serialDb));
+
+    // The failed file left nothing behind
+    expect(rows.sessions.map(session => (session as { id: string }).id).sort())
+      .toEqual(['s1', 's2', 's2:agent-x', 's4']);
+    expect(rows.tool_calls.length).toBeGreaterThan(0);
+    expect(rows.session_files.length).toBeGreaterThan(0);
+  });
+});
@@ -6,37 +6,133 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import { SessionRepository, MessageRepository, ProjectRepository } from '../repositories/index.js';
-import { JsonlParser } from './JsonlParser.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  ProjectRepository,
+  ToolCallRepository,
+  SessionFileRepository,
+  SessionLinkRepository,
+  ImportFileStateRepository,
+  ImportRunRepository,
+} from '../repositories/index.js';
+import type { DatabaseConnection } from '../database/index.js';
+import { JsonlParser, type ParsedSession } from './JsonlParser.js';
+import { ImportWorkerPool, type WorkerParseResult } from './ImportWorkerPool.js';
+
+/** Files written per transaction by parallel imports */
+const WRITE_BATCH_FILES = 50;
 
 export interface ImportOptions {
   /** Source directories containing JSONL files */
   sourceDirs: string[];
-  /** Skip files already imported (by session ID) */
+  /**
+   * Only import what's new: skip unchanged files and append the lines added
+   * to files since the last import. When false, every file is re-imported in
+   * full, refreshing metadata on existing messages.
+   */
   skipExisting?: boolean;
   /** Callback for progress updates */
   onProgress?: (current: number, total: number, sessionId: string) => void;
   /** Callback for errors */
   onError?: (file: string, error: Error) => void;
+  /** What started the import, recorded with the run (default: 'import') */
+  trigger?: string;
+  /** Keep runs that imported nothing and had no errors (default: true) */
+  recordEmptyRuns?: boolean;
+  /**
+   * Parse files in this many worker threads while the database is written
+   * from this thread, in file order (same result as a serial import).
+   * 1 parses on this thread (default: 1).
+   */
+  concurrency?: number;
 }
 
 export interface ImportResult {
   totalFiles: number;
-  imported: number;
-  skipped: number;
+  imported: number;                 // Files with new messages or new malformed lines
+  skipped: number;                  // Files unchanged, or with nothing new in them
   failed: number;
   totalMessages: number;
+  changedSessionIds: string[];      // Sessions created or given new messages (for incremental indexing)
   errors: Array<{ file: string; error: string }>;
+  lineErrors: Array<{ file: string; line: number; error: string }>;  // Malformed lines that were skipped
+  runId: number | null;             // import_runs id, if runs are recorded
   duration: number;
 }
 
+type FileOutcome = { sessionIds: string[]; imported: number } | null;
+
+/** A changed file and where to resume parsing it */
+interface FilePlan {
+  filePath: string;
+  size: number;
+  mtimeMs: number;
+  sessionId: string | null;         // Session recorded for the file by the last import
+  fromOffset: number;
+  fromLine: number;
+}
+
+/** How far a file was read: byte offset and line count after its last complete line */
+type FileEnd = WorkerParseResult['end'];
+
+/** Parents of the lines before a file's resume offset (see readEarlierParents) */
+type EarlierParents = Map<string, string | null> | null;
+
+/** A file handed to the worker pool, with everything read from disk for it */
+interface ParsedFile {
+  plan: FilePlan | null;
+  parse?: WorkerParseResult;
+  earlierParents?: EarlierParents;
+  error?: unknown;
+}
+
+/** A file handed to the worker pool */
+interface PendingFile {
+  file: string;
+  done: boolean;                    // parsed has settled
+  parsed: Promise<ParsedFile>;
+}
+
+/**
+ * Find all JSONL files in a directory (recursive).
+ */
+export async function findJsonlFiles(dir: string): Promise<string[]> {
+  const files: string[] = [];
+
+  if (!fs.existsSync(dir)) {
+    return files;
+  }
+
+  const entries = fs.readdirSync(dir, { withFileTypes: true });
+
+  for (const entry of entries) {
+    const fullPath = path.join(dir, entry.name);
+
+    if (entry.isDirectory()) {
+      const subFiles = await findJsonlFiles(fullPath);
+      files.push(...subFiles);
+    } else if (entry.isFile() && entry.name.endsWith('.jsonl')) {
+      files.push(fullPath);
+    }
+  }
+
+  return files;
+}
+
 export class ImportService {
   private parser: JsonlParser;
 
   constructor(
     private sessionRepo: SessionRepository,
     private messageRepo: MessageRepository,
-    private projectRepo?: ProjectRepository
+    private projectRepo?: ProjectRepository,
+    private toolCallRepo?: ToolCallRepository,
+    private sessionFileRepo?: SessionFileRepository,
+    private sessionLinkRepo?: SessionLinkRepository,
+    private fileStateRepo?: ImportFileStateRepository,
+    private importRunRepo?: ImportRunRepository,
+    private db?: DatabaseConnection   // Writes each file atomically, and parallel imports in batches
   ) {
     this.parser = new JsonlParser();
   }
@@ -45,77 +141,445 @@ export class ImportService {
    * Import all JSONL files from specified directories.
    */
   async importAll(options: ImportOptions): Promise<ImportResult> {
+    // Collect all JSONL files
+    const files: string[] = [];
+    for (const dir of options.sourceDirs) {
+      const dirFiles = await findJsonlFiles(dir);
+      files.push(...dirFiles);
+    }
+
+    return this.runImport(files, options, options.sourceDirs);
+  }
+
+  /**
+   * Import the given JSONL files, e.g. the files a watcher saw change.
+   */
+  async importFiles(files: string[], options: Omit<ImportOptions, 'sourceDirs'> = {}): Promise<ImportResult> {
+    return this.runImport(files, options, [...new Set(files.map(file => path.dirname(file)))]);
+  }
+
+  /**
+   * Import files as one run, recorded in the import history (with every
+   * failed file and line) when an ImportRunRepository is available.
+   */
+  private async runImport(
+    files: string[],
+    options: Omit<ImportOptions, 'sourceDirs'>,
+    sourceDirs: string[]
+  ): Promise<ImportResult> {
     const startTime = Date.now();
+    const skipExisting = options.skipExisting ?? true;
     const result: ImportResult = {
       totalFiles: 0,
       imported: 0,
       skipped: 0,
       failed: 0,
       totalMessages: 0,
+      changedSessionIds: [],
       errors: [],
+      lineErrors: [],
+      runId: null,
       duration: 0,
     };
 
-    // Collect all JSONL files
-    const files: string[] = [];
-    for (const dir of options.sourceDirs) {
-      const dirFiles = await this.findJsonlFiles(dir);
-      files.push(...dirFiles);
+    const runId = this.importRunRepo?.start({
+      trigger: options.trigger ?? 'import',
+      source_dirs: sourceDirs,
+      skip_existing: skipExisting,
+    });
+    result.runId = runId ?? null;
+    result.totalFiles = files.length;
+
+    const concurrency = options.concurrency ?? 1;
+
+    try {
+      if (concurrency > 1) {
+        await this.importEachFileInParallel(files, options, skipExisting, result, concurrency);
+      } else {
+        await this.importEachFile(files, options, skipExisting, result);
+      }
+    } catch (error) {
+      if (runId !== undefined) {
+        this.importRunRepo!.fail(runId, error instanceof Error ? error.message : String(error));
+      }
+      throw error;
     }
 
-    result.totalFiles = files.length;
+    result.duration = Date.now() - startTime;
+
+    if (runId !== undefined) {
+      const empty = result.imported === 0 && result.failed === 0 && result.lineErrors.length === 0;
+      if (empty && options.recordEmptyRuns === false) {
+        this.importRunRepo!.delete(runId);
+        result.runId = null;
+      } else {
+        this.importRunRepo!.finish(runId, {
+          files_found: result.totalFiles,
+          files_imported: result.imported,
+          files_skipped: result.skipped,
+          files_failed: result.failed,
+          messages_imported: result.totalMessages,
+          sessions_changed: new Set(result.changedSessionIds).size,
+          line_errors: result.lineErrors.length,
+          duration_ms: result.duration,
+        });
+      }
+    }
 
-    // Import each file
+    return result;
+  }
+
+  /**
+   * Import files one by one into result, recording failures with the run.
+   */
+  private async importEachFile(
+    files: string[],
+    options: Omit<ImportOptions, 'sourceDirs'>,
+    skipExisting: boolean,
+    result: ImportResult
+  ): Promise<void> {
     for (let i = 0; i < files.length; i++) {
       const file = files[i];
 
       try {
-        const imported = await this.importFile(file, options.skipExisting ?? true);
+        const lineErrors = result.lineErrors.length;
+        const outcome = await this.importSessionFile(file, skipExisting, this.lineErrorRecorder(result, file));
+        this.countOutcome(result, outcome, result.lineErrors.length - lineErrors);
+        options.onProgress?.(i + 1, files.length, path.basename(file, '.jsonl'));
+      } catch (error) {
+        this.countFailure(result, options, file, error);
+      }
+    }
+  }
+
+  /**
+   * Import files with parsing in worker threads. This thread is the only
+   * writer and writes the files in order, so the result is the same as
+   * importFile-ing them one by one; files already parsed when the writer
+   * gets to them are written in one transaction. Everything read from disk
+   * is read before the transaction starts.
+   */
+  private async importEachFileInParallel(
+    files: string[],
+    options: Omit<ImportOptions, 'sourceDirs'>,
+    skipExisting: boolean,
+    result: ImportResult,
+    concurrency: number
+  ): Promise<void> {
+    const pool = new ImportWorkerPool(concurrency);
+    // Parsed sessions wait in memory for the writer, so only parse a little ahead
+    const ahead: PendingFile[] = [];
+    let next = 0;
+    let written = 0;
+
+    const readAhead = (): void => {
+      while (next < files.length && ahead.length < concurrency * 2) {
+        ahead.push(this.parseInWorker(pool, files[next++], skipExisting));
+      }
+    };
+
+    const writeFile = (file: string, { plan, parse, earlierParents, error }: ParsedFile): void => {
+      written++;
+
+      const lineErrors = result.lineErrors.length;
+      const onLineError = this.lineErrorRecorder(result, file);
+      for (const lineError of parse?.lineErrors ?? []) {
+        onLineError(lineError.line, new Error(lineError.error));
+      }
+
+      try {
+        if (error !== undefined) throw error;
+        if (parse?.error !== undefined) throw new Error(parse.error);
+
+        // A savepoint per file: a file that fails rolls back alone, as in a serial import
+        const outcome = plan
+          ? this.writeAtomically(() => this.importParsedFile(plan, parse!.session, parse!.end, skipExisting, earlierParents ?? null))
+          : null;
+        this.countOutcome(result, outcome, result.lineErrors.length - lineErrors);
+        options.onProgress?.(written, files.length, path.basename(file, '.jsonl'));
+      } catch (fileError) {
+        this.countFailure(result, options, file, fileError);
+      }
+    };
+
+    try {
+      readAhead();
+      while (ahead.length > 0) {
+        const batch: Array<{ file: string; parsed: ParsedFile }> = [];
+        do {
+          const { file, parsed } = ahead.shift()!;
+          readAhead();
+          batch.push({ file, parsed: await parsed });
+        } while (ahead.length > 0 && ahead[0].done && batch.length < WRITE_BATCH_FILES);
 
-        if (imported === null) {
-          result.skipped++;
-        } else if (imported === 0) {
-          result.skipped++;
+        const writeBatch = (): void => batch.forEach(({ file, parsed }) => writeFile(file, parsed));
+        if (this.db) {
+          this.db.transaction(writeBatch);
         } else {
-          result.imported++;
-          result.totalMessages += imported;
+          writeBatch();
         }
+      }
+    } finally {
+      await pool.close();
+    }
+  }
 
-        options.onProgress?.(i + 1, files.length, path.basename(file, '.jsonl'));
+  /**
+   * Plan a file and start parsing it in the pool. Never rejects: failures
+   * are returned as error, to be counted when the file's turn comes.
+   */
+  private parseInWorker(pool: ImportWorkerPool, file: string, skipExisting: boolean): PendingFile {
+    const pending: PendingFile = { file, done: false, parsed: Promise.resolve({ plan: null }) };
+
+    pending.parsed = (async () => {
+      try {
+        const plan = this.planFile(file, skipExisting);
+        if (!plan) return { plan };
+
+        const parse = await pool.parse({ filePath: file, fromOffset: plan.fromOffset, fromLine: plan.fromLine });
+        const earlierParents = parse.session ? await this.readEarlierParents(file, parse.session) : null;
+        return { plan, parse, earlierParents };
       } catch (error) {
-        result.failed++;
-        const errorMsg = error instanceof Error ? error.message : String(error);
-        result.errors.push({ file, error: errorMsg });
-        options.onError?.(file, error instanceof Error ? error : new Error(errorMsg));
+        return { plan: null, error };
       }
+    })().then(parsed => {
+      pending.done = true;
+      return parsed;
+    });
+
+    return pending;
+  }
+
+  /**
+   * Count a file's outcome into result. A file that only had new malformed
+   * lines was still read, so it counts as imported rather than skipped.
+   */
+  private countOutcome(result: ImportResult, outcome: FileOutcome, lineErrors: number): void {
+    if (outcome !== null && outcome.imported > 0) {
+      result.imported++;
+      result.totalMessages += outcome.imported;
+      result.changedSessionIds.push(...outcome.sessionIds);
+    } else if (lineErrors > 0) {
+      result.imported++;
+    } else {
+      result.skipped++;
     }
+  }
 
-    result.duration = Date.now() - startTime;
-    return result;
+  /**
+   * Count a failed file into result and record it with the run.
+   */
+  private countFailure(
+    result: ImportResult,
+    options: Omit<ImportOptions, 'sourceDirs'>,
+    file: string,
+    error: unknown
+  ): void {
+    result.failed++;
+    const errorMsg = error instanceof Error ? error.message : String(error);
+    result.errors.push({ file, error: errorMsg });
+    if (result.runId !== null) {
+      this.importRunRepo?.recordError(result.runId, { file_path: file, error: errorMsg });
+    }
+    options.onError?.(file, error instanceof Error ? error : new Error(errorMsg));
+  }
+
+  /**
+   * Callback recording the malformed lines of a file into result and the run.
+   * A line an earlier run already recorded (e.g. read again by a full
+   * re-import) isn't recorded again.
+   */
+  private lineErrorRecorder(result: ImportResult, file: string): (line: number, error: Error) => void {
+    return (line, error) => {
+      if (this.importRunRepo?.hasLineError(file, line, error.message)) return;
+
+      result.lineErrors.push({ file, line, error: error.message });
+      if (result.runId !== null) {
+        this.importRunRepo?.recordError(result.runId, { file_path: file, line_number: line, error: error.message });
+      }
+    };
   }
 
   /**
    * Import a single JSONL file.
-   * Returns number of messages imported, 0 if skipped, null if failed.
+   * Returns number of messages imported, 0 if there were none new, null if
+   * the file is unchanged or has no session.
    *
    * If the session exists as a stub (is_stub=true), it will be updated
    * with the full import data while preserving tags and user metadata.
    */
   async importFile(filePath: string, skipExisting: boolean = true): Promise<number | null> {
-    // Parse the file
-    const session = await this.parser.parseFile(filePath);
+    const outcome = await this.importSessionFile(filePath, skipExisting);
+    return outcome === null ? null : outcome.imported;
+  }
+
+  /**
+   * Import a single JSONL file, also reporting which sessions changed.
+   * Sub-agent transcripts are imported as child sessions of the file's session.
+   *
+   * With skipExisting, files are imported incrementally: a file whose size
+   * and mtime match the recorded state is skipped, and a file that grew is
+   * parsed from the byte offset reached last time. Files that shrank are
+   * parsed again from the start.
+   */
+  private async importSessionFile(
+    filePath: string,
+    skipExisting: boolean,
+    onLineError?: (line: number, error: Error) => void
+  ): Promise<FileOutcome> {
+    const plan = this.planFile(filePath, skipExisting);
+    if (!plan) return null;
+
+    // Parse the file (or the lines appended since fromOffset)
+    const end: FileEnd = { offset: plan.fromOffset, line: plan.fromLine };
+    const session = await this.parser.parseFile(filePath, {
+      fromOffset: plan.fromOffset,
+      fromLine: plan.fromLine,
+      onLineError,
+      onEnd: (offset, line) => Object.assign(end, { offset, line }),
+    });
+    const earlierParents = session ? await this.readEarlierParents(filePath, session) : null;
+    return this.writeAtomically(() => this.importParsedFile(plan, session, end, skipExisting, earlierParents));
+  }
+
+  /**
+   * Plan the import of a file: null if it is unchanged since the last
+   * import, otherwise where to resume parsing it.
+   */
+  private planFile(filePath: string, skipExisting: boolean): FilePlan | null {
+    const stat = fs.statSync(filePath);
+    const mtimeMs = Math.floor(stat.mtimeMs);
+    const state = this.fileStateRepo?.findByPath(filePath) ?? null;
+
+    if (skipExisting && state && state.size === stat.size && state.mtime_ms === mtimeMs) {
+      return null;
+    }
+
+    const resume = skipExisting
+      && state?.session_id
+      && state.byte_offset <= stat.size
+      && this.sessionRepo.exists(state.session_id);
+
+    return {
+      filePath,
+      size: stat.size,
+      mtimeMs,
+      sessionId: state?.session_id ?? null,
+      fromOffset: resume ? state!.byte_offset : 0,
+      fromLine: resume ? state!.line_count : 0,
+    };
+  }
+
+  /**
+   * Run a file's writes in a transaction (a savepoint inside a batch), so a
+   * file that fails partway leaves nothing behind.
+   */
+  private writeAtomically<T>(write: () => T): T {
+    return this.db ? this.db.transaction(write) : write();
+  }
+
+  /**
+   * Write a parsed file (see importSessionFile) and record how far it was
+   * imported. Synchronous, so it can be batched in a transaction.
+   */
+  private importParsedFile(
+    plan: FilePlan,
+    session: ParsedSession | null,
+    end: FileEnd,
+    skipExisting: boolean,
+    earlierParents: EarlierParents
+  ): FileOutcome {
+    const filePath = plan.filePath;
+
     if (!session) {
+      // No session in the lines read (e.g. only a summary or malformed lines):
+      // nothing to import, but don't read the same lines again
+      this.fileStateRepo?.upsert({
+        file_path: filePath,
+        session_id: plan.sessionId ?? undefined,
+        size: plan.size,
+        mtime_ms: plan.mtimeMs,
+        byte_offset: end.offset,
+        line_count: end.line,
+      });
       return null;
     }
 
+    if (earlierParents) {
+      this.reconnectParents(session, earlierParents);
+    }
+
+    // Results of tool calls stored by an earlier import of this file
+    this.toolCallRepo?.recordResults(session.tool_results);
+
+    const sessionIds: string[] = [];
+    let imported = 0;
+
+    if (session.messages.length > 0) {
+      const created = this.importParsedSession(session, skipExisting);
+      if (created > 0) {
+        sessionIds.push(session.id);
+        imported += created;
+      }
+    } else if (!this.sessionRepo.exists(session.id)) {
+      // Sub-agent file imported before its parent: register the parent as a stub
+      this.sessionRepo.createStub({
+        id: session.id,
+        project_path: session.project_path ?? undefined,
+        cwd: session.cwd ?? undefined,
+        started_at: session.subagents[0]?.started_at ?? undefined,
+      });
+    }
+
+    for (const child of session.subagents) {
+      const created = this.importParsedSession(child, skipExisting);
+      if (created > 0) {
+        sessionIds.push(child.id);
+        imported += created;
+      }
+    }
+
+    if (session.subagents.length > 0 || session.messages.length > 0) {
+      this.sessionRepo.linkSubagentToolCalls(session.id);
+    }
+
+    // Sidechain messages may have moved out of the parent into its children
+    if (session.subagents.length > 0) {
+      this.sessionRepo.update(session.id, {
+        message_count: this.messageRepo.count({ session_id: session.id }),
+      });
+    }
+
+    // Links in either direction may have been waiting for this file
+    this.sessionLinkRepo?.resolvePending();
+
+    this.fileStateRepo?.upsert({
+      file_path: filePath,
+      session_id: session.id,
+      size: plan.size,
+      mtime_ms: plan.mtimeMs,
+      byte_offset: session.end_offset,
+      line_count: session.end_line,
+    });
+
+    return { sessionIds, imported };
+  }
+
+  /**
+   * Import one parsed session (a file's main session or a sub-agent child).
+   * Returns the number of new messages.
+   *
+   * If the session exists as a stub (is_stub=true), it will be updated
+   * with the full import data while preserving tags and user metadata.
+   * Existing sessions only get the messages they don't have yet, unless
+   * skipExisting is false, which also refreshes their stored messages.
+   */
+  private importParsedSession(session: ParsedSession, skipExisting: boolean): number {
     // Check if session already exists
     const existingSession = this.sessionRepo.exists(session.id);
     const isStub = existingSession && this.sessionRepo.isStub(session.id);
-
-    // Skip if exists and NOT a stub (unless skipExisting is false)
-    if (skipExisting && existingSession && !isStub) {
-      return 0;
-    }
+    // Parsed from an offset: session-level data from the file's first lines isn't known
+    const incremental = session.start_offset > 0;
 
     // Look up or create project (if ProjectRepository is available)
     let projectId: number | undefined;
@@ -135,6 +599,11 @@ export class ImportService {
       message_count: session.messages.length,
       title: session.title ?? undefined,
       is_title_auto_generated: session.title !== null,
+      git_branch: session.git_branch ?? undefined,
+      client_version: session.client_version ?? undefined,
+      is_sidechain: session.is_sidechain,
+      parent_session_id: session.parent_session_id ?? undefined,
+      agent_id: session.agent_id ?? undefined,
     };
 
     // Create or update session
@@ -157,42 +626,115 @@ export class ImportService {
       parent_uuid: msg.parent_uuid ?? undefined,
       message_type: msg.message_type ?? undefined,
       cwd: msg.cwd ?? undefined,
+      git_branch: msg.git_branch ?? undefined,
+      is_sidechain: msg.is_sidechain,
+      agent_id: msg.agent_id ?? undefined,
+      thinking: msg.thinking ?? undefined,
     }));
 
     const created = this.messageRepo.createMany(messageInputs);
 
-    // Update session message count
+    // Re-imports backfill metadata and thinking on existing messages, and move
+    // sidechain messages imported into the parent over to the sub-agent session
+    if ((existingSession && !isStub && !skipExisting) || session.parent_session_id) {
+      this.messageRepo.updateMetadata(messageInputs);
+    }
+
+    // Import tool calls (also backfills sessions imported before tool calls were stored)
+    this.toolCallRepo?.createMany(session.tool_calls.map(call => ({
+      tool_use_id: call.tool_use_id,
+      session_id: call.session_id,
+      message_uuid: call.message_uuid,
+      tool_name: call.tool_name,
+      input: call.input,
+      timestamp: call.timestamp,
+      result_message_uuid: call.result_message_uuid ?? undefined,
+      result: call.result ?? undefined,
+      is_error: call.is_error,
+    })));
+
+    // Rebuild the files-touched index from the stored tool calls
+    if (this.toolCallRepo) {
+      this.sessionFileRepo?.rebuildForSession(session.id);
+      if (session.parent_session_id) {
+        this.sessionFileRepo?.rebuildForSession(session.parent_session_id);
+      }
+    }
+
+    // Update message count and end time (project stats follow via triggers)
+    const stored = this.sessionRepo.findById(session.id)!;
+    const endedAt = session.ended_at && (!stored.ended_at || session.ended_at > stored.ended_at)
+      ? session.ended_at
+      : undefined;
+    // Found again after its recorded file was moved or deleted
+    const relinked = stored.file_path !== session.file_path
+      && (Boolean(stored.source_missing) || !fs.existsSync(stored.file_path));
+
     this.sessionRepo.update(session.id, {
-      message_count: created,
+      message_count: this.messageRepo.count({ session_id: session.id }),
+      ended_at: endedAt,
+      git_branch: incremental ? undefined : sessionInput.git_branch,
+      client_version: incremental ? undefined : sessionInput.client_version,
+      is_sidechain: sessionInput.is_sidechain,
+      leaf_uuid: session.leaf_uuid ?? undefined,
+      file_path: relinked ? session.file_path : undefined,
+      source_missing: relinked ? false : undefined,
     });
 
+    if (projectId !== undefined && endedAt) {
+      this.projectRepo?.updateActivity(projectId, endedAt);
+    }
+
+    // Record which earlier sessions this one continues (resolved in importSessionFile)
+    if (!incremental) {
+      this.sessionLinkRepo?.replaceForSession(session.id, session.continues.map(link => ({
+        target_uuid: link.target_uuid,
+        link_type: link.link_type,
+      })));
+    }
+
     return created;
   }
 
   /**
-   * Find all JSONL files in a directory (recursive).
+   * Read the parents of the lines before the offset of an incrementally
+   * parsed file, if any of its messages has a parent there that wasn't
+   * stored as a message. Null when the earlier part of the file isn't needed.
    */
-  private async findJsonlFiles(dir: string): Promise<string[]> {
-    const files: string[] = [];
-
-    if (!fs.existsSync(dir)) {
-      return files;
+  private async readEarlierParents(filePath: string, session: ParsedSession): Promise<EarlierParents> {
+    if (session.start_offset === 0 || this.danglingMessages(session).length === 0) {
+      return null;
     }
+    return this.parser.readParents(filePath, session.start_offset);
+  }
 
-    const entries = fs.readdirSync(dir, { withFileTypes: true });
+  /**
+   * Incrementally parsed messages whose parent is neither parsed with them
+   * nor stored.
+   */
+  private danglingMessages(session: ParsedSession): ParsedSession['messages'] {
+    const messages = [session, ...session.subagents].flatMap(s => s.messages);
+    const parsed = new Set(messages.map(m => m.uuid));
+    return messages.filter(m =>
+      m.parent_uuid && !parsed.has(m.parent_uuid) && !this.messageRepo.exists(m.parent_uuid)
+    );
+  }
 
-    for (const entry of entries) {
-      const fullPath = path.join(dir, entry.name);
+  /**
+   * Point parents of incrementally parsed messages that are lines before the
+   * offset, but weren't stored as messages, at their nearest stored ancestor.
+   */
+  private reconnectParents(session: ParsedSession, earlierParents: Map<string, string | null>): void {
+    for (const message of this.danglingMessages(session)) {
+      let parent = message.parent_uuid;
+      const seen = new Set<string>();
 
-      if (entry.isDirectory()) {
-        const subFiles = await this.findJsonlFiles(fullPath);
-        files.push(...subFiles);
-      } else if (entry.isFile() && entry.name.endsWith('.jsonl')) {
-        files.push(fullPath);
+      while (parent && !this.messageRepo.exists(parent) && !seen.has(parent)) {
+        seen.add(parent);
+        parent = earlierParents.get(parent) ?? null;
       }
+      message.parent_uuid = parent;
     }
-
-    return files;
   }
 
   /**
@@ -0,0 +1,236 @@
+/**
+ * Import Watcher
+ *
+ * Keeps the database current by watching the source directories and
+ * importing JSONL files as Claude Code appends to them.
+ * Features:
+ * - Debounces bursts of appends per file, with a maximum wait so sessions
+ *   that are being written continuously are still imported regularly
+ * - Imports incrementally through ImportService (only lines added since the
+ *   last import are parsed), one batch at a time
+ * - Watches every directory below the sources, picking up new project and
+ *   sub-agent directories as they appear
+ * - Periodic full rescan to catch changes the file system didn't report
+ * - Reports changed sessions so callers can index them (e.g. chunk indexing)
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import type { ImportService, ImportResult } from './ImportService.js';
+
+export interface ImportWatcherOptions {
+  /** Source directories containing JSONL files */
+  sourceDirs: string[];
+  /** Quiet period after the last change to a file before importing it (default: 2000) */
+  debounceMs?: number;
+  /** Longest a changed file waits while changes keep coming (default: 15000) */
+  maxWaitMs?: number;
+  /** Interval of the full rescan, 0 to disable (default: 300000) */
+  rescanIntervalMs?: number;
+  /** Import everything that changed while not watching on start (default: true) */
+  initialImport?: boolean;
+  /** Called after each import that created or changed sessions */
+  onImported?: (result: ImportResult) => void | Promise<void>;
+  /** Called when importing or watching fails; the watcher keeps running */
+  onError?: (error: Error, file?: string) => void;
+}
+
+export class ImportWatcher {
+  private watchers = new Map<string, fs.FSWatcher>();
+  private timers = new Map<string, NodeJS.Timeout>();
+  private firstChangeAt = new Map<string, number>();
+  private queue = new Set<string>();
+  private draining: Promise<void> | null = null;
+  private rescanTimer: NodeJS.Timeout | null = null;
+  private rescanRequested = false;
+  private stopped = true;
+
+  private readonly debounceMs: number;
+  private readonly maxWaitMs: number;
+  private readonly rescanIntervalMs: number;
+
+  constructor(
+    private importService: ImportService,
+    private options: ImportWatcherOptions
+  ) {
+    this.debounceMs = options.debounceMs ?? 2000;
+    this.maxWaitMs = options.maxWaitMs ?? 15000;
+    this.rescanIntervalMs = options.rescanIntervalMs ?? 300000;
+  }
+
+  /**
+   * Start watching. Resolves once the watchers are in place (and the
+   * initial import, if enabled, has finished).
+   */
+  async start(): Promise<void> {
+    if (!this.stopped) return;
+    this.stopped = false;
+
+    for (const dir of this.options.sourceDirs) {
+      this.watchTree(dir);
+    }
+
+    if (this.options.initialImport ?? true) {
+      this.rescanRequested = true;
+      await this.drain();
+    }
+
+    if (this.rescanIntervalMs > 0) {
+      this.rescanTimer = setInterval(() => {
+        this.rescanRequested = true;
+        void this.drain();
+      }, this.rescanIntervalMs);
+    }
+  }
+
+  /**
+   * Stop watching. Pending changes are dropped (the next start or import
+   * picks them up); an import in progress is allowed to finish.
+   */
+  async stop(): Promise<void> {
+    this.stopped = true;
+
+    for (const watcher of this.watchers.values()) {
+      watcher.close();
+    }
+    this.watchers.clear();
+
+    for (const timer of this.timers.values()) {
+      clearTimeout(timer);
+    }
+    this.timers.clear();
+    this.firstChangeAt.clear();
+    this.queue.clear();
+
+    if (this.rescanTimer) {
+      clearInterval(this.rescanTimer);
+      this.rescanTimer = null;
+    }
+
+    await this.draining;
+  }
+
+  /**
+   * Watch a directory and everything below it.
+   */
+  private watchTree(dir: string): void {
+    if (this.stopped || this.watchers.has(dir) || !fs.existsSync(dir)) return;
+
+    try {
+      const watcher = fs.watch(dir, (_event, filename) => {
+        if (filename) this.onChange(path.join(dir, filename.toString()));
+      });
+      watcher.on('error', error => {
+        // Typically the directory was removed
+        watcher.close();
+        this.watchers.delete(dir);
+        this.options.onError?.(error, dir);
+      });
+      this.watchers.set(dir, watcher);
+    } catch (error) {
+      this.options.onError?.(error instanceof Error ? error : new Error(String(error)), dir);
+      return;
+    }
+
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      if (entry.isDirectory()) {
+        this.watchTree(path.join(dir, entry.name));
+      }
+    }
+  }
+
+  /**
+   * Handle a change reported for a path in a watched directory.
+   */
+  private onChange(fullPath: string): void {
+    if (this.stopped) return;
+
+    if (fullPath.endsWith('.jsonl')) {
+      this.schedule(fullPath);
+      return;
+    }
+
+    // A new directory: watch it, and import the files already in it
+    let stat: fs.Stats;
+    try {
+      stat = fs.statSync(fullPath);
+    } catch {
+      return;
+    }
+    if (stat.isDirectory() && !this.watchers.has(fullPath)) {
+      this.watchTree(fullPath);
+      this.rescanRequested = true;
+      void this.drain();
+    }
+  }
+
+  /**
+   * Queue a file for import once it has been quiet for debounceMs, or
+   * maxWaitMs after its first unimported change.
+   */
+  private schedule(file: string): void {
+    const now = Date.now();
+    const firstChangeAt = this.firstChangeAt.get(file) ?? now;
+    this.firstChangeAt.set(file, firstChangeAt);
+
+    const existing = this.timers.get(file);
+    if (existing) clearTimeout(existing);
+
+    const delay = Math.max(0, Math.min(this.debounceMs, firstChangeAt + this.maxWaitMs - now));
+    this.timers.set(file, setTimeout(() => {
+      this.timers.delete(file);
+      this.firstChangeAt.delete(file);
+      this.queue.add(file);
+      void this.drain();
+    }, delay));
+  }
+
+  /**
+   * Import queued files (and run requested rescans) one batch at a time.
+   * Concurrent calls share the running drain.
+   */
+  private drain(): Promise<void> {
+    if (!this.draining) {
+      this.draining = this.runQueue().finally(() => {
+        this.draining = null;
+      });
+    }
+    return this.draining;
+  }
+
+  private async runQueue(): Promise<void> {
+    while (!this.stopped && (this.rescanRequested || this.queue.size > 0)) {
+      let result: ImportResult;
+
+      try {
+        if (this.rescanRequested) {
+          // Unchanged files are skipped by their recorded size and mtime
+          this.rescanRequested = false;
+          this.queue.clear();
+          result = await this.importService.importAll({
+            sourceDirs: this.options.sourceDirs,
+            skipExisting: true,
+            trigger: 'watch',
+            recordEmptyRuns: false,
+            onError: (file, error) => this.options.onError?.(error, file),
+          });
+        } else {
+          const files = [...this.queue].filter(file => fs.existsSync(file));
+          this.queue.clear();
+          result = await this.importService.importFiles(files, {
+            skipExisting: true,
+            trigger: 'watch',
+            recordEmptyRuns: false,
+            onError: (file, error) => this.options.onError?.(error, file),
+          });
+        }
+
+        if (result.changedSessionIds.length > 0) {
+          await this.options.onImported?.(result);
+        }
+      } catch (error) {
+        this.options.onError?.(error instanceof Error ? error : new Error(String(error)));
+      }
+    }
+  }
+}
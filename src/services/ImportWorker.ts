@@ -0,0 +1,33 @@
+/**
+ * Import Worker
+ *
+ * Worker thread of ImportWorkerPool: parses the JSONL files it is sent and
+ * posts the parsed sessions back. Never touches the database.
+ */
+
+import { parentPort } from 'worker_threads';
+import { JsonlParser } from './JsonlParser.js';
+import type { WorkerParseRequest, WorkerParseResult } from './ImportWorkerPool.js';
+
+const parser = new JsonlParser();
+
+async function parse(request: WorkerParseRequest): Promise<WorkerParseResult> {
+  const lineErrors: WorkerParseResult['lineErrors'] = [];
+  const end = { offset: request.fromOffset, line: request.fromLine };
+
+  try {
+    const session = await parser.parseFile(request.filePath, {
+      fromOffset: request.fromOffset,
+      fromLine: request.fromLine,
+      onLineError: (line, error) => lineErrors.push({ line, error: error.message }),
+      onEnd: (offset, line) => Object.assign(end, { offset, line }),
+    });
+    return { session, end, lineErrors };
+  } catch (error) {
+    return { session: null, end, lineErrors, error: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+parentPort?.on('message', (request: WorkerParseRequest) => {
+  void parse(request).then(result => parentPort!.postMessage(result));
+});
@@ -0,0 +1,124 @@
+/**
+ * Import Worker Pool
+ *
+ * Parses JSONL files in worker threads, for imports of many files (e.g. a
+ * first import of a large history). Workers only parse; the caller stays the
+ * single writer to the database.
+ * Features:
+ * - Fixed number of workers, started on demand, each parsing one file at a time
+ * - Malformed lines are reported back with the parse result
+ * - A worker that crashes fails its file and is replaced
+ */
+
+import { Worker } from 'worker_threads';
+import type { ParsedSession } from './JsonlParser.js';
+
+/** Message sent to a worker */
+export interface WorkerParseRequest {
+  filePath: string;
+  fromOffset: number;
+  fromLine: number;
+}
+
+/** Message a worker sends back */
+export interface WorkerParseResult {
+  session: ParsedSession | null;
+  end: { offset: number; line: number };               // How far the file was read (end_offset/end_line)
+  lineErrors: Array<{ line: number; error: string }>;  // Malformed lines, in file order
+  error?: string;                                      // Reading the file failed
+}
+
+interface ParseTask {
+  request: WorkerParseRequest;
+  resolve: (result: WorkerParseResult) => void;
+  reject: (error: Error) => void;
+}
+
+export class ImportWorkerPool {
+  /** Worker entry point: the compiled ImportWorker next to this module */
+  static workerUrl = new URL('./ImportWorker.js', import.meta.url);
+
+  private workers = new Set<Worker>();
+  private idle: Worker[] = [];
+  private running = new Map<Worker, ParseTask>();
+  private queue: ParseTask[] = [];
+  private closed = false;
+
+  constructor(private size: number) {}
+
+  /**
+   * Parse a file (from an offset) in the next free worker.
+   */
+  parse(request: WorkerParseRequest): Promise<WorkerParseResult> {
+    if (this.closed) {
+      return Promise.reject(new Error('Import worker pool is closed'));
+    }
+
+    return new Promise((resolve, reject) => {
+      this.queue.push({ request, resolve, reject });
+      this.dispatch();
+    });
+  }
+
+  /**
+   * Stop all workers. Queued and running parses are rejected.
+   */
+  async close(): Promise<void> {
+    this.closed = true;
+
+    const error = new Error('Import worker pool is closed');
+    for (const task of [...this.queue, ...this.running.values()]) {
+      task.reject(error);
+    }
+    this.queue = [];
+    this.running.clear();
+
+    const workers = [...this.workers];
+    this.workers.clear();
+    this.idle = [];
+    await Promise.all(workers.map(worker => worker.terminate()));
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0) {
+      const worker = this.idle.pop() ?? (this.workers.size < this.size ? this.spawn() : undefined);
+      if (!worker) return;
+
+      const task = this.queue.shift()!;
+      this.running.set(worker, task);
+      worker.postMessage(task.request);
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = new Worker(ImportWorkerPool.workerUrl);
+    this.workers.add(worker);
+
+    worker.on('message', (result: WorkerParseResult) => {
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      this.idle.push(worker);
+      task?.resolve(result);
+      this.dispatch();
+    });
+
+    // 'error' is followed by 'exit'
+    let failure: Error | null = null;
+    worker.on('error', error => {
+      failure = error;
+    });
+    worker.on('exit', code => {
+      if (this.closed) return;
+
+      this.workers.delete(worker);
+      this.idle = this.idle.filter(other => other !== worker);
+
+      const task = this.running.get(worker);
+      this.running.delete(worker);
+      task?.reject(failure ?? new Error(`Import worker exited with code ${code}`));
+      this.dispatch();
+    });
+
+    return worker;
+  }
+}
@@ -6,8 +6,10 @@
 
 import * as fs from 'fs';
 import * as path from 'path';
-import * as readline from 'readline';
-import type { RawJsonlMessage } from '../types/models.js';
+import type { ContentBlock, RawJsonlMessage, SessionLinkType } from '../types/models.js';
+
+/** Tool results longer than this are truncated before storage */
+const MAX_TOOL_RESULT_LENGTH = 20000;
 
 export interface ParsedSession {
   id: string;
@@ -17,7 +19,31 @@ export interface ParsedSession {
   title: string | null;
   started_at: string | null;
   ended_at: string | null;
+  git_branch: string | null;        // Branch of the first message that has one
+  client_version: string | null;    // Claude Code version of the first message that has one
+  is_sidechain: boolean;            // True for sub-agent sessions
+  parent_session_id: string | null; // Session that spawned this sub-agent
+  agent_id: string | null;          // Sub-agent id (null for inline sidechains without one)
+  leaf_uuid: string | null;         // Last leafUuid recorded in the file that points into it
+  continues: ParsedSessionLink[];   // Messages in earlier sessions this one continues from
   messages: ParsedMessage[];
+  tool_calls: ParsedToolCall[];
+  tool_results: ParsedToolResult[]; // Results for tool calls made before start_offset
+  subagents: ParsedSession[];       // Sub-agent transcripts split out of this file
+  start_offset: number;             // Byte offset parsing started at (0 for the whole file)
+  end_offset: number;               // Byte offset after the last complete line
+  end_line: number;                 // Lines read up to end_offset
+}
+
+export interface ParseOptions {
+  /** Byte offset to resume from; only lines after it are parsed */
+  fromOffset?: number;
+  /** Number of lines before fromOffset, so line numbers are those of the file */
+  fromLine?: number;
+  /** Called with the line number of each line that can't be parsed */
+  onLineError?: (lineNumber: number, error: Error) => void;
+  /** Called with end_offset and end_line once the lines are read, also when no session is returned */
+  onEnd?: (endOffset: number, endLine: number) => void;
 }
 
 export interface ParsedMessage {
@@ -30,123 +56,368 @@ export interface ParsedMessage {
   parent_uuid: string | null;
   message_type: string | null;
   cwd: string | null;
+  git_branch: string | null;
+  is_sidechain: boolean;
+  agent_id: string | null;
+  thinking: string | null;          // Thinking blocks that led to this message
+}
+
+export interface ParsedToolResult {
+  tool_use_id: string;
+  result_message_uuid: string;
+  result: string;
+  is_error: boolean;
+}
+
+export interface ParsedSessionLink {
+  target_uuid: string;              // uuid not found in this file
+  link_type: SessionLinkType;
+}
+
+export interface ParsedToolCall {
+  tool_use_id: string;
+  session_id: string;
+  message_uuid: string;             // Assistant message containing the tool_use
+  tool_name: string;
+  input: Record<string, unknown>;
+  timestamp: string;
+  result_message_uuid: string | null;
+  result: string | null;            // null when no tool_result was found in the file
+  is_error: boolean;
+}
+
+/**
+ * ID of the child session holding a sub-agent transcript.
+ */
+export function subagentSessionId(parentSessionId: string, agentKey: string): string {
+  return `${parentSessionId}:agent-${agentKey}`;
 }
 
 export class JsonlParser {
   /**
    * Parse a single JSONL file into a session with messages.
+   *
+   * Sidechain (sub-agent) messages are split into child sessions, one per
+   * agentId, or per sidechain thread when no agentId is recorded. Sub-agent
+   * files (agent-*.jsonl) share the parent's sessionId, so they parse to a
+   * parent with no messages of its own and a single child.
+   *
+   * With a fromOffset, only the lines appended since are parsed (see
+   * ImportService): parents before the offset are kept as-is, results for
+   * earlier tool calls are returned as tool_results, and continuation links,
+   * titles and the session's first-line metadata are left to the full parse.
+   * An incremental parse returns a session even when no messages were added,
+   * so the caller can record the new end_offset.
+   *
+   * Malformed lines are skipped and reported through onLineError; errors
+   * reading the file are thrown.
    */
-  async parseFile(filePath: string): Promise<ParsedSession | null> {
-    try {
-      const lines = await this.readLines(filePath);
-      if (lines.length === 0) {
-        return null;
-      }
+  async parseFile(filePath: string, options: ParseOptions = {}): Promise<ParsedSession | null> {
+    const { fromOffset = 0, fromLine = 0, onLineError, onEnd } = options;
+    const incremental = fromOffset > 0;
+    const position = { offset: fromOffset, line: fromLine };
+    const messages: ParsedMessage[] = [];
+    const toolCalls = new Map<string, ParsedToolCall>();
+    const toolResults = new Map<string, ParsedToolResult>();
+    // Thinking is attached per stream, since sidechain lines interleave with the main thread
+    const streams = new Map<string, { pendingThinking: string[]; lastAssistant: ParsedMessage | null }>();
+    const sidechainRoots = new Map<string, string>();
+    const agentIds = new Map<string, string>();
+    // Parent of every line with a uuid, including lines that aren't stored
+    const rawParents = new Map<string, string | null>();
+    // leafUuids in order, with whether they came from a summary line
+    const leafRefs: Array<{ uuid: string; summary: boolean }> = [];
+    const compactionRefs = new Set<string>();
+    const sidechainUuids = new Set<string>();
+    let sessionId: string | null = null;
+    let title: string | null = null;
+    let cwd: string | null = null;
+    let projectPath: string | null = null;
+    let gitBranch: string | null = null;
+    let clientVersion: string | null = null;
+    let startedAt: string | null = null;
+    let endedAt: string | null = null;
+
+    for await (const line of this.readLines(filePath, position)) {
+      if (!line.trim()) continue;
+
+      try {
+        const parsed = JSON.parse(line) as RawJsonlMessage;
+
+        if (parsed.leafUuid) {
+          leafRefs.push({ uuid: parsed.leafUuid, summary: parsed.type === 'summary' });
+        }
+
+        // Handle summary line (contains session title)
+        if (parsed.type === 'summary') {
+          title = parsed.summary ?? null;
+          continue;
+        }
+
+        if (parsed.uuid) {
+          rawParents.set(parsed.uuid, parsed.parentUuid ?? parsed.logicalParentUuid ?? null);
+          if (!parsed.parentUuid && parsed.logicalParentUuid) {
+            compactionRefs.add(parsed.logicalParentUuid);
+          }
+          if (parsed.isSidechain) {
+            sidechainUuids.add(parsed.uuid);
+          }
+        }
 
-      const messages: ParsedMessage[] = [];
-      let sessionId: string | null = null;
-      let title: string | null = null;
-      let cwd: string | null = null;
-      let projectPath: string | null = null;
-      let startedAt: string | null = null;
-      let endedAt: string | null = null;
+        // Skip system/meta messages
+        if (parsed.type === 'system' || parsed.isMeta) {
+          continue;
+        }
+
+        // Extract session metadata from first message
+        if (!sessionId && parsed.sessionId) {
+          sessionId = parsed.sessionId;
+        }
 
-      for (const line of lines) {
-        if (!line.trim()) continue;
+        if (!cwd && parsed.cwd) {
+          cwd = parsed.cwd;
+          // Extract project path from cwd
+          projectPath = this.extractProjectPath(parsed.cwd);
+        }
 
-        try {
-          const parsed = JSON.parse(line) as RawJsonlMessage;
+        // Outside a git repository gitBranch is an empty string
+        if (!gitBranch && parsed.gitBranch) {
+          gitBranch = parsed.gitBranch;
+        }
 
-          // Handle summary line (contains session title)
-          if (parsed.type === 'summary') {
-            title = parsed.summary ?? null;
-            continue;
-          }
+        if (!clientVersion && parsed.version) {
+          clientVersion = parsed.version;
+        }
 
-          // Skip system/meta messages
-          if (parsed.type === 'system' || parsed.isMeta) {
-            continue;
+        // Track timestamps for session duration
+        if (parsed.timestamp) {
+          if (!startedAt || parsed.timestamp < startedAt) {
+            startedAt = parsed.timestamp;
           }
+          if (!endedAt || parsed.timestamp > endedAt) {
+            endedAt = parsed.timestamp;
+          }
+        }
 
-          // Extract session metadata from first message
-          if (!sessionId && parsed.sessionId) {
-            sessionId = parsed.sessionId;
+        // Parse user and assistant messages
+        if (parsed.type === 'user' || parsed.type === 'assistant') {
+          const streamId = this.resolveStreamId(parsed, sessionId!, sidechainRoots);
+          if (streamId !== sessionId && parsed.agentId) {
+            agentIds.set(streamId, parsed.agentId);
           }
 
-          if (!cwd && parsed.cwd) {
-            cwd = parsed.cwd;
-            // Extract project path from cwd
-            projectPath = this.extractProjectPath(parsed.cwd);
+          let stream = streams.get(streamId);
+          if (!stream) {
+            stream = { pendingThinking: [], lastAssistant: null };
+            streams.set(streamId, stream);
           }
 
-          // Track timestamps for session duration
-          if (parsed.timestamp) {
-            if (!startedAt || parsed.timestamp < startedAt) {
-              startedAt = parsed.timestamp;
-            }
-            if (!endedAt || parsed.timestamp > endedAt) {
-              endedAt = parsed.timestamp;
-            }
+          const message = this.parseMessage(parsed, streamId);
+          const thinking = this.extractThinking(parsed);
+          if (thinking) {
+            stream.pendingThinking.push(thinking);
           }
 
-          // Parse user and assistant messages
-          if (parsed.type === 'user' || parsed.type === 'assistant') {
-            const message = this.parseMessage(parsed, sessionId!);
-            if (message) {
-              messages.push(message);
+          if (message) {
+            // Thinking usually arrives on its own line just before the reply or
+            // tool call; attach it to that message, or to the previous assistant
+            // message if the turn ends without one
+            if (stream.pendingThinking.length > 0) {
+              const target = message.role === 'assistant' ? message : stream.lastAssistant;
+              if (target) {
+                this.attachThinking(target, stream.pendingThinking.splice(0));
+              }
+            }
+            if (message.role === 'assistant') {
+              stream.lastAssistant = message;
             }
+            messages.push(message);
           }
-        } catch (parseError) {
-          // Skip malformed lines
-          continue;
+          this.collectToolCalls(parsed, streamId, toolCalls, toolResults);
         }
+      } catch (parseError) {
+        // Skip malformed lines
+        onLineError?.(position.line, parseError instanceof Error ? parseError : new Error(String(parseError)));
+        continue;
       }
+    }
 
-      if (!sessionId || messages.length === 0) {
-        return null;
+    onEnd?.(position.offset, position.line);
+
+    if (!sessionId || (messages.length === 0 && !incremental)) {
+      return null;
+    }
+
+    for (const stream of streams.values()) {
+      if (stream.pendingThinking.length > 0 && stream.lastAssistant) {
+        this.attachThinking(stream.lastAssistant, stream.pendingThinking);
       }
+    }
 
-      // If no title from summary, try to generate from first user message
-      if (!title && messages.length > 0) {
-        const firstUserMsg = messages.find(m => m.role === 'user');
-        if (firstUserMsg) {
-          title = this.generateTitle(firstUserMsg.content);
-        }
+    const continues = incremental
+      ? []
+      : this.findContinuations(rawParents, leafRefs, compactionRefs, sidechainUuids);
+    // last-prompt leaves always point into the file; summary leaves may point at an earlier file
+    const leafUuid = leafRefs.filter(ref => !ref.summary || rawParents.has(ref.uuid)).pop()?.uuid ?? null;
+
+    this.resolveParents(messages, rawParents, incremental);
+
+    const mainMessages = messages.filter(m => m.session_id === sessionId);
+
+    // If no title from summary, try to generate from first user message
+    if (!title && !incremental && mainMessages.length > 0) {
+      const firstUserMsg = mainMessages.find(m => m.role === 'user');
+      if (firstUserMsg) {
+        title = this.generateTitle(firstUserMsg.content);
       }
+    }
 
-      return {
-        id: sessionId,
+    const subagents: ParsedSession[] = [];
+    for (const childId of streams.keys()) {
+      const childMessages = messages.filter(m => m.session_id === childId);
+      if (childId === sessionId || childMessages.length === 0) continue;
+
+      const firstUserMsg = childMessages.find(m => m.role === 'user');
+      subagents.push({
+        id: childId,
         file_path: filePath,
         project_path: projectPath,
-        cwd,
-        title,
-        started_at: startedAt,
-        ended_at: endedAt,
-        messages,
-      };
-    } catch (error) {
-      console.error(`Error parsing file ${filePath}:`, error);
-      return null;
+        cwd: childMessages.find(m => m.cwd)?.cwd ?? cwd,
+        title: firstUserMsg ? this.generateTitle(firstUserMsg.content) : null,
+        started_at: childMessages.reduce((min, m) => (m.timestamp < min ? m.timestamp : min), childMessages[0].timestamp),
+        ended_at: childMessages.reduce((max, m) => (m.timestamp > max ? m.timestamp : max), childMessages[0].timestamp),
+        git_branch: childMessages.find(m => m.git_branch)?.git_branch ?? gitBranch,
+        client_version: clientVersion,
+        is_sidechain: true,
+        parent_session_id: sessionId,
+        agent_id: agentIds.get(childId) ?? null,
+        leaf_uuid: null,
+        continues: [],
+        messages: childMessages,
+        tool_calls: [...toolCalls.values()].filter(call => call.session_id === childId),
+        tool_results: [],
+        subagents: [],
+        start_offset: fromOffset,
+        end_offset: position.offset,
+        end_line: position.line,
+      });
     }
+
+    return {
+      id: sessionId,
+      file_path: filePath,
+      project_path: projectPath,
+      cwd,
+      title,
+      started_at: mainMessages.length > 0 ? startedAt : null,
+      ended_at: mainMessages.length > 0 ? endedAt : null,
+      git_branch: gitBranch,
+      client_version: clientVersion,
+      is_sidechain: false,
+      parent_session_id: null,
+      agent_id: null,
+      leaf_uuid: leafUuid,
+      continues,
+      messages: mainMessages,
+      tool_calls: [...toolCalls.values()].filter(call => call.session_id === sessionId),
+      tool_results: [...toolResults.values()],
+      subagents,
+      start_offset: fromOffset,
+      end_offset: position.offset,
+      end_line: position.line,
+    };
   }
 
   /**
-   * Read all lines from a file.
+   * Read which session a file holds from its first lines: the sessionId, or
+   * the sub-agent session for sub-agent files. Used to find moved files.
    */
-  private async readLines(filePath: string): Promise<string[]> {
-    const lines: string[] = [];
+  async readSessionId(filePath: string): Promise<string | null> {
+    for await (const line of this.readLines(filePath, { offset: 0, line: 0 })) {
+      try {
+        const parsed = JSON.parse(line) as RawJsonlMessage;
+        if (parsed.sessionId) {
+          return parsed.isSidechain && parsed.agentId
+            ? subagentSessionId(parsed.sessionId, parsed.agentId)
+            : parsed.sessionId;
+        }
+      } catch {
+        // Skip malformed lines
+        continue;
+      }
+    }
 
-    const fileStream = fs.createReadStream(filePath);
-    const rl = readline.createInterface({
-      input: fileStream,
-      crlfDelay: Infinity,
-    });
+    return null;
+  }
+
+  /**
+   * Map the uuid of every line before endOffset to its parent. Used to
+   * reconnect lines parsed incrementally to messages imported earlier when
+   * their parent is a line that wasn't stored (attachments, thinking, ...).
+   */
+  async readParents(filePath: string, endOffset: number): Promise<Map<string, string | null>> {
+    const parents = new Map<string, string | null>();
+
+    for await (const line of this.readLines(filePath, { offset: 0, line: 0 }, endOffset)) {
+      try {
+        const parsed = JSON.parse(line) as RawJsonlMessage;
+        if (parsed.uuid) {
+          parents.set(parsed.uuid, parsed.parentUuid ?? parsed.logicalParentUuid ?? null);
+        }
+      } catch {
+        // Skip malformed lines
+        continue;
+      }
+    }
+
+    return parents;
+  }
 
-    for await (const line of rl) {
-      lines.push(line);
+  /**
+   * Stream the complete lines of a file from position.offset (up to
+   * endOffset), advancing the offset past each line read and counting it in
+   * position.line. A last line without a newline is only read if it is
+   * complete JSON, since the file may still be being written.
+   */
+  private async *readLines(
+    filePath: string,
+    position: { offset: number; line: number },
+    endOffset?: number
+  ): AsyncGenerator<string> {
+    if (endOffset !== undefined && endOffset <= position.offset) return;
+
+    const fileStream = fs.createReadStream(filePath, {
+      start: position.offset,
+      end: endOffset !== undefined ? endOffset - 1 : undefined,
+    });
+    let pending: Buffer = Buffer.alloc(0);
+
+    for await (const chunk of fileStream) {
+      pending = pending.length > 0 ? Buffer.concat([pending, chunk as Buffer]) : (chunk as Buffer);
+
+      let start = 0;
+      let newline: number;
+      while ((newline = pending.indexOf(0x0a, start)) !== -1) {
+        const line = pending.toString('utf8', start, newline);
+        position.offset += newline + 1 - start;
+        position.line++;
+        start = newline + 1;
+        yield line;
+      }
+      pending = pending.subarray(start);
     }
 
-    return lines;
+    if (pending.length > 0) {
+      const line = pending.toString('utf8');
+      try {
+        JSON.parse(line);
+      } catch {
+        return;
+      }
+      position.offset += pending.length;
+      position.line++;
+      yield line;
+    }
   }
 
   /**
@@ -179,14 +450,7 @@ export class JsonlParser {
               return `[Tool Use: ${block.name || 'unknown'}]`;
             }
             if (block.type === 'tool_result') {
-              const resultContent = block.content;
-              if (typeof resultContent === 'string') return resultContent;
-              if (Array.isArray(resultContent)) {
-                return (resultContent as Array<string | { text?: string }>)
-                  .map((r: string | { text?: string }) => (typeof r === 'string' ? r : r.text || ''))
-                  .join('\n');
-              }
-              return '';
+              return this.toolResultText(block);
             }
             return '';
           })
@@ -210,9 +474,184 @@ export class JsonlParser {
       parent_uuid: raw.parentUuid ?? null,
       message_type: raw.type ?? null,
       cwd: raw.cwd ?? null,
+      git_branch: raw.gitBranch || null,
+      is_sidechain: raw.isSidechain ?? false,
+      agent_id: raw.agentId ?? null,
+      thinking: null,
     };
   }
 
+  /**
+   * Record tool_use blocks and attach tool_result blocks to the tool_use
+   * with the same id (results normally arrive in the following user message).
+   */
+  private collectToolCalls(
+    raw: RawJsonlMessage,
+    sessionId: string,
+    toolCalls: Map<string, ParsedToolCall>,
+    toolResults: Map<string, ParsedToolResult>
+  ): void {
+    if (!raw.uuid || !raw.timestamp || !Array.isArray(raw.message?.content)) {
+      return;
+    }
+
+    for (const block of raw.message.content) {
+      if (typeof block === 'string') continue;
+
+      if (block.type === 'tool_use' && block.id) {
+        toolCalls.set(block.id, {
+          tool_use_id: block.id,
+          session_id: sessionId,
+          message_uuid: raw.uuid,
+          tool_name: block.name || 'unknown',
+          input: block.input ?? {},
+          timestamp: raw.timestamp,
+          result_message_uuid: null,
+          result: null,
+          is_error: false,
+        });
+      } else if (block.type === 'tool_result' && block.tool_use_id) {
+        const text = this.toolResultText(block);
+        const result = text.length > MAX_TOOL_RESULT_LENGTH
+          ? text.slice(0, MAX_TOOL_RESULT_LENGTH) + '...[truncated]'
+          : text;
+
+        const call = toolCalls.get(block.tool_use_id);
+        if (!call) {
+          // The tool_use is in an earlier part of the file (or another file)
+          toolResults.set(block.tool_use_id, {
+            tool_use_id: block.tool_use_id,
+            result_message_uuid: raw.uuid,
+            result,
+            is_error: block.is_error === true,
+          });
+          continue;
+        }
+
+        call.result_message_uuid = raw.uuid;
+        call.result = result;
+        call.is_error = block.is_error === true;
+      }
+    }
+  }
+
+  /**
+   * Find the messages in other files this file continues from: summary
+   * leafUuids and main-thread parents that aren't lines of this file.
+   * Must run before resolveParents, which drops parents outside the file.
+   */
+  private findContinuations(
+    rawParents: Map<string, string | null>,
+    leafRefs: Array<{ uuid: string; summary: boolean }>,
+    compactionRefs: Set<string>,
+    sidechainUuids: Set<string>
+  ): ParsedSessionLink[] {
+    const links = new Map<string, SessionLinkType>();
+
+    for (const ref of leafRefs) {
+      if (ref.summary && !rawParents.has(ref.uuid) && !links.has(ref.uuid)) {
+        links.set(ref.uuid, 'summary');
+      }
+    }
+
+    for (const [uuid, parent] of rawParents) {
+      if (parent && !rawParents.has(parent) && !sidechainUuids.has(uuid) && !links.has(parent)) {
+        links.set(parent, compactionRefs.has(parent) ? 'compaction' : 'resume');
+      }
+    }
+
+    return [...links].map(([target_uuid, link_type]) => ({ target_uuid, link_type }));
+  }
+
+  /**
+   * Point each message's parent_uuid at its nearest stored ancestor in the
+   * same session, skipping lines that weren't stored (meta, attachments,
+   * thinking-only lines, ...) so the tree stays connected. With keepEarlier,
+   * parents before the parsed part of the file are kept as they are.
+   */
+  private resolveParents(
+    messages: ParsedMessage[],
+    rawParents: Map<string, string | null>,
+    keepEarlier: boolean
+  ): void {
+    const stored = new Map(messages.map(m => [m.uuid, m.session_id]));
+    const isEarlier = (uuid: string) => keepEarlier && !rawParents.has(uuid);
+
+    for (const message of messages) {
+      let parent = message.parent_uuid;
+      const seen = new Set<string>();
+
+      while (parent && stored.get(parent) !== message.session_id && !isEarlier(parent) && !seen.has(parent)) {
+        seen.add(parent);
+        parent = rawParents.get(parent) ?? null;
+      }
+
+      message.parent_uuid = parent && (stored.get(parent) === message.session_id || isEarlier(parent))
+        ? parent
+        : null;
+    }
+  }
+
+  /**
+   * Session a line belongs to: the file's session, or a sub-agent child
+   * session keyed by agentId or, failing that, by the root of its sidechain
+   * thread (parents always precede children in the file).
+   */
+  private resolveStreamId(
+    raw: RawJsonlMessage,
+    sessionId: string,
+    sidechainRoots: Map<string, string>
+  ): string {
+    if (!raw.isSidechain) {
+      return sessionId;
+    }
+
+    const root = (raw.parentUuid && sidechainRoots.get(raw.parentUuid)) || raw.uuid || 'sidechain';
+    if (raw.uuid) {
+      sidechainRoots.set(raw.uuid, root);
+    }
+
+    return subagentSessionId(sessionId, raw.agentId ?? root.slice(0, 8));
+  }
+
+  /**
+   * Join the thinking blocks of a message, or null if it has none.
+   */
+  private extractThinking(raw: RawJsonlMessage): string | null {
+    if (!Array.isArray(raw.message?.content)) {
+      return null;
+    }
+
+    const thinking = raw.message.content
+      .filter(block => typeof block !== 'string' && block.type === 'thinking')
+      .map(block => (block as ContentBlock).thinking?.trim() ?? '')
+      .filter(Boolean)
+      .join('\n\n');
+
+    return thinking || null;
+  }
+
+  /**
+   * Append thinking text to a message.
+   */
+  private attachThinking(message: ParsedMessage, thinking: string[]): void {
+    message.thinking = [message.thinking, ...thinking].filter(Boolean).join('\n\n');
+  }
+
+  /**
+   * Flatten the content of a tool_result block to text.
+   */
+  private toolResultText(block: ContentBlock): string {
+    const resultContent = block.content;
+    if (typeof resultContent === 'string') return resultContent;
+    if (Array.isArray(resultContent)) {
+      return resultContent
+        .map(r => (typeof r === 'string' ? r : r.text || ''))
+        .join('\n');
+    }
+    return '';
+  }
+
   /**
    * Extract project path from working directory.
    */
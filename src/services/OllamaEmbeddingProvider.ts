@@ -0,0 +1,82 @@
+/**
+ * Ollama Embedding Provider
+ *
+ * Generates embeddings via Ollama's /api/embeddings endpoint.
+ * Defaults to nomic-embed-text (768 dimensions).
+ */
+
+import type { EmbeddingHealth, EmbeddingProvider } from './EmbeddingProvider.js';
+
+// Vector sizes of common Ollama embedding models (others are probed)
+const KNOWN_DIMENSIONS: Record<string, number> = {
+  'nomic-embed-text': 768,
+  'mxbai-embed-large': 1024,
+  'all-minilm': 384,
+  'snowflake-arctic-embed': 1024,
+};
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'ollama' as const;
+  readonly model: string;
+  readonly endpoint: string;
+  readonly dimensions?: number;
+
+  constructor(
+    baseUrl: string = 'http://localhost:11434',
+    model: string = 'nomic-embed-text',
+    dimensions?: number
+  ) {
+    this.endpoint = baseUrl.replace(/\/+$/, '');
+    this.model = model;
+    this.dimensions = dimensions ?? KNOWN_DIMENSIONS[model.replace(/:latest$/, '')];
+  }
+
+  /**
+   * Generate an embedding for a single text.
+   */
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(`${this.endpoint}/api/embeddings`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        model: this.model,
+        prompt: text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.statusText}`);
+    }
+
+    const data = await response.json() as { embedding: number[] };
+    return data.embedding;
+  }
+
+  /**
+   * Check if Ollama is available and the model is pulled.
+   */
+  async healthCheck(): Promise<EmbeddingHealth> {
+    try {
+      const response = await fetch(`${this.endpoint}/api/tags`);
+      if (!response.ok) {
+        return { available: false, model_loaded: false, error: 'Ollama not responding' };
+      }
+
+      const data = await response.json() as { models: Array<{ name: string }> };
+      const models = data.models || [];
+      const modelLoaded = models.some(m => m.name.includes(this.model));
+
+      return {
+        available: true,
+        model_loaded: modelLoaded,
+        error: modelLoaded ? undefined : `Model ${this.model} not loaded. Run: ollama pull ${this.model}`,
+      };
+    } catch (error) {
+      return {
+        available: false,
+        model_loaded: false,
+        error: `Cannot connect to Ollama at ${this.endpoint}`,
+      };
+    }
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * OpenAI-Compatible Embedding Provider
+ *
+ * Generates embeddings via a /v1/embeddings endpoint, as served by
+ * llama.cpp (llama-server --embeddings), LM Studio, vLLM, LocalAI or OpenAI.
+ */
+
+import type { EmbeddingHealth, EmbeddingProvider } from './EmbeddingProvider.js';
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  readonly name = 'openai' as const;
+  readonly model: string;
+  readonly endpoint: string;
+  readonly dimensions?: number;
+  private apiKey?: string;
+
+  constructor(
+    baseUrl: string = 'http://localhost:8080',
+    model: string = 'default',
+    apiKey?: string,
+    dimensions?: number
+  ) {
+    // Accept both "http://host:8080" and "http://host:8080/v1"
+    this.endpoint = baseUrl.replace(/\/+$/, '').replace(/\/v1$/, '');
+    this.model = model;
+    this.apiKey = apiKey;
+    this.dimensions = dimensions;
+  }
+
+  /**
+   * Generate an embedding for a single text.
+   */
+  async embed(text: string): Promise<number[]> {
+    const response = await fetch(`${this.endpoint}/v1/embeddings`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        input: text,
+      }),
+    });
+
+    if (!response.ok) {
+      throw new Error(`Embedding request failed: ${response.status} ${response.statusText}`);
+    }
+
+    const data = await response.json() as { data?: Array<{ embedding: number[] }> };
+    const embedding = data.data?.[0]?.embedding;
+    if (!Array.isArray(embedding)) {
+      throw new Error('Embedding response did not contain data[0].embedding');
+    }
+
+    return embedding;
+  }
+
+  /**
+   * Check the server by embedding a short probe text.
+   * Single-model servers (llama.cpp) ignore the model name, so a model
+   * listing would not tell us whether embeddings actually work.
+   */
+  async healthCheck(): Promise<EmbeddingHealth> {
+    try {
+      await this.embed('health check');
+      return { available: true, model_loaded: true };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      const reachable = !(error instanceof TypeError); // fetch network failures are TypeErrors
+      return {
+        available: reachable,
+        model_loaded: false,
+        error: reachable
+          ? `Embedding endpoint at ${this.endpoint} failed for model ${this.model}: ${message}`
+          : `Cannot connect to embedding server at ${this.endpoint}`,
+      };
+    }
+  }
+
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    return headers;
+  }
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, afterEach } from '@jest/globals';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { createTestDatabase } from '../__tests__/database.js';
+import {
+  SessionRepository,
+  MessageRepository,
+  ImportFileStateRepository,
+} from '../repositories/index.js';
+import { ImportService } from './ImportService.js';
+import { ReconcileService } from './ReconcileService.js';
+
+/**
+ * A user message line of session s1, ending in a newline.
+ */
+function messageLine(n: number): string {
+  return JSON.stringify({
+    type: 'user',
+    uuid: `m${n}`,
+    parentUuid: n > 1 ? `m${n - 1}` : null,
+    sessionId: 's1',
+    timestamp: `2025-10-01T10:00:0${n}Z`,
+    message: { role: 'user', content: `deploy step ${n}` },
+  }) + '\n';
+}
+
+describe('ReconcileService', () => {
+  let dir: string;
+  let file: string;
+  let sessionRepo: SessionRepository;
+  let messageRepo: MessageRepository;
+  let fileStateRepo: ImportFileStateRepository;
+  let service: ReconcileService;
+
+  beforeEach(async () => {
+    const db = createTestDatabase();
+    sessionRepo = new SessionRepository(db);
+    messageRepo = new MessageRepository(db);
+    fileStateRepo = new ImportFileStateRepository(db);
+    service = new ReconcileService(db, sessionRepo, fileStateRepo);
+
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'reconcile-test-'));
+    fs.mkdirSync(path.join(dir, 'old'));
+    fs.mkdirSync(path.join(dir, 'new'));
+    file = path.join(dir, 'old', 's1.jsonl');
+    fs.writeFileSync(file, messageLine(1) + messageLine(2));
+
+    await new ImportService(
+      sessionRepo,
+      messageRepo,
+      undefined,
+      undefined,
+      undefined,
+      undefined,
+      fileStateRepo,
+      undefined,
+      db
+    ).importFile(file);
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const reconcile = (dryRun = false) => service.reconcile({ sourceDirs: [path.join(dir, 'new')], dryRun });
+
+  it('relinks a session whose file moved, with its import state', async () => {
+    const moved = path.join(dir, 'new', 's1.jsonl');
+    fs.renameSync(file, moved);
+
+    const result = await reconcile();
+
+    expect(result.relinked).toEqual([{ session_id: 's1', old_path: file, new_path: moved }]);
+    expect(result.missing).toEqual([]);
+    expect(sessionRepo.findById('s1')?.file_path).toBe(moved);
+    expect(fileStateRepo.findByPath(file)).toBeNull();
+    expect(fileStateRepo.findByPath(moved)?.line_count).toBe(2);
+  });
+
+  it('flags a deleted file as missing and keeps its messages searchable', async () => {
+    fs.rmSync(file);
+
+    const result = await reconcile();
+
+    expect(result.missing).toEqual([{ session_id: 's1', file_path: file }]);
+    expect(sessionRepo.findById('s1')?.file_path).toBe(file);
+    expect(sessionRepo.findById('s1')?.source_missing).toBeTruthy();
+    expect(messageRepo.search({ query: 'deploy' }).total_hits).toBe(2);
+
+    // A second run counts it as still missing rather than newly missing
+    expect(await reconcile()).toMatchObject({ missing: [], still_missing: 1 });
+  });
+
+  it('clears the flag when the file comes back', async () => {
+    const contents = fs.readFileSync(file);
+    fs.rmSync(file);
+    await reconcile();
+    fs.writeFileSync(file, contents);
+
+    const result = await reconcile();
+
+    expect(result.restored).toEqual([{ session_id: 's1', file_path: file }]);
+    expect(sessionRepo.findById('s1')?.source_missing).toBeFalsy();
+  });
+
+  it('changes nothing on a dry run', async () => {
+    fs.renameSync(file, path.join(dir, 'new', 's1.jsonl'));
+
+    expect((await reconcile(true)).relinked).toHaveLength(1);
+    expect(sessionRepo.findById('s1')?.file_path).toBe(file);
+    expect(fileStateRepo.findByPath(file)).not.toBeNull();
+  });
+
+  it('rolls back every change when one fails', async () => {
+    fs.renameSync(file, path.join(dir, 'new', 's1.jsonl'));
+    fileStateRepo.rename = () => {
+      throw new Error('disk I/O error');
+    };
+
+    await expect(reconcile()).rejects.toThrow('disk I/O error');
+    expect(sessionRepo.findById('s1')?.file_path).toBe(file);
+  });
+});
@@ -0,0 +1,159 @@
+/**
+ * Reconcile Service
+ *
+ * Checks the sessions' source JSONL files against the file system, for when
+ * Claude Code prunes old transcripts or ~/.claude is moved. History is never
+ * deleted because its source file went away.
+ * Features:
+ * - Relinks sessions whose file moved, found by session id in the source
+ *   directories (sub-agent files by their sub-agent session)
+ * - Flags sessions whose file is gone as source_missing; they stay searchable,
+ *   and the flag is cleared when the file comes back
+ * - Moves the import state of relinked files, so they aren't parsed again
+ * - Applies all changes in one transaction, so a failure leaves nothing half-done
+ * - Dry run: report the changes without applying them
+ */
+
+import * as fs from 'fs';
+import type { SessionRepository, ImportFileStateRepository } from '../repositories/index.js';
+import type { DatabaseConnection } from '../database/index.js';
+import type { Session } from '../types/models.js';
+import { JsonlParser } from './JsonlParser.js';
+import { findJsonlFiles } from './ImportService.js';
+
+export interface ReconcileOptions {
+  /** Source directories to look for moved files in */
+  sourceDirs: string[];
+  /** Report the changes without applying them */
+  dryRun?: boolean;
+}
+
+export interface ReconcileResult {
+  checked: number;                        // Sessions with a source file (stubs excluded)
+  relinked: Array<{ session_id: string; old_path: string; new_path: string }>;
+  missing: Array<{ session_id: string; file_path: string }>;   // Newly missing
+  restored: Array<{ session_id: string; file_path: string }>;  // Back at the recorded path
+  still_missing: number;                  // Flagged before and still missing
+  scanned_files: number;                  // JSONL files in the source directories
+  missing_source_dirs: string[];          // Source directories that don't exist
+  dry_run: boolean;
+  duration: number;
+}
+
+export class ReconcileService {
+  private parser = new JsonlParser();
+
+  constructor(
+    private db: DatabaseConnection,
+    private sessionRepo: SessionRepository,
+    private fileStateRepo?: ImportFileStateRepository
+  ) {}
+
+  /**
+   * Compare every session's file_path against the file system, relinking
+   * moved files and flagging missing ones.
+   */
+  async reconcile(options: ReconcileOptions): Promise<ReconcileResult> {
+    const startTime = Date.now();
+    const dryRun = options.dryRun ?? false;
+    const result: ReconcileResult = {
+      checked: 0,
+      relinked: [],
+      missing: [],
+      restored: [],
+      still_missing: 0,
+      scanned_files: 0,
+      missing_source_dirs: options.sourceDirs.filter(dir => !fs.existsSync(dir)),
+      dry_run: dryRun,
+      duration: 0,
+    };
+
+    const sessions = this.sessionRepo.findAll().filter(session => !session.is_stub);
+    const present = new Set<string>();
+    const gone: Session[] = [];
+
+    for (const session of sessions) {
+      if (fs.existsSync(session.file_path)) {
+        present.add(session.file_path);
+        if (session.source_missing) {
+          result.restored.push({ session_id: session.id, file_path: session.file_path });
+        }
+      } else {
+        gone.push(session);
+      }
+    }
+    result.checked = sessions.length;
+
+    // Where the missing files went: by session id, then (for sub-agents
+    // stored inside their parent's file) by the parent's move
+    const found = gone.length > 0 ? await this.findSessionFiles(options.sourceDirs, present, result) : new Map();
+    const moves = new Map<string, string>();
+    for (const session of gone) {
+      const newPath = found.get(session.id);
+      if (newPath) moves.set(session.file_path, newPath);
+    }
+
+    for (const session of gone) {
+      const newPath = found.get(session.id) ?? moves.get(session.file_path);
+      if (newPath) {
+        result.relinked.push({ session_id: session.id, old_path: session.file_path, new_path: newPath });
+      } else if (session.source_missing) {
+        result.still_missing++;
+      } else {
+        result.missing.push({ session_id: session.id, file_path: session.file_path });
+      }
+    }
+
+    if (!dryRun) {
+      this.db.transaction(() => {
+        for (const change of result.relinked) {
+          this.sessionRepo.update(change.session_id, { file_path: change.new_path, source_missing: false });
+          this.fileStateRepo?.rename(change.old_path, change.new_path);
+        }
+        for (const change of result.missing) {
+          this.sessionRepo.update(change.session_id, { source_missing: true });
+        }
+        for (const change of result.restored) {
+          this.sessionRepo.update(change.session_id, { source_missing: false });
+        }
+      });
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Map session ids to the JSONL files in the source directories that hold
+   * them, skipping files sessions already point at. The first file found for
+   * a session wins.
+   */
+  private async findSessionFiles(
+    sourceDirs: string[],
+    present: Set<string>,
+    result: ReconcileResult
+  ): Promise<Map<string, string>> {
+    const found = new Map<string, string>();
+
+    for (const dir of sourceDirs) {
+      for (const file of await findJsonlFiles(dir)) {
+        result.scanned_files++;
+        if (present.has(file)) continue;
+
+        let sessionId: string | null;
+        try {
+          sessionId = await this.parser.readSessionId(file);
+        } catch {
+          // Unreadable (e.g. removed while scanning)
+          continue;
+        }
+
+        if (sessionId && !found.has(sessionId)) {
+          found.set(sessionId, file);
+        }
+      }
+    }
+
+    return found;
+  }
+}
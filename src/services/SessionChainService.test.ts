@@ -0,0 +1,125 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { SessionRepository, MessageRepository, SessionLinkRepository } from '../repositories/index.js';
+import { ThreadingService } from './ThreadingService.js';
+import { SessionChainService } from './SessionChainService.js';
+
+/**
+ * s1: a1 ─ a2 ─ a3
+ * s2:       └ b1 ─ b2        resumed from a2 (11:00)
+ * s4:            └ d1        resumed from a3 (10:00), an earlier continuation
+ * s3:                └ c1    compacted from b2
+ */
+describe('SessionChainService', () => {
+  let sessionRepo: SessionRepository;
+  let messageRepo: MessageRepository;
+  let linkRepo: SessionLinkRepository;
+  let service: SessionChainService;
+
+  const message = (uuid: string, sessionId: string, parent: string | undefined, time: string) => ({
+    uuid,
+    session_id: sessionId,
+    role: 'user',
+    content: uuid,
+    parent_uuid: parent,
+    timestamp: `2025-10-01T${time}Z`,
+  });
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    sessionRepo = new SessionRepository(db);
+    messageRepo = new MessageRepository(db);
+    linkRepo = new SessionLinkRepository(db);
+    service = new SessionChainService(sessionRepo, linkRepo, new ThreadingService(messageRepo, sessionRepo));
+
+    for (const [id, startedAt] of [['s1', '09:00:00'], ['s2', '11:00:00'], ['s3', '12:00:00'], ['s4', '10:00:00']]) {
+      sessionRepo.create({ id, file_path: `/tmp/${id}.jsonl`, started_at: `2025-10-01T${startedAt}Z` });
+    }
+
+    // Links are recorded when a session is imported, before its earlier session may be
+    linkRepo.replaceForSession('s3', [{ target_uuid: 'b2', link_type: 'compaction' }]);
+    linkRepo.replaceForSession('s2', [{ target_uuid: 'a2', link_type: 'resume' }]);
+    linkRepo.replaceForSession('s4', [{ target_uuid: 'a3', link_type: 'resume' }]);
+
+    messageRepo.createMany([
+      message('a1', 's1', undefined, '09:00:01'),
+      message('a2', 's1', 'a1', '09:00:02'),
+      message('a3', 's1', 'a2', '09:00:03'),
+      message('b1', 's2', 'a2', '11:00:01'),
+      message('b2', 's2', 'b1', '11:00:02'),
+      message('c1', 's3', 'b2', '12:00:01'),
+      message('d1', 's4', 'a3', '10:00:01'),
+    ]);
+    linkRepo.resolvePending();
+  });
+
+  const segments = (sessionId: string, branch: 'main' | 'all' = 'main') =>
+    service.getChain(sessionId, branch)!.segments.map(segment => ({
+      id: segment.session.id,
+      link_type: segment.link_type,
+      from: segment.continued_from_uuid,
+      others: segment.other_continuations,
+      messages: segment.messages.map(m => m.uuid),
+    }));
+
+  it('resolves pending links once the earlier session is imported', () => {
+    expect(linkRepo.count()).toBe(3);
+    expect(linkRepo.findBySession('s3')[0]).toMatchObject({ continued_from_session_id: 's2', link_type: 'compaction' });
+    expect(linkRepo.findContinuedFrom('s2').map(link => link.session_id)).toEqual(['s1']);
+    expect(linkRepo.findContinuedIn('s1').map(link => link.session_id)).toEqual(['s4', 's2']);
+  });
+
+  it('resolves a link to the session ending on its target', () => {
+    sessionRepo.create({ id: 's5', file_path: '/tmp/s5.jsonl', started_at: '2025-10-01T13:00:00Z' });
+    linkRepo.replaceForSession('s5', [{ target_uuid: 'leaf-only', link_type: 'summary' }]);
+
+    expect(linkRepo.resolvePending()).toBe(0);
+    expect(linkRepo.findContinuedFrom('s5')).toEqual([expect.objectContaining({ session_id: null, target_uuid: 'leaf-only' })]);
+
+    sessionRepo.update('s3', { leaf_uuid: 'leaf-only' });
+    expect(linkRepo.resolvePending()).toBe(1);
+    expect(linkRepo.findContinuedFrom('s5').map(link => link.session_id)).toEqual(['s3']);
+  });
+
+  it('follows the chain both ways from any session in it', () => {
+    const expected = [
+      { id: 's1', link_type: null, from: null, others: ['s4'], messages: ['a1', 'a2'] },
+      { id: 's2', link_type: 'resume', from: 'a2', others: [], messages: ['b1', 'b2'] },
+      { id: 's3', link_type: 'compaction', from: 'b2', others: [], messages: ['c1'] },
+    ];
+
+    expect(segments('s1')).toEqual(expected);
+    expect(segments('s2')).toEqual(expected);
+    expect(segments('s3')).toEqual(expected);
+    expect(service.getChain('s2')).toMatchObject({ session_id: 's2', message_count: 5 });
+  });
+
+  it('keeps messages after the continuation point with branch "all"', () => {
+    expect(segments('s2', 'all')[0].messages).toEqual(['a1', 'a2', 'a3']);
+  });
+
+  it('follows an earlier continuation when asked for it', () => {
+    expect(segments('s4')).toEqual([
+      { id: 's1', link_type: null, from: null, others: ['s2'], messages: ['a1', 'a2', 'a3'] },
+      { id: 's4', link_type: 'resume', from: 'a3', others: [], messages: ['d1'] },
+    ]);
+  });
+
+  it('replaces the links of a session on re-import', () => {
+    linkRepo.replaceForSession('s4', []);
+
+    expect(segments('s4').map(segment => segment.id)).toEqual(['s4']);
+    expect(segments('s1')[0].others).toEqual([]);
+  });
+
+  it('visits each session once when links form a cycle', () => {
+    linkRepo.replaceForSession('s1', [{ target_uuid: 'c1', link_type: 'resume' }]);
+    linkRepo.resolvePending();
+
+    expect(segments('s2').map(segment => segment.id)).toEqual(['s3', 's1', 's2']);
+  });
+
+  it('returns null for an unknown session', () => {
+    expect(service.getChain('unknown')).toBeNull();
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Session Chain Service
+ *
+ * Stitches a logical conversation back together across the files Claude Code
+ * split it into (resumed or compacted sessions), following session_links.
+ * Features:
+ * - Walks back to the first session and forward to the latest continuation
+ * - When a session was continued more than once, follows the most recent
+ *   continuation and reports the others
+ * - On the main line, an earlier session is cut at the message the next one
+ *   continues from, so work abandoned there doesn't interleave
+ */
+
+import type { SessionRepository, SessionLinkRepository } from '../repositories/index.js';
+import type { Message, Session, SessionLinkType } from '../types/models.js';
+import type { ThreadingService, ThreadBranchMode } from './ThreadingService.js';
+
+export interface SessionChainSegment {
+  session: Session;
+  link_type: SessionLinkType | null;      // How it continues the previous segment (null for the first)
+  continued_from_uuid: string | null;     // Message of the previous segment it continues from
+  other_continuations: string[];          // Continuations of this session not followed
+  messages: Message[];
+}
+
+export interface SessionChain {
+  session_id: string;                     // Session the chain was requested for
+  segments: SessionChainSegment[];        // Oldest first
+  message_count: number;
+}
+
+export class SessionChainService {
+  constructor(
+    private sessionRepo: SessionRepository,
+    private linkRepo: SessionLinkRepository,
+    private threadingService: ThreadingService
+  ) {}
+
+  /**
+   * Get the chain of sessions a session belongs to, with their messages.
+   * Returns null when the session doesn't exist.
+   */
+  getChain(sessionId: string, branch: ThreadBranchMode = 'main'): SessionChain | null {
+    if (!this.sessionRepo.findById(sessionId)) return null;
+
+    const seen = new Set<string>([sessionId]);
+
+    // Back to the first session, through the most recent earlier session each time
+    const ids = [sessionId];
+    const links: Array<{ link_type: SessionLinkType; target_uuid: string } | null> = [null];
+    for (;;) {
+      const previous = this.linkRepo
+        .findContinuedFrom(ids[0])
+        .filter(link => link.session_id && !seen.has(link.session_id))
+        .pop();
+      if (!previous) break;
+
+      links[0] = { link_type: previous.link_type, target_uuid: previous.target_uuid };
+      ids.unshift(previous.session_id!);
+      links.unshift(null);
+      seen.add(previous.session_id!);
+    }
+
+    // Forward to the latest continuation
+    for (;;) {
+      const next = this.linkRepo
+        .findContinuedIn(ids[ids.length - 1])
+        .filter(link => !seen.has(link.session_id!))
+        .pop();
+      if (!next) break;
+
+      ids.push(next.session_id!);
+      links.push({ link_type: next.link_type, target_uuid: next.target_uuid });
+      seen.add(next.session_id!);
+    }
+
+    const segments = ids.map((id, i): SessionChainSegment => {
+      let messages = this.threadingService.getMessages(id, branch);
+
+      const next = links[i + 1];
+      if (branch === 'main' && next) {
+        const cut = messages.findIndex(m => m.uuid === next.target_uuid);
+        if (cut >= 0) messages = messages.slice(0, cut + 1);
+      }
+
+      return {
+        session: this.sessionRepo.findById(id)!,
+        link_type: links[i]?.link_type ?? null,
+        continued_from_uuid: links[i]?.target_uuid ?? null,
+        other_continuations: this.linkRepo
+          .findContinuedIn(id)
+          .map(link => link.session_id!)
+          .filter(other => other !== ids[i + 1]),
+        messages,
+      };
+    });
+
+    return {
+      session_id: sessionId,
+      segments,
+      message_count: segments.reduce((sum, segment) => sum + segment.messages.length, 0),
+    };
+  }
+}
@@ -0,0 +1,27 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { EmbeddingService } from './EmbeddingService.js';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
+import { SqliteVectorStore } from './SqliteVectorStore.js';
+
+describe('SqliteVectorStore filters', () => {
+  let store: SqliteVectorStore;
+
+  beforeEach(async () => {
+    store = new SqliteVectorStore(createTestDatabase(), new EmbeddingService(new HashingEmbeddingProvider(64)));
+    await store.initialize();
+    await store.upsertDocuments([
+      { id: 'm1', content: 'how do I deploy the app', metadata: { session_id: 's1', message_uuid: 'm1', role: 'user', timestamp: '2025-10-01T10:00:00Z' } },
+      { id: 'm2', content: 'deploy the app with the script', metadata: { session_id: 's1', message_uuid: 'm2', role: 'assistant', timestamp: '2025-10-01T10:00:01Z' } },
+    ]);
+  });
+
+  const ids = async (role?: string): Promise<string[]> =>
+    (await store.search('deploy the app', 10, role ? { role } : undefined)).map(result => result.id).sort();
+
+  it('filters by role', async () => {
+    expect(await ids('user')).toEqual(['m1']);
+    expect(await ids('assistant')).toEqual(['m2']);
+    expect(await ids()).toEqual(['m1', 'm2']);
+  });
+});
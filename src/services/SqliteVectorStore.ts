@@ -0,0 +1,517 @@
+/**
+ * SQLite Vector Store
+ *
+ * Embedded vector storage in conversations.db (no ChromaDB server needed).
+ * Features:
+ * - Migration-managed tables (vector_collections, vector_embeddings)
+ * - L2-normalized Float32 embeddings stored as BLOBs
+ * - Brute-force cosine search in process, with metadata filters pushed into SQL
+ * - Same document/chunk formats and result shape as the ChromaDB VectorStore
+ * - Records the embedding signature and refuses vectors from another model
+ */
+
+import type { DatabaseConnection } from '../database/index.js';
+import type { EmbeddingService } from './EmbeddingService.js';
+import {
+  LEGACY_EMBEDDING_SIGNATURE,
+  assertSignatureMatches,
+  signatureFromMetadata,
+  signatureToMetadata,
+} from './EmbeddingProvider.js';
+import type { EmbeddingSignature } from './EmbeddingProvider.js';
+import type { ChunkDocument, VectorDocument, VectorSearchResult } from './VectorStore.js';
+import type { FailedEmbedding, UpsertResult, VectorSearchFilter, VectorStoreBackend } from './VectorStoreBackend.js';
+import { candidateCount, needsRerank, rerank } from './VectorReranker.js';
+import type { RerankCandidate, VectorRerankOptions } from './VectorReranker.js';
+
+type DocumentMetadata = Record<string, string | number | undefined>;
+
+interface StoredDocument {
+  id: string;
+  content: string;
+  metadata: DocumentMetadata;
+}
+
+interface EmbeddingRow {
+  id: string;
+  embedding: Buffer;
+}
+
+export class SqliteVectorStore implements VectorStoreBackend {
+  readonly backend = 'sqlite' as const;
+
+  constructor(
+    private db: DatabaseConnection,
+    private embeddingService: EmbeddingService,
+    readonly collectionName: string = 'conversation_messages'
+  ) {}
+
+  /**
+   * Initialize the collection.
+   */
+  async initialize(): Promise<void> {
+    const signature = await this.embeddingService.getSignature();
+
+    this.db.transaction(() => {
+      this.db
+        .prepare(`
+          INSERT OR IGNORE INTO vector_collections (name, metadata, dimensions)
+          VALUES (?, ?, ?)
+        `)
+        .run(
+          this.collectionName,
+          JSON.stringify({
+            space: 'cosine',
+            description: 'Conversation messages for semantic search',
+            ...signatureToMetadata(signature),
+          }),
+          signature.dimensions
+        );
+
+      this.checkSignature(signature);
+    });
+  }
+
+  /**
+   * Refuse to mix embeddings from different providers/models in one collection.
+   * Collections created before signatures were recorded are assumed to hold
+   * nomic-embed-text vectors, and get the signature recorded once verified.
+   */
+  private checkSignature(signature: EmbeddingSignature): void {
+    const row = this.db
+      .prepare('SELECT metadata FROM vector_collections WHERE name = ?')
+      .get(this.collectionName) as { metadata: string };
+    const metadata = JSON.parse(row.metadata) as Record<string, unknown>;
+    const stored = signatureFromMetadata(metadata);
+
+    if (stored) {
+      assertSignatureMatches(this.collectionName, stored, signature);
+      return;
+    }
+
+    const { count } = this.db
+      .prepare('SELECT COUNT(*) as count FROM vector_embeddings WHERE collection = ?')
+      .get(this.collectionName) as { count: number };
+    if (count > 0) {
+      assertSignatureMatches(this.collectionName, LEGACY_EMBEDDING_SIGNATURE, signature);
+    }
+
+    this.db
+      .prepare('UPDATE vector_collections SET metadata = ?, dimensions = ? WHERE name = ?')
+      .run(
+        JSON.stringify({ ...metadata, ...signatureToMetadata(signature) }),
+        signature.dimensions,
+        this.collectionName
+      );
+  }
+
+  /**
+   * Add documents to the collection.
+   */
+  async addDocuments(documents: VectorDocument[]): Promise<UpsertResult> {
+    return this.upsertDocuments(documents);
+  }
+
+  /**
+   * Upsert documents (add or update if exists).
+   */
+  async upsertDocuments(documents: VectorDocument[], concurrency?: number): Promise<UpsertResult> {
+    return this.embedAndStore(
+      documents.map(d => ({ id: d.id, content: d.content, metadata: d.metadata })),
+      concurrency
+    );
+  }
+
+  /**
+   * Upsert chunk documents (message pairs with rich metadata).
+   */
+  async upsertChunks(chunks: ChunkDocument[], concurrency?: number): Promise<UpsertResult> {
+    return this.embedAndStore(
+      chunks.map(c => ({ id: c.id, content: c.content, metadata: c.metadata })),
+      concurrency
+    );
+  }
+
+  /**
+   * Search for similar documents, optionally restricted by metadata filters
+   * and diversified (MMR, per-session cap).
+   */
+  async search(
+    query: string,
+    limit: number = 10,
+    filter?: VectorSearchFilter,
+    rerankOptions?: VectorRerankOptions
+  ): Promise<VectorSearchResult[]> {
+    if (!filter) {
+      return this.query(query, limit, [], [], rerankOptions);
+    }
+    if (filter.session_ids?.length === 0 || filter.project_paths?.length === 0) {
+      return [];
+    }
+
+    const conditions: string[] = [];
+    const params: unknown[] = [];
+
+    if (filter.session_ids) {
+      conditions.push(`session_id IN (${filter.session_ids.map(() => '?').join(', ')})`);
+      params.push(...filter.session_ids);
+    }
+    if (filter.exclude_session_ids?.length) {
+      conditions.push(`session_id NOT IN (${filter.exclude_session_ids.map(() => '?').join(', ')})`);
+      params.push(...filter.exclude_session_ids);
+    }
+    if (filter.project_paths) {
+      conditions.push(`project_path IN (${filter.project_paths.map(() => '?').join(', ')})`);
+      params.push(...filter.project_paths);
+    }
+    if (filter.date_from) {
+      conditions.push('timestamp >= ?');
+      params.push(filter.date_from);
+    }
+    if (filter.date_to) {
+      conditions.push('timestamp <= ?');
+      params.push(filter.date_to);
+    }
+    if (filter.topic) {
+      conditions.push('topic_group = ?');
+      params.push(filter.topic);
+    }
+    if (filter.role) {
+      conditions.push('role = ?');
+      params.push(filter.role);
+    }
+
+    return this.query(query, limit, conditions, params, rerankOptions);
+  }
+
+  /**
+   * Search with session filter.
+   */
+  async searchInSession(query: string, sessionId: string, limit: number = 10): Promise<VectorSearchResult[]> {
+    return this.query(query, limit, ['session_id = ?'], [sessionId]);
+  }
+
+  /**
+   * Search with topic filter.
+   */
+  async searchByTopic(query: string, topic: string, limit: number = 10): Promise<VectorSearchResult[]> {
+    return this.query(query, limit, ['topic_group = ?'], [topic]);
+  }
+
+  /**
+   * Get a chunk by ID with its adjacent chunks.
+   */
+  async getChunkWithContext(chunkId: string): Promise<{
+    chunk: VectorSearchResult | null;
+    previous: VectorSearchResult | null;
+    next: VectorSearchResult | null;
+  }> {
+    const chunk = this.getDocument(chunkId);
+    if (!chunk) {
+      return { chunk: null, previous: null, next: null };
+    }
+
+    const prevId = chunk.metadata.previous_chunk as string | undefined;
+    const nextId = chunk.metadata.next_chunk as string | undefined;
+    const previous = prevId ? this.getDocument(prevId) : null;
+    const next = nextId ? this.getDocument(nextId) : null;
+
+    return {
+      chunk: this.toResult(chunk, 1),
+      previous: previous ? this.toResult(previous, 1) : null,
+      next: next ? this.toResult(next, 1) : null,
+    };
+  }
+
+  /**
+   * Delete documents by session.
+   */
+  async deleteBySession(sessionId: string): Promise<void> {
+    this.db
+      .prepare('DELETE FROM vector_embeddings WHERE collection = ? AND session_id = ?')
+      .run(this.collectionName, sessionId);
+  }
+
+  /**
+   * Check if a document exists.
+   */
+  async exists(id: string): Promise<boolean> {
+    const result = this.db
+      .prepare('SELECT 1 FROM vector_embeddings WHERE collection = ? AND id = ?')
+      .get(this.collectionName, id);
+
+    return result !== undefined;
+  }
+
+  /**
+   * Get collection statistics.
+   */
+  async getStats(): Promise<{ count: number; name: string }> {
+    const result = this.db
+      .prepare('SELECT COUNT(*) as count FROM vector_embeddings WHERE collection = ?')
+      .get(this.collectionName) as { count: number };
+
+    return {
+      count: result.count,
+      name: this.collectionName,
+    };
+  }
+
+  /**
+   * Health check: the vector tables must exist (migration 004).
+   */
+  async healthCheck(): Promise<{ available: boolean; error?: string }> {
+    if (!this.db.tableExists('vector_embeddings')) {
+      return {
+        available: false,
+        error: 'Vector tables missing. Run: npm run migrate',
+      };
+    }
+    return { available: true };
+  }
+
+  /**
+   * Signature of the embeddings this store writes.
+   */
+  async getEmbeddingSignature(): Promise<EmbeddingSignature> {
+    return this.embeddingService.getSignature();
+  }
+
+  /**
+   * Delete the entire collection (for fresh reindexing).
+   */
+  async deleteCollection(): Promise<void> {
+    this.db.transaction(() => {
+      this.db
+        .prepare('DELETE FROM vector_embeddings WHERE collection = ?')
+        .run(this.collectionName);
+      this.db
+        .prepare('DELETE FROM vector_collections WHERE name = ?')
+        .run(this.collectionName);
+    });
+  }
+
+  /**
+   * Embed documents and write them in a single transaction.
+   * Documents that could not be embedded are skipped and reported.
+   */
+  private async embedAndStore(documents: StoredDocument[], concurrency?: number): Promise<UpsertResult> {
+    if (documents.length === 0) {
+      return { upserted: 0, failed: [], cacheHits: 0, cacheMisses: 0 };
+    }
+
+    const { results, failures, cacheHits, cacheMisses } = await this.embeddingService.embedBatch(
+      documents.map(d => d.content),
+      concurrency
+    );
+
+    const failed: FailedEmbedding[] = failures.map(failure => ({
+      id: documents[failure.index].id,
+      session_id: String(documents[failure.index].metadata.session_id ?? ''),
+      error: failure.error,
+      attempts: failure.attempts,
+    }));
+
+    const embedded = documents
+      .map((document, index) => ({ document, embedding: results[index]?.embedding }))
+      .filter((e): e is { document: StoredDocument; embedding: number[] } => e.embedding !== undefined);
+
+    if (embedded.length === 0) {
+      return { upserted: 0, failed, cacheHits, cacheMisses };
+    }
+
+    const stmt = this.db.prepare(`
+      INSERT INTO vector_embeddings (
+        collection, id, session_id, content, metadata, embedding,
+        project_path, timestamp, topic_group, role
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(collection, id) DO UPDATE SET
+        session_id = excluded.session_id,
+        content = excluded.content,
+        metadata = excluded.metadata,
+        embedding = excluded.embedding,
+        project_path = excluded.project_path,
+        timestamp = excluded.timestamp,
+        topic_group = excluded.topic_group,
+        role = excluded.role,
+        updated_at = datetime('now')
+    `);
+
+    this.db.transaction(() => {
+      const dimensions = this.ensureDimensions(embedded[0].embedding.length);
+
+      for (const { document, embedding: vector } of embedded) {
+        const { id, content, metadata } = document;
+
+        if (vector.length !== dimensions) {
+          throw new Error(
+            `Embedding dimension mismatch for ${id}: got ${vector.length}, collection uses ${dimensions}`
+          );
+        }
+
+        stmt.run(
+          this.collectionName,
+          id,
+          String(metadata.session_id ?? ''),
+          content,
+          JSON.stringify(metadata),
+          this.encode(vector),
+          this.optionalString(metadata.project_path),
+          this.optionalString(metadata.timestamp),
+          this.optionalString(metadata.topic_group),
+          this.optionalString(metadata.role)
+        );
+      }
+    });
+
+    return { upserted: embedded.length, failed, cacheHits, cacheMisses };
+  }
+
+  /**
+   * Record the collection's dimensionality on first write and return it.
+   */
+  private ensureDimensions(dimensions: number): number {
+    const row = this.db
+      .prepare('SELECT dimensions FROM vector_collections WHERE name = ?')
+      .get(this.collectionName) as { dimensions: number | null } | undefined;
+
+    if (!row) {
+      throw new Error('SqliteVectorStore not initialized. Call initialize() first.');
+    }
+
+    if (row.dimensions === null) {
+      this.db
+        .prepare('UPDATE vector_collections SET dimensions = ? WHERE name = ?')
+        .run(dimensions, this.collectionName);
+      return dimensions;
+    }
+
+    return row.dimensions;
+  }
+
+  /**
+   * Brute-force cosine search over the collection.
+   * Only IDs and vectors are scanned; content is loaded for the top results.
+   */
+  private async query(
+    query: string,
+    limit: number,
+    conditions: string[] = [],
+    params: unknown[] = [],
+    rerankOptions?: VectorRerankOptions
+  ): Promise<VectorSearchResult[]> {
+    const { embedding } = await this.embeddingService.embed(query);
+    const queryVector = this.normalize(embedding);
+    const reranking = needsRerank(rerankOptions);
+    const fetchCount = reranking ? candidateCount(limit, rerankOptions) : limit;
+
+    let sql = 'SELECT id, embedding FROM vector_embeddings WHERE collection = ?';
+    for (const condition of conditions) {
+      sql += ` AND ${condition}`;
+    }
+
+    // Keep the top `fetchCount` hits sorted by similarity (descending)
+    const top: Array<{ id: string; similarity: number; vector: Float32Array }> = [];
+
+    for (const row of this.db.prepare(sql).iterate(this.collectionName, ...params) as IterableIterator<EmbeddingRow>) {
+      const vector = this.decode(row.embedding);
+      if (vector.length !== queryVector.length) continue;
+
+      let similarity = 0;
+      for (let i = 0; i < vector.length; i++) {
+        similarity += vector[i] * queryVector[i];
+      }
+
+      if (top.length < fetchCount || similarity > top[top.length - 1].similarity) {
+        let index = top.length;
+        while (index > 0 && top[index - 1].similarity < similarity) index--;
+        top.splice(index, 0, { id: row.id, similarity, vector });
+        if (top.length > fetchCount) top.pop();
+      }
+    }
+
+    const candidates: RerankCandidate[] = [];
+    for (const hit of top) {
+      const document = this.getDocument(hit.id);
+      if (document) {
+        candidates.push({ result: this.toResult(document, hit.similarity), embedding: hit.vector });
+      }
+    }
+
+    return reranking
+      ? rerank(candidates, limit, rerankOptions)
+      : candidates.map(candidate => candidate.result);
+  }
+
+  /**
+   * Load a stored document by ID.
+   */
+  private getDocument(id: string): StoredDocument | null {
+    const row = this.db
+      .prepare('SELECT id, content, metadata FROM vector_embeddings WHERE collection = ? AND id = ?')
+      .get(this.collectionName, id) as { id: string; content: string; metadata: string } | undefined;
+
+    if (!row) {
+      return null;
+    }
+
+    return {
+      id: row.id,
+      content: row.content,
+      metadata: JSON.parse(row.metadata) as DocumentMetadata,
+    };
+  }
+
+  /**
+   * Convert a stored document into the shared result shape.
+   */
+  private toResult(document: StoredDocument, similarity: number): VectorSearchResult {
+    return {
+      id: document.id,
+      content: document.content,
+      metadata: document.metadata as unknown as VectorDocument['metadata'],
+      distance: 1 - similarity,
+      similarity,
+    };
+  }
+
+  /**
+   * Scale a vector to unit length so cosine similarity is a dot product.
+   */
+  private normalize(vector: number[]): Float32Array {
+    const result = new Float32Array(vector);
+    let norm = 0;
+    for (let i = 0; i < result.length; i++) {
+      norm += result[i] * result[i];
+    }
+    norm = Math.sqrt(norm);
+    if (norm > 0) {
+      for (let i = 0; i < result.length; i++) {
+        result[i] /= norm;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Encode a vector as a normalized Float32 BLOB.
+   */
+  private encode(vector: number[]): Buffer {
+    const normalized = this.normalize(vector);
+    return Buffer.from(normalized.buffer, normalized.byteOffset, normalized.byteLength);
+  }
+
+  /**
+   * Decode a Float32 BLOB, copying when the buffer is not 4-byte aligned.
+   */
+  private decode(buffer: Buffer): Float32Array {
+    if (buffer.byteOffset % 4 === 0) {
+      return new Float32Array(buffer.buffer, buffer.byteOffset, buffer.byteLength / 4);
+    }
+    return new Float32Array(new Uint8Array(buffer).buffer);
+  }
+
+  private optionalString(value: string | number | undefined): string | null {
+    return value === undefined || value === '' ? null : String(value);
+  }
+}
@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { SessionRepository, MessageRepository, ToolCallRepository } from '../repositories/index.js';
+import { ThreadingService } from './ThreadingService.js';
+
+/**
+ * m1 ─ m2 ┬ m3a ─ m4a                  (edited prompt, abandoned)
+ *         └ m3b ─ m4b ┬ r1              (parallel tool results)
+ *                     └ r2 ─ m5
+ * x1 ─ x2                               (resumed; its parent isn't in the session)
+ */
+describe('ThreadingService', () => {
+  let sessionRepo: SessionRepository;
+  let service: ThreadingService;
+
+  beforeEach(() => {
+    const db = createTestDatabase();
+    sessionRepo = new SessionRepository(db);
+    const messageRepo = new MessageRepository(db);
+    const toolCallRepo = new ToolCallRepository(db);
+    service = new ThreadingService(messageRepo, sessionRepo, toolCallRepo);
+
+    sessionRepo.create({ id: 's1', file_path: '/tmp/s1.jsonl', started_at: '2025-10-01T10:00:00Z' });
+    const message = (uuid: string, parent: string | undefined, second: number, role = 'user') => ({
+      uuid,
+      session_id: 's1',
+      role,
+      content: uuid,
+      parent_uuid: parent,
+      timestamp: `2025-10-01T10:00:${String(second).padStart(2, '0')}Z`,
+    });
+    messageRepo.createMany([
+      message('m1', undefined, 1),
+      message('m2', 'm1', 2, 'assistant'),
+      message('m3a', 'm2', 3),
+      message('m4a', 'm3a', 4, 'assistant'),
+      message('m3b', 'm2', 5),
+      message('m4b', 'm3b', 6, 'assistant'),
+      message('r1', 'm4b', 7),
+      message('r2', 'm4b', 8),
+      message('m5', 'r2', 9, 'assistant'),
+      message('x1', 'gone', 10),
+      message('x2', 'x1', 11, 'assistant'),
+    ]);
+    toolCallRepo.createMany([
+      { tool_use_id: 't1', session_id: 's1', message_uuid: 'm4b', tool_name: 'Read', input: {}, timestamp: '2025-10-01T10:00:06Z', result_message_uuid: 'r1', result: 'a' },
+      { tool_use_id: 't2', session_id: 's1', message_uuid: 'm4b', tool_name: 'Read', input: {}, timestamp: '2025-10-01T10:00:06Z', result_message_uuid: 'r2', result: 'b' },
+    ]);
+  });
+
+  const mainLine = (): string[] => service.getMessages('s1', 'main').map(m => m.uuid);
+
+  it('rebuilds the tree from parent_uuid', () => {
+    const thread = service.buildThread('s1')!;
+    const byUuid = new Map(thread.messages.map(m => [m.message.uuid, m]));
+
+    expect(thread.roots).toBe(2);
+    expect(byUuid.get('x1')).toMatchObject({ parent_uuid: null, depth: 0 });
+    expect(byUuid.get('m4a')).toMatchObject({ parent_uuid: 'm3a', depth: 3 });
+    expect(byUuid.get('m5')).toMatchObject({ parent_uuid: 'r2', depth: 5 });
+  });
+
+  it('follows the latest message back to the root without a recorded leaf', () => {
+    const thread = service.buildThread('s1')!;
+
+    expect(thread).toMatchObject({ leaf_uuid: 'x2', leaf_source: 'latest', main_line_count: 9, dead_count: 2 });
+    expect(mainLine()).toEqual(['m1', 'm2', 'm3b', 'm4b', 'r1', 'r2', 'm5', 'x1', 'x2']);
+  });
+
+  it('reports edited prompts as branches but not parallel tool results', () => {
+    expect(service.buildThread('s1')!.branch_points).toEqual([
+      {
+        parent_uuid: 'm2',
+        branches: [
+          { uuid: 'm3a', on_main_line: false, message_count: 2, started_at: '2025-10-01T10:00:03Z' },
+          { uuid: 'm3b', on_main_line: true, message_count: 5, started_at: '2025-10-01T10:00:05Z' },
+        ],
+      },
+    ]);
+  });
+
+  it('follows the recorded leaf for its tree', () => {
+    sessionRepo.update('s1', { leaf_uuid: 'm4a' });
+
+    expect(service.buildThread('s1')).toMatchObject({ leaf_uuid: 'm4a', leaf_source: 'summary' });
+    expect(mainLine()).toEqual(['m1', 'm2', 'm3a', 'm4a', 'x1', 'x2']);
+  });
+
+  it('ignores a recorded leaf that is not in the session', () => {
+    sessionRepo.update('s1', { leaf_uuid: 'elsewhere' });
+
+    expect(service.buildThread('s1')).toMatchObject({ leaf_uuid: 'x2', leaf_source: 'latest' });
+  });
+
+  it('returns every message in stored order for branch "all"', () => {
+    expect(service.getMessages('s1', 'all')).toHaveLength(11);
+  });
+
+  it('handles unknown and empty sessions', () => {
+    sessionRepo.create({ id: 'empty', file_path: '/tmp/empty.jsonl', started_at: '2025-10-01T10:00:00Z' });
+
+    expect(service.buildThread('unknown')).toBeNull();
+    expect(service.getMessages('unknown', 'main')).toEqual([]);
+    expect(service.buildThread('empty')).toMatchObject({ leaf_uuid: null, leaf_source: 'none', roots: 0 });
+  });
+});
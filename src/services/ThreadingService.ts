@@ -0,0 +1,196 @@
+/**
+ * Threading Service
+ *
+ * Rebuilds a session's conversation tree from messages.parent_uuid.
+ * Features:
+ * - Main line follows the session's leafUuid back to the root, falling back
+ *   to the most recent message when the leaf isn't in the session
+ * - Messages off the main line (edited or retried prompts) are marked dead
+ * - Parallel tool results hang off their tool_use message rather than
+ *   continuing the thread; they are not counted as branches
+ * - Disconnected trees (e.g. resumed sessions) each keep their own main line
+ */
+
+import type { MessageRepository, SessionRepository, ToolCallRepository } from '../repositories/index.js';
+import type { Message } from '../types/models.js';
+
+export type ThreadBranchMode = 'main' | 'all';
+
+export interface ThreadMessage {
+  message: Message;
+  parent_uuid: string | null;       // Parent within the session (null for roots)
+  on_main_line: boolean;
+  depth: number;                    // Distance from the tree root
+}
+
+export interface ThreadBranch {
+  uuid: string;                     // First message of the branch
+  on_main_line: boolean;
+  message_count: number;            // Messages in the branch's subtree
+  started_at: string;
+}
+
+export interface ThreadBranchPoint {
+  parent_uuid: string;              // Message the branches fork from
+  branches: ThreadBranch[];         // Oldest first
+}
+
+export interface SessionThread {
+  session_id: string;
+  leaf_uuid: string | null;
+  leaf_source: 'summary' | 'latest' | 'none';
+  messages: ThreadMessage[];        // Conversation order (timestamp, then id)
+  roots: number;                    // Number of disconnected trees
+  main_line_count: number;
+  dead_count: number;
+  branch_points: ThreadBranchPoint[];
+}
+
+export class ThreadingService {
+  constructor(
+    private messageRepo: MessageRepository,
+    private sessionRepo: SessionRepository,
+    private toolCallRepo?: ToolCallRepository
+  ) {}
+
+  /**
+   * Build the conversation tree of a session.
+   * Returns null when the session doesn't exist.
+   */
+  buildThread(sessionId: string): SessionThread | null {
+    const session = this.sessionRepo.findById(sessionId);
+    if (!session) return null;
+
+    const messages = this.messageRepo
+      .findBySession(sessionId)
+      .sort((a, b) => a.timestamp.localeCompare(b.timestamp) || a.id - b.id);
+    const byUuid = new Map(messages.map(m => [m.uuid, m]));
+    const parentOf = (m: Message): string | null =>
+      m.parent_uuid && byUuid.has(m.parent_uuid) ? m.parent_uuid : null;
+
+    const children = new Map<string, Message[]>();
+    const roots: Message[] = [];
+    for (const message of messages) {
+      const parent = parentOf(message);
+      if (!parent) {
+        roots.push(message);
+        continue;
+      }
+      const siblings = children.get(parent) ?? [];
+      siblings.push(message);
+      children.set(parent, siblings);
+    }
+
+    // Tool results answering a tool_use in their parent are parallel results, not branches
+    const toolResults = new Set<string>();
+    for (const call of this.toolCallRepo?.findBySession(sessionId) ?? []) {
+      const result = call.result_message_uuid ? byUuid.get(call.result_message_uuid) : undefined;
+      if (result && parentOf(result) === call.message_uuid) {
+        toolResults.add(result.uuid);
+      }
+    }
+
+    const depth = new Map<string, number>();
+    const treeOf = new Map<string, string>();
+    for (const root of roots) {
+      const stack: Array<[Message, number]> = [[root, 0]];
+      while (stack.length > 0) {
+        const [message, d] = stack.pop()!;
+        depth.set(message.uuid, d);
+        treeOf.set(message.uuid, root.uuid);
+        for (const child of children.get(message.uuid) ?? []) {
+          stack.push([child, d + 1]);
+        }
+      }
+    }
+
+    // One leaf per tree: its latest message that isn't a tool result (those
+    // are re-attached below), overridden by the recorded leaf for its tree
+    const leaves = new Map<string, Message>();
+    let latest: Message | undefined;
+    for (const message of messages) {
+      if (toolResults.has(message.uuid)) continue;
+      leaves.set(treeOf.get(message.uuid)!, message);
+      latest = message;
+    }
+    const recordedLeaf = session.leaf_uuid ? byUuid.get(session.leaf_uuid) : undefined;
+    if (recordedLeaf) {
+      leaves.set(treeOf.get(recordedLeaf.uuid)!, recordedLeaf);
+    }
+    const leaf = recordedLeaf ?? latest;
+
+    const main = new Set<string>();
+    for (const treeLeaf of leaves.values()) {
+      for (let m: Message | undefined = treeLeaf; m && !main.has(m.uuid); m = byUuid.get(parentOf(m) ?? '')) {
+        main.add(m.uuid);
+      }
+    }
+    for (const message of messages) {
+      const parent = parentOf(message);
+      if (toolResults.has(message.uuid) && parent && main.has(parent)) {
+        main.add(message.uuid);
+      }
+    }
+
+    const subtreeSize = (uuid: string): number => {
+      let size = 0;
+      const stack = [uuid];
+      while (stack.length > 0) {
+        const current = stack.pop()!;
+        size++;
+        for (const child of children.get(current) ?? []) stack.push(child.uuid);
+      }
+      return size;
+    };
+
+    const branchPoints: ThreadBranchPoint[] = [];
+    for (const [parent, kids] of children) {
+      const branches = kids.filter(child => !toolResults.has(child.uuid));
+      if (branches.length < 2) continue;
+
+      branchPoints.push({
+        parent_uuid: parent,
+        branches: branches.map(child => ({
+          uuid: child.uuid,
+          on_main_line: main.has(child.uuid),
+          message_count: subtreeSize(child.uuid),
+          started_at: child.timestamp,
+        })),
+      });
+    }
+    branchPoints.sort((a, b) =>
+      byUuid.get(a.parent_uuid)!.timestamp.localeCompare(byUuid.get(b.parent_uuid)!.timestamp)
+    );
+
+    return {
+      session_id: sessionId,
+      leaf_uuid: leaf?.uuid ?? null,
+      leaf_source: recordedLeaf ? 'summary' : leaf ? 'latest' : 'none',
+      messages: messages.map(message => ({
+        message,
+        parent_uuid: parentOf(message),
+        on_main_line: main.has(message.uuid),
+        depth: depth.get(message.uuid) ?? 0,
+      })),
+      roots: roots.length,
+      main_line_count: main.size,
+      dead_count: messages.length - main.size,
+      branch_points: branchPoints,
+    };
+  }
+
+  /**
+   * Get a session's messages in conversation order: only the main line, or
+   * every message including dead branches (the stored, timestamp order).
+   */
+  getMessages(sessionId: string, branch: ThreadBranchMode): Message[] {
+    if (branch === 'all') {
+      return this.messageRepo.findBySession(sessionId);
+    }
+
+    const thread = this.buildThread(sessionId);
+    return thread
+      ? thread.messages.filter(m => m.on_main_line).map(m => m.message)
+      : [];
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * Vector Filter Resolver
+ *
+ * Turns the search filters used by the tools (project, tag, date range,
+ * topic, role, branch, sub-agents) into a VectorSearchFilter the vector backends can apply in-query.
+ * Features:
+ * - Project filters resolve to the matching project paths (same rules as FTS)
+ * - Tags and branches resolve to session IDs, intersected with session_id
+ * - Excluding sub-agents excludes sidechain sessions by ID
+ * - Unknown projects/tags resolve to an empty list, which matches nothing
+ */
+
+import type { SessionRepository, TagRepository } from '../repositories/index.js';
+import type { VectorSearchFilter } from './VectorStoreBackend.js';
+import { endOfDay } from '../utils/index.js';
+
+export interface VectorFilterOptions {
+  session_id?: string;
+  project?: string;                 // Project id, path prefix (/...), or partial name/path
+  tags?: string[];                  // Sessions must have every tag
+  date_from?: string;               // Inclusive, ISO 8601
+  date_to?: string;                 // Inclusive, ISO 8601 (a date covers the whole day)
+  topic?: string;
+  role?: string;                    // Message role (only per-message documents record one)
+  branch?: string;                  // Sessions that started on or switched to this branch
+  include_subagents?: boolean;      // Include sub-agent (sidechain) sessions (default: true)
+}
+
+export class VectorFilterResolver {
+  constructor(
+    private sessionRepo: SessionRepository,
+    private tagRepo: TagRepository
+  ) {}
+
+  /**
+   * Resolve tool filters; returns undefined when nothing is filtered.
+   */
+  resolve(options: VectorFilterOptions): VectorSearchFilter | undefined {
+    const filter: VectorSearchFilter = {};
+    let sessionIds: Set<string> | null = options.session_id ? new Set([options.session_id]) : null;
+
+    for (const name of options.tags ?? []) {
+      const tag = this.tagRepo.findByName(name);
+      const tagged = tag ? this.tagRepo.getSessionIds(tag.id) : [];
+      sessionIds = sessionIds
+        ? new Set(tagged.filter(id => sessionIds!.has(id)))
+        : new Set(tagged);
+    }
+
+    if (options.branch) {
+      const onBranch = this.sessionRepo.findIdsByBranch(options.branch);
+      sessionIds = sessionIds
+        ? new Set(onBranch.filter(id => sessionIds!.has(id)))
+        : new Set(onBranch);
+    }
+
+    if (sessionIds) filter.session_ids = [...sessionIds];
+    if (options.project) filter.project_paths = this.sessionRepo.findProjectPaths(options.project);
+    if (options.date_from) filter.date_from = options.date_from;
+    if (options.date_to) filter.date_to = endOfDay(options.date_to);
+    if (options.topic) filter.topic = options.topic;
+    if (options.role) filter.role = options.role;
+
+    if (options.include_subagents === false) {
+      const sidechains = this.sessionRepo.findSidechainIds();
+      if (sidechains.length > 0) filter.exclude_session_ids = sidechains;
+    }
+
+    return Object.keys(filter).length > 0 ? filter : undefined;
+  }
+}
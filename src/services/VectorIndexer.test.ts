@@ -0,0 +1,70 @@
+import { describe, it, expect, beforeEach } from '@jest/globals';
+import { createTestDatabase } from '../__tests__/database.js';
+import { EmbeddingFailureRepository, MessageRepository, SessionRepository } from '../repositories/index.js';
+import { EmbeddingService } from './EmbeddingService.js';
+import { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
+import { SqliteVectorStore } from './SqliteVectorStore.js';
+import { VectorIndexer } from './VectorIndexer.js';
+
+describe('VectorIndexer failure ledger', () => {
+  let failing: boolean;
+  let store: SqliteVectorStore;
+  let failureRepo: EmbeddingFailureRepository;
+  let indexer: VectorIndexer;
+
+  beforeEach(async () => {
+    const db = createTestDatabase();
+    const messageRepo = new MessageRepository(db);
+    failureRepo = new EmbeddingFailureRepository(db);
+
+    new SessionRepository(db).create({ id: 's1', file_path: '/tmp/s1.jsonl', started_at: '2025-10-01T09:00:00Z' });
+    messageRepo.createMany([
+      { uuid: 'm1', session_id: 's1', role: 'user', content: 'how do I deploy the app', timestamp: '2025-10-01T10:00:00Z' },
+      { uuid: 'm2', session_id: 's1', role: 'assistant', content: 'flaky: deploy it with the script', timestamp: '2025-10-01T10:00:01Z' },
+    ]);
+
+    // Fails every text containing "flaky" until the test switches it off
+    failing = true;
+    const provider = new HashingEmbeddingProvider(16);
+    const embed = provider.embed.bind(provider);
+    provider.embed = async (text: string) => {
+      if (failing && text.includes('flaky')) throw new Error('embedding server unavailable');
+      return embed(text);
+    };
+
+    store = new SqliteVectorStore(db, new EmbeddingService(provider, { maxAttempts: 1 }));
+    await store.initialize();
+    indexer = new VectorIndexer(messageRepo, store, failureRepo);
+  });
+
+  it('records messages that still fail after retries', async () => {
+    const result = await indexer.indexAll({ minContentLength: 1 });
+
+    expect(result.errors).toBe(1);
+    expect(failureRepo.findAll(store.collectionName).map(entry => [entry.chunk_id, entry.session_id])).toEqual([
+      ['msg_m2', 's1'],
+    ]);
+  });
+
+  it('re-embeds recorded failures and clears them from the ledger', async () => {
+    await indexer.indexAll({ minContentLength: 1 });
+    failing = false;
+
+    const result = await indexer.retryFailed();
+
+    expect(result).toMatchObject({ attempted: 1, recovered: 1, stillFailing: 0, stale: 0 });
+    expect(failureRepo.count(store.collectionName)).toBe(0);
+    expect(await store.exists('msg_m2')).toBe(true);
+  });
+
+  it('drops ledger entries whose message is gone', async () => {
+    failureRepo.record(store.collectionName, [
+      { chunk_id: 'msg_deleted', session_id: 's1', error: 'timeout', attempts: 3 },
+    ]);
+
+    const result = await indexer.retryFailed();
+
+    expect(result).toMatchObject({ attempted: 1, recovered: 0, stale: 1 });
+    expect(failureRepo.count(store.collectionName)).toBe(0);
+  });
+});
@@ -2,10 +2,15 @@
  * Vector Indexer Service
  *
  * Indexes messages from SQLite into ChromaDB for semantic search.
+ * Messages that can't be embedded are recorded in the failure ledger
+ * (when an EmbeddingFailureRepository is given) and retried with retryFailed.
  */
 
-import type { MessageRepository } from '../repositories/index.js';
-import type { VectorStore, VectorDocument } from './VectorStore.js';
+import type { EmbeddingFailureRepository, MessageRepository } from '../repositories/index.js';
+import type { Message } from '../types/models.js';
+import type { VectorDocument } from './VectorStore.js';
+import type { UpsertResult, VectorStoreBackend } from './VectorStoreBackend.js';
+import type { RetryFailedOptions, RetryFailedResult } from './ChunkIndexer.js';
 
 export interface IndexingOptions {
   /** Batch size for processing */
@@ -29,6 +34,9 @@ export interface IndexingResult {
   indexed: number;
   skipped: number;
   chunks: number;
+  cacheHits: number;          // Embeddings served from the embedding cache
+  cacheMisses: number;        // Embeddings requested from the provider
+  cacheHitRate: number;       // cacheHits / (cacheHits + cacheMisses), 0 when nothing embedded
   errors: number;
   duration: number;
 }
@@ -36,7 +44,8 @@ export interface IndexingResult {
 export class VectorIndexer {
   constructor(
     private messageRepo: MessageRepository,
-    private vectorStore: VectorStore
+    private vectorStore: VectorStoreBackend,
+    private failureRepo?: EmbeddingFailureRepository
   ) {}
 
   /**
@@ -59,6 +68,9 @@ export class VectorIndexer {
       indexed: 0,
       skipped: 0,
       chunks: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      cacheHitRate: 0,
       errors: 0,
       duration: 0,
     };
@@ -104,37 +116,22 @@ export class VectorIndexer {
         }
 
         // Chunk long messages
-        const chunks = this.chunkContent(message.content, maxChunkLength);
-
-        for (let i = 0; i < chunks.length; i++) {
-          const chunkId = chunks.length > 1 ? `${docId}_${i}` : docId;
-
-          documents.push({
-            id: chunkId,
-            content: chunks[i],
-            metadata: {
-              session_id: message.session_id,
-              message_uuid: message.uuid,
-              role: message.role,
-              timestamp: message.timestamp,
-              chunk_index: chunks.length > 1 ? i : undefined,
-            },
-          });
-
-          result.chunks++;
-        }
-
+        const messageDocuments = this.toDocuments(message, maxChunkLength);
+        documents.push(...messageDocuments);
+        result.chunks += messageDocuments.length;
         result.indexed++;
       }
 
       // Add/upsert documents to vector store
       if (documents.length > 0) {
         try {
-          if (useUpsert) {
-            await this.vectorStore.upsertDocuments(documents, concurrency);
-          } else {
-            await this.vectorStore.addDocuments(documents);
-          }
+          const upsert = useUpsert
+            ? await this.vectorStore.upsertDocuments(documents, concurrency)
+            : await this.vectorStore.addDocuments(documents);
+          this.updateLedger(documents, upsert);
+          result.errors += upsert.failed.length;
+          result.cacheHits += upsert.cacheHits;
+          result.cacheMisses += upsert.cacheMisses;
         } catch (error) {
           result.errors += documents.length;
           console.error('Error indexing batch:', error);
@@ -145,6 +142,7 @@ export class VectorIndexer {
       onProgress?.(offset, result.totalMessages);
     }
 
+    result.cacheHitRate = this.hitRate(result);
     result.duration = Date.now() - startTime;
     return result;
   }
@@ -168,6 +166,9 @@ export class VectorIndexer {
       indexed: 0,
       skipped: 0,
       chunks: 0,
+      cacheHits: 0,
+      cacheMisses: 0,
+      cacheHitRate: 0,
       errors: 0,
       duration: 0,
     };
@@ -188,39 +189,26 @@ export class VectorIndexer {
         continue;
       }
 
-      const docId = `msg_${message.uuid}`;
-      const chunks = this.chunkContent(message.content, maxChunkLength);
-
-      for (let i = 0; i < chunks.length; i++) {
-        const chunkId = chunks.length > 1 ? `${docId}_${i}` : docId;
-
-        documents.push({
-          id: chunkId,
-          content: chunks[i],
-          metadata: {
-            session_id: message.session_id,
-            message_uuid: message.uuid,
-            role: message.role,
-            timestamp: message.timestamp,
-            chunk_index: chunks.length > 1 ? i : undefined,
-          },
-        });
-
-        result.chunks++;
-      }
-
+      const messageDocuments = this.toDocuments(message, maxChunkLength);
+      documents.push(...messageDocuments);
+      result.chunks += messageDocuments.length;
       result.indexed++;
     }
 
     if (documents.length > 0) {
       try {
-        await this.vectorStore.addDocuments(documents);
+        const upsert = await this.vectorStore.addDocuments(documents);
+        this.updateLedger(documents, upsert);
+        result.errors += upsert.failed.length;
+        result.cacheHits += upsert.cacheHits;
+        result.cacheMisses += upsert.cacheMisses;
       } catch (error) {
         result.errors += documents.length;
         console.error('Error indexing session:', error);
       }
     }
 
+    result.cacheHitRate = this.hitRate(result);
     result.duration = Date.now() - startTime;
     return result;
   }
@@ -236,6 +224,124 @@ export class VectorIndexer {
     return this.indexSession(sessionId, options);
   }
 
+  /**
+   * Re-embed only the documents recorded in the failure ledger.
+   * Documents are rebuilt from SQLite, so entries whose message no longer
+   * exists (or is no longer split the same way) are dropped as stale.
+   */
+  async retryFailed(
+    options: RetryFailedOptions & Pick<IndexingOptions, 'maxChunkLength'> = {}
+  ): Promise<RetryFailedResult> {
+    if (!this.failureRepo) {
+      throw new Error('retryFailed requires an EmbeddingFailureRepository');
+    }
+
+    const { concurrency = 50, onProgress, maxChunkLength = 2000 } = options;
+    const collection = this.vectorStore.collectionName;
+    const startTime = Date.now();
+    const result: RetryFailedResult = {
+      attempted: 0,
+      recovered: 0,
+      stillFailing: 0,
+      stale: 0,
+      duration: 0,
+    };
+
+    // Group ledger entries by session
+    const bySession = new Map<string, Set<string>>();
+    for (const entry of this.failureRepo.findAll(collection)) {
+      if (!bySession.has(entry.session_id)) {
+        bySession.set(entry.session_id, new Set());
+      }
+      bySession.get(entry.session_id)!.add(entry.chunk_id);
+    }
+
+    let processed = 0;
+    for (const [sessionId, documentIds] of bySession) {
+      result.attempted += documentIds.size;
+
+      const documents = this.messageRepo
+        .findBySession(sessionId)
+        .flatMap(message => this.toDocuments(message, maxChunkLength))
+        .filter(document => documentIds.has(document.id));
+
+      // Ledger entries that no longer map to a document
+      const found = new Set(documents.map(d => d.id));
+      const stale = [...documentIds].filter(id => !found.has(id));
+      result.stale += this.failureRepo.resolve(collection, stale);
+
+      if (documents.length > 0) {
+        try {
+          const upsert = await this.vectorStore.upsertDocuments(documents, concurrency);
+          this.updateLedger(documents, upsert);
+          result.recovered += upsert.upserted;
+          result.stillFailing += upsert.failed.length;
+        } catch (error) {
+          console.error(`Error upserting session ${sessionId}:`, error);
+          result.stillFailing += documents.length;
+        }
+      }
+
+      onProgress?.(++processed, bySession.size, sessionId);
+    }
+
+    result.duration = Date.now() - startTime;
+    return result;
+  }
+
+  /**
+   * Record failed documents in the ledger and clear documents that now succeeded.
+   */
+  private updateLedger(documents: VectorDocument[], upsert: UpsertResult): void {
+    if (!this.failureRepo) return;
+
+    const collection = this.vectorStore.collectionName;
+    const failedIds = new Set(upsert.failed.map(f => f.id));
+
+    this.failureRepo.record(
+      collection,
+      upsert.failed.map(f => ({
+        chunk_id: f.id,
+        session_id: f.session_id,
+        error: f.error,
+        attempts: f.attempts,
+      }))
+    );
+    this.failureRepo.resolve(
+      collection,
+      documents.map(d => d.id).filter(id => !failedIds.has(id))
+    );
+  }
+
+  /**
+   * Vector documents for a message: one per piece of its (chunked) content.
+   */
+  private toDocuments(message: Message, maxChunkLength: number): VectorDocument[] {
+    const docId = `msg_${message.uuid}`;
+    const chunks = this.chunkContent(message.content, maxChunkLength);
+
+    return chunks.map((content, i) => ({
+      id: chunks.length > 1 ? `${docId}_${i}` : docId,
+      content,
+      metadata: {
+        session_id: message.session_id,
+        message_uuid: message.uuid,
+        role: message.role,
+        timestamp: message.timestamp,
+        timestamp_epoch: Date.parse(message.timestamp) || 0,
+        chunk_index: chunks.length > 1 ? i : undefined,
+      },
+    }));
+  }
+
+  /**
+   * Share of embeddings served from the cache.
+   */
+  private hitRate(result: IndexingResult): number {
+    const embedded = result.cacheHits + result.cacheMisses;
+    return embedded > 0 ? result.cacheHits / embedded : 0;
+  }
+
   /**
    * Chunk content into smaller pieces.
    */
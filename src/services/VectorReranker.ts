@@ -0,0 +1,111 @@
+/**
+ * Vector Reranker
+ *
+ * Diversifies vector search results so a single long session can't fill
+ * every slot with near-identical chunks.
+ * Features:
+ * - Maximal marginal relevance (MMR): trades query similarity against
+ *   similarity to results already picked
+ * - Per-session cap on the number of results
+ * - Over-fetches candidates so the cap and MMR have something to choose from
+ */
+
+import type { VectorSearchResult } from './VectorStore.js';
+
+export interface VectorRerankOptions {
+  /** MMR trade-off: 1 = pure relevance, 0 = pure diversity (default: MMR off) */
+  mmr_lambda?: number;
+  /** Maximum results from a single session (default: unlimited) */
+  max_per_session?: number;
+  /** Candidates fetched before re-ranking (default: max(limit * 4, 40)) */
+  fetch_k?: number;
+}
+
+export interface RerankCandidate {
+  result: VectorSearchResult;
+  embedding: ArrayLike<number>;
+}
+
+/**
+ * Whether the options change the ranking at all.
+ */
+export function needsRerank(options?: VectorRerankOptions): options is VectorRerankOptions {
+  return options?.mmr_lambda !== undefined || (options?.max_per_session ?? 0) > 0;
+}
+
+/**
+ * Number of candidates to fetch for a re-ranked search.
+ */
+export function candidateCount(limit: number, options: VectorRerankOptions): number {
+  return Math.max(options.fetch_k ?? Math.max(limit * 4, 40), limit);
+}
+
+/**
+ * Greedily pick `limit` results from candidates sorted by similarity.
+ * Without mmr_lambda this reduces to relevance order with the session cap.
+ */
+export function rerank(
+  candidates: RerankCandidate[],
+  limit: number,
+  options: VectorRerankOptions
+): VectorSearchResult[] {
+  const lambda = Math.min(Math.max(options.mmr_lambda ?? 1, 0), 1);
+  const maxPerSession = options.max_per_session && options.max_per_session > 0
+    ? options.max_per_session
+    : Infinity;
+
+  const remaining = [...candidates];
+  const selected: RerankCandidate[] = [];
+  const perSession = new Map<string, number>();
+
+  while (selected.length < limit && remaining.length > 0) {
+    let bestIndex = -1;
+    let bestScore = -Infinity;
+
+    for (let i = 0; i < remaining.length; i++) {
+      const candidate = remaining[i];
+      if ((perSession.get(candidate.result.metadata.session_id) ?? 0) >= maxPerSession) continue;
+
+      let redundancy = 0;
+      if (lambda < 1) {
+        for (const picked of selected) {
+          redundancy = Math.max(redundancy, cosine(candidate.embedding, picked.embedding));
+        }
+      }
+
+      const score = lambda * candidate.result.similarity - (1 - lambda) * redundancy;
+      if (score > bestScore) {
+        bestScore = score;
+        bestIndex = i;
+      }
+    }
+
+    // Every remaining candidate belongs to a capped session
+    if (bestIndex === -1) break;
+
+    const [picked] = remaining.splice(bestIndex, 1);
+    const sessionId = picked.result.metadata.session_id;
+    perSession.set(sessionId, (perSession.get(sessionId) ?? 0) + 1);
+    selected.push(picked);
+  }
+
+  return selected.map(candidate => candidate.result);
+}
+
+/**
+ * Cosine similarity of two vectors (0 when either is empty or zero).
+ */
+function cosine(a: ArrayLike<number>, b: ArrayLike<number>): number {
+  if (a.length !== b.length) return 0;
+
+  let dot = 0;
+  let normA = 0;
+  let normB = 0;
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i];
+    normA += a[i] * a[i];
+    normB += b[i] * b[i];
+  }
+
+  return normA > 0 && normB > 0 ? dot / Math.sqrt(normA * normB) : 0;
+}
@@ -5,7 +5,18 @@
  */
 
 import { ChromaClient, Collection, IncludeEnum } from 'chromadb';
+import type { Where } from 'chromadb';
 import type { EmbeddingService } from './EmbeddingService.js';
+import {
+  LEGACY_EMBEDDING_SIGNATURE,
+  assertSignatureMatches,
+  signatureFromMetadata,
+  signatureToMetadata,
+} from './EmbeddingProvider.js';
+import type { EmbeddingSignature } from './EmbeddingProvider.js';
+import type { FailedEmbedding, UpsertResult, VectorSearchFilter, VectorStoreBackend } from './VectorStoreBackend.js';
+import { candidateCount, needsRerank, rerank } from './VectorReranker.js';
+import type { RerankCandidate, VectorRerankOptions } from './VectorReranker.js';
 
 export interface VectorDocument {
   id: string;
@@ -15,6 +26,7 @@ export interface VectorDocument {
     message_uuid: string;
     role: string;
     timestamp: string;
+    timestamp_epoch?: number;       // Milliseconds since epoch, for date range filters
     chunk_index?: number;
   };
 }
@@ -31,6 +43,7 @@ export interface ChunkDocument {
     sequence_number: number;
     chunk_type: string;
     timestamp: string;
+    timestamp_epoch: number;        // Milliseconds since epoch, for date range filters
     project_path: string;
     message_count: number;
     previous_chunk: string;
@@ -38,9 +51,21 @@ export interface ChunkDocument {
     topic_group: string;
     token_count: number;
     processing_date: string;
+    message_uuids: string;          // Comma-separated source message UUIDs
   };
 }
 
+/**
+ * Message UUIDs a vector document was built from: message_uuids of a chunk
+ * document, or message_uuid of a legacy per-message document.
+ */
+export function chunkMessageUuids(metadata: Record<string, unknown>): string[] {
+  if (typeof metadata.message_uuids === 'string' && metadata.message_uuids) {
+    return metadata.message_uuids.split(',');
+  }
+  return typeof metadata.message_uuid === 'string' ? [metadata.message_uuid] : [];
+}
+
 export interface VectorSearchResult {
   id: string;
   content: string;
@@ -49,10 +74,11 @@ export interface VectorSearchResult {
   similarity: number;
 }
 
-export class VectorStore {
+export class VectorStore implements VectorStoreBackend {
+  readonly backend = 'chroma' as const;
   private client: ChromaClient;
   private collection: Collection | null = null;
-  private collectionName: string;
+  readonly collectionName: string;
   private embeddingService: EmbeddingService;
 
   constructor(
@@ -69,13 +95,47 @@ export class VectorStore {
    * Initialize the collection.
    */
   async initialize(): Promise<void> {
+    const signature = await this.embeddingService.getSignature();
+    const exists = (await this.client.listCollections()).includes(this.collectionName);
+
+    // Only pass metadata on creation: get-or-create would overwrite the stored signature
     this.collection = await this.client.getOrCreateCollection({
       name: this.collectionName,
-      metadata: {
-        'hnsw:space': 'cosine',
-        description: 'Conversation messages for semantic search',
-      },
+      metadata: exists
+        ? undefined
+        : {
+            'hnsw:space': 'cosine',
+            description: 'Conversation messages for semantic search',
+            ...signatureToMetadata(signature),
+          },
     });
+
+    if (exists) {
+      await this.checkSignature(this.collection, signature);
+    }
+  }
+
+  /**
+   * Refuse to mix embeddings from different providers/models in one collection.
+   * Collections created before signatures were recorded are assumed to hold
+   * nomic-embed-text vectors, and get the signature recorded once verified.
+   */
+  private async checkSignature(collection: Collection, signature: EmbeddingSignature): Promise<void> {
+    const metadata = (collection.metadata ?? {}) as Record<string, unknown>;
+    const stored = signatureFromMetadata(metadata);
+
+    if (stored) {
+      assertSignatureMatches(this.collectionName, stored, signature);
+      return;
+    }
+
+    if ((await collection.count()) > 0) {
+      assertSignatureMatches(this.collectionName, LEGACY_EMBEDDING_SIGNATURE, signature);
+    }
+
+    // hnsw settings cannot be modified after creation
+    const { 'hnsw:space': _space, ...rest } = metadata;
+    await collection.modify({ metadata: { ...rest, ...signatureToMetadata(signature) } });
   }
 
   /**
@@ -91,79 +151,137 @@ export class VectorStore {
   /**
    * Add documents to the collection.
    */
-  async addDocuments(documents: VectorDocument[]): Promise<number> {
+  async addDocuments(documents: VectorDocument[]): Promise<UpsertResult> {
     const collection = this.getCollection();
 
-    // Generate embeddings
-    const contents = documents.map(d => d.content);
-    const embeddings = await this.embeddingService.embedBatch(contents);
+    // Generate embeddings, leaving out documents that could not be embedded
+    const { embedded, failed, cacheHits, cacheMisses } = await this.embedDocuments(documents);
+    if (embedded.length === 0) {
+      return { upserted: 0, failed, cacheHits, cacheMisses };
+    }
 
     // Add to ChromaDB
     await collection.add({
-      ids: documents.map(d => d.id),
-      embeddings: embeddings.map(e => e.embedding),
-      documents: contents,
-      metadatas: documents.map(d => d.metadata as Record<string, string | number>),
+      ids: embedded.map(e => e.document.id),
+      embeddings: embedded.map(e => e.embedding),
+      documents: embedded.map(e => e.document.content),
+      metadatas: embedded.map(e => e.document.metadata as Record<string, string | number>),
     });
 
-    return documents.length;
+    return { upserted: embedded.length, failed, cacheHits, cacheMisses };
   }
 
   /**
    * Upsert documents (add or update if exists).
    * Skips existence checks - much faster for bulk indexing.
    */
-  async upsertDocuments(documents: VectorDocument[], concurrency?: number): Promise<number> {
+  async upsertDocuments(documents: VectorDocument[], concurrency?: number): Promise<UpsertResult> {
     const collection = this.getCollection();
 
     // Generate embeddings with configurable concurrency
-    const contents = documents.map(d => d.content);
-    const embeddings = await this.embeddingService.embedBatch(contents, concurrency);
+    const { embedded, failed, cacheHits, cacheMisses } = await this.embedDocuments(documents, concurrency);
+    if (embedded.length === 0) {
+      return { upserted: 0, failed, cacheHits, cacheMisses };
+    }
 
     // Upsert to ChromaDB (add or update)
     await collection.upsert({
-      ids: documents.map(d => d.id),
-      embeddings: embeddings.map(e => e.embedding),
-      documents: contents,
-      metadatas: documents.map(d => d.metadata as Record<string, string | number>),
+      ids: embedded.map(e => e.document.id),
+      embeddings: embedded.map(e => e.embedding),
+      documents: embedded.map(e => e.document.content),
+      metadatas: embedded.map(e => e.document.metadata as Record<string, string | number>),
+    });
+
+    return { upserted: embedded.length, failed, cacheHits, cacheMisses };
+  }
+
+  /**
+   * Embed documents, splitting them into embedded and failed.
+   */
+  private async embedDocuments<T extends VectorDocument | ChunkDocument>(
+    documents: T[],
+    concurrency?: number
+  ): Promise<{
+    embedded: Array<{ document: T; embedding: number[] }>;
+    failed: FailedEmbedding[];
+    cacheHits: number;
+    cacheMisses: number;
+  }> {
+    const { results, failures, cacheHits, cacheMisses } = await this.embeddingService.embedBatch(
+      documents.map(d => d.content),
+      concurrency
+    );
+
+    const embedded: Array<{ document: T; embedding: number[] }> = [];
+    results.forEach((result, index) => {
+      if (result) {
+        embedded.push({ document: documents[index], embedding: result.embedding });
+      }
     });
 
-    return documents.length;
+    const failed = failures.map(failure => ({
+      id: documents[failure.index].id,
+      session_id: documents[failure.index].metadata.session_id,
+      error: failure.error,
+      attempts: failure.attempts,
+    }));
+
+    return { embedded, failed, cacheHits, cacheMisses };
   }
 
   /**
-   * Search for similar documents.
+   * Search for similar documents, optionally restricted by metadata filters
+   * and diversified (MMR, per-session cap).
    */
-  async search(query: string, limit: number = 10): Promise<VectorSearchResult[]> {
+  async search(
+    query: string,
+    limit: number = 10,
+    filter?: VectorSearchFilter,
+    rerankOptions?: VectorRerankOptions
+  ): Promise<VectorSearchResult[]> {
     const collection = this.getCollection();
 
+    if (filter?.session_ids?.length === 0 || filter?.project_paths?.length === 0) {
+      return [];
+    }
+    const where = filter ? this.buildWhere(filter) : undefined;
+    const reranking = needsRerank(rerankOptions);
+
     // Generate query embedding
     const { embedding } = await this.embeddingService.embed(query);
 
-    // Query ChromaDB
+    // Query ChromaDB (over-fetching with embeddings when re-ranking)
     const results = await collection.query({
       queryEmbeddings: [embedding],
-      nResults: limit,
-      include: [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances],
+      nResults: reranking ? candidateCount(limit, rerankOptions) : limit,
+      where,
+      include: reranking
+        ? [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances, IncludeEnum.Embeddings]
+        : [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances],
     });
 
     // Format results
-    const searchResults: VectorSearchResult[] = [];
+    const candidates: RerankCandidate[] = [];
 
     if (results.ids[0]) {
       for (let i = 0; i < results.ids[0].length; i++) {
         const distance = results.distances?.[0]?.[i] ?? 0;
-        searchResults.push({
-          id: results.ids[0][i],
-          content: results.documents?.[0]?.[i] ?? '',
-          metadata: results.metadatas?.[0]?.[i] as VectorDocument['metadata'],
-          distance,
-          similarity: 1 - distance, // Cosine distance to similarity
+        candidates.push({
+          result: {
+            id: results.ids[0][i],
+            content: results.documents?.[0]?.[i] ?? '',
+            metadata: results.metadatas?.[0]?.[i] as VectorDocument['metadata'],
+            distance,
+            similarity: 1 - distance, // Cosine distance to similarity
+          },
+          embedding: results.embeddings?.[0]?.[i] ?? [],
         });
       }
     }
 
-    return searchResults;
+    return reranking
+      ? rerank(candidates, limit, rerankOptions)
+      : candidates.map(candidate => candidate.result);
   }
 
   /**
@@ -174,33 +292,41 @@ export class VectorStore {
     sessionId: string,
     limit: number = 10
   ): Promise<VectorSearchResult[]> {
-    const collection = this.getCollection();
-
-    const { embedding } = await this.embeddingService.embed(query);
-
-    const results = await collection.query({
-      queryEmbeddings: [embedding],
-      nResults: limit,
-      where: { session_id: sessionId },
-      include: [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances],
-    });
+    return this.search(query, limit, { session_ids: [sessionId] });
+  }
 
-    const searchResults: VectorSearchResult[] = [];
+  /**
+   * Translate a filter into a Chroma where clause.
+   * Dates are compared against the numeric timestamp_epoch, since Chroma only
+   * supports range operators on numbers.
+   */
+  private buildWhere(filter: VectorSearchFilter): Where | undefined {
+    const clauses: Where[] = [];
 
-    if (results.ids[0]) {
-      for (let i = 0; i < results.ids[0].length; i++) {
-        const distance = results.distances?.[0]?.[i] ?? 0;
-        searchResults.push({
-          id: results.ids[0][i],
-          content: results.documents?.[0]?.[i] ?? '',
-          metadata: results.metadatas?.[0]?.[i] as VectorDocument['metadata'],
-          distance,
-          similarity: 1 - distance,
-        });
-      }
+    if (filter.session_ids) {
+      clauses.push({ session_id: { $in: filter.session_ids } });
+    }
+    if (filter.exclude_session_ids?.length) {
+      clauses.push({ session_id: { $nin: filter.exclude_session_ids } });
+    }
+    if (filter.project_paths) {
+      clauses.push({ project_path: { $in: filter.project_paths } });
+    }
+    if (filter.date_from) {
+      clauses.push({ timestamp_epoch: { $gte: toEpoch(filter.date_from) } });
+    }
+    if (filter.date_to) {
+      clauses.push({ timestamp_epoch: { $lte: toEpoch(filter.date_to) } });
+    }
+    if (filter.topic) {
+      clauses.push({ topic_group: filter.topic });
+    }
+    if (filter.role) {
+      clauses.push({ role: filter.role });
     }
 
-    return searchResults;
+    if (clauses.length === 0) return undefined;
+    return clauses.length === 1 ? clauses[0] : { $and: clauses };
   }
 
   /**
@@ -256,30 +382,26 @@ export class VectorStore {
    * Upsert chunk documents (message pairs with rich metadata).
    * Sub-batches upserts to avoid ChromaDB payload limits.
    */
-  async upsertChunks(chunks: ChunkDocument[], concurrency?: number): Promise<number> {
+  async upsertChunks(chunks: ChunkDocument[], concurrency?: number): Promise<UpsertResult> {
     const collection = this.getCollection();
     const UPSERT_BATCH_SIZE = 50; // ChromaDB payload limit safe size
 
-    // Generate embeddings
-    const contents = chunks.map(c => c.content);
-    const embeddings = await this.embeddingService.embedBatch(contents, concurrency);
+    // Generate embeddings, leaving out chunks that could not be embedded
+    const { embedded, failed, cacheHits, cacheMisses } = await this.embedDocuments(chunks, concurrency);
 
     // Upsert to ChromaDB in sub-batches to avoid payload limits
-    for (let i = 0; i < chunks.length; i += UPSERT_BATCH_SIZE) {
-      const end = Math.min(i + UPSERT_BATCH_SIZE, chunks.length);
-      const batchChunks = chunks.slice(i, end);
-      const batchEmbeddings = embeddings.slice(i, end);
-      const batchContents = contents.slice(i, end);
+    for (let i = 0; i < embedded.length; i += UPSERT_BATCH_SIZE) {
+      const batch = embedded.slice(i, i + UPSERT_BATCH_SIZE);
 
       await collection.upsert({
-        ids: batchChunks.map(c => c.id),
-        embeddings: batchEmbeddings.map(e => e.embedding),
-        documents: batchContents,
-        metadatas: batchChunks.map(c => c.metadata as Record<string, string | number>),
+        ids: batch.map(e => e.document.id),
+        embeddings: batch.map(e => e.embedding),
+        documents: batch.map(e => e.document.content),
+        metadatas: batch.map(e => e.document.metadata as Record<string, string | number>),
       });
     }
 
-    return chunks.length;
+    return { upserted: embedded.length, failed, cacheHits, cacheMisses };
   }
 
   /**
@@ -290,33 +412,7 @@ export class VectorStore {
     topic: string,
     limit: number = 10
   ): Promise<VectorSearchResult[]> {
-    const collection = this.getCollection();
-
-    const { embedding } = await this.embeddingService.embed(query);
-
-    const results = await collection.query({
-      queryEmbeddings: [embedding],
-      nResults: limit,
-      where: { topic_group: topic },
-      include: [IncludeEnum.Documents, IncludeEnum.Metadatas, IncludeEnum.Distances],
-    });
-
-    const searchResults: VectorSearchResult[] = [];
-
-    if (results.ids[0]) {
-      for (let i = 0; i < results.ids[0].length; i++) {
-        const distance = results.distances?.[0]?.[i] ?? 0;
-        searchResults.push({
-          id: results.ids[0][i],
-          content: results.documents?.[0]?.[i] ?? '',
-          metadata: results.metadatas?.[0]?.[i] as VectorDocument['metadata'],
-          distance,
-          similarity: 1 - distance,
-        });
-      }
-    }
-
-    return searchResults;
+    return this.search(query, limit, { topic });
   }
 
   /**
@@ -390,6 +486,13 @@ export class VectorStore {
     return { chunk, previous, next };
   }
 
+  /**
+   * Signature of the embeddings this store writes.
+   */
+  async getEmbeddingSignature(): Promise<EmbeddingSignature> {
+    return this.embeddingService.getSignature();
+  }
+
   /**
    * Delete the entire collection (for fresh reindexing).
    */
@@ -402,3 +505,14 @@ export class VectorStore {
     }
   }
 }
+
+/**
+ * Parse an ISO 8601 date for a timestamp_epoch comparison.
+ */
+function toEpoch(value: string): number {
+  const epoch = Date.parse(value);
+  if (Number.isNaN(epoch)) {
+    throw new Error(`Invalid date: ${value}`);
+  }
+  return epoch;
+}
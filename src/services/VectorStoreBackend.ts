@@ -0,0 +1,120 @@
+/**
+ * Vector Store Backend
+ *
+ * Common interface for vector storage so indexers and tools can run against
+ * either a ChromaDB server or the embedded SQLite store.
+ *
+ * Select a backend with VECTOR_BACKEND=chroma|sqlite (default: chroma).
+ */
+
+import type { DatabaseConnection } from '../database/index.js';
+import type { EmbeddingService } from './EmbeddingService.js';
+import type { EmbeddingSignature } from './EmbeddingProvider.js';
+import { VectorStore } from './VectorStore.js';
+import type { ChunkDocument, VectorDocument, VectorSearchResult } from './VectorStore.js';
+import { SqliteVectorStore } from './SqliteVectorStore.js';
+import type { VectorRerankOptions } from './VectorReranker.js';
+
+export type VectorBackendType = 'chroma' | 'sqlite';
+
+export const VECTOR_BACKENDS: readonly VectorBackendType[] = ['chroma', 'sqlite'];
+
+/**
+ * A document that was left out of an upsert because it could not be embedded.
+ */
+export interface FailedEmbedding {
+  id: string;
+  session_id: string;
+  error: string;
+  attempts: number;
+}
+
+export interface UpsertResult {
+  upserted: number;                   // Documents written
+  failed: FailedEmbedding[];          // Documents skipped after embedding retries
+  cacheHits: number;                  // Embeddings served from the embedding cache
+  cacheMisses: number;                // Embeddings requested from the provider
+}
+
+/**
+ * Metadata filters applied inside the vector query.
+ * An empty list matches nothing (e.g. a tag with no sessions).
+ */
+export interface VectorSearchFilter {
+  session_ids?: string[];             // Any of these sessions
+  exclude_session_ids?: string[];     // None of these sessions (e.g. sub-agent sessions)
+  project_paths?: string[];           // Any of these exact project paths
+  date_from?: string;                 // Inclusive, compared against chunk timestamp
+  date_to?: string;                   // Inclusive, compared against chunk timestamp
+  topic?: string;                     // Exact topic_group
+  role?: string;                      // Exact role (per-message documents; chunks record none)
+}
+
+export interface VectorStoreBackend {
+  /** Which backend implements this store */
+  readonly backend: VectorBackendType;
+  /** Collection holding the vectors */
+  readonly collectionName: string;
+
+  initialize(): Promise<void>;
+  addDocuments(documents: VectorDocument[]): Promise<UpsertResult>;
+  upsertDocuments(documents: VectorDocument[], concurrency?: number): Promise<UpsertResult>;
+  upsertChunks(chunks: ChunkDocument[], concurrency?: number): Promise<UpsertResult>;
+  search(
+    query: string,
+    limit?: number,
+    filter?: VectorSearchFilter,
+    rerank?: VectorRerankOptions
+  ): Promise<VectorSearchResult[]>;
+  searchInSession(query: string, sessionId: string, limit?: number): Promise<VectorSearchResult[]>;
+  searchByTopic(query: string, topic: string, limit?: number): Promise<VectorSearchResult[]>;
+  getChunkWithContext(chunkId: string): Promise<{
+    chunk: VectorSearchResult | null;
+    previous: VectorSearchResult | null;
+    next: VectorSearchResult | null;
+  }>;
+  deleteBySession(sessionId: string): Promise<void>;
+  exists(id: string): Promise<boolean>;
+  getStats(): Promise<{ count: number; name: string }>;
+  healthCheck(): Promise<{ available: boolean; error?: string }>;
+  /** Signature of the embeddings this store writes */
+  getEmbeddingSignature(): Promise<EmbeddingSignature>;
+  deleteCollection(): Promise<void>;
+}
+
+export interface VectorStoreConfig {
+  backend: VectorBackendType;
+  embeddingService: EmbeddingService;
+  collectionName?: string;
+  /** ChromaDB URL (chroma backend) */
+  chromaHost?: string;
+  /** Database holding the vector tables (sqlite backend) */
+  db?: DatabaseConnection;
+}
+
+/**
+ * Parse a backend name, throwing on unknown values.
+ */
+export function parseVectorBackend(value: string | undefined): VectorBackendType {
+  const backend = (value ?? 'chroma').toLowerCase();
+  if (!(VECTOR_BACKENDS as readonly string[]).includes(backend)) {
+    throw new Error(`Unknown vector backend "${value}". Expected one of: ${VECTOR_BACKENDS.join(', ')}`);
+  }
+  return backend as VectorBackendType;
+}
+
+/**
+ * Create a vector store for the configured backend.
+ */
+export function createVectorStore(config: VectorStoreConfig): VectorStoreBackend {
+  const collectionName = config.collectionName ?? 'conversation_messages';
+
+  if (config.backend === 'sqlite') {
+    if (!config.db) {
+      throw new Error('The sqlite vector backend requires a database connection');
+    }
+    return new SqliteVectorStore(config.db, config.embeddingService, collectionName);
+  }
+
+  return new VectorStore(config.embeddingService, collectionName, config.chromaHost);
+}
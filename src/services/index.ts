@@ -3,24 +3,98 @@
  */
 
 export { JsonlParser } from './JsonlParser.js';
-export type { ParsedSession, ParsedMessage } from './JsonlParser.js';
+export type { ParsedSession, ParsedMessage, ParsedToolCall, ParsedSessionLink, ParseOptions } from './JsonlParser.js';
 
-export { ImportService } from './ImportService.js';
+export { ImportService, findJsonlFiles } from './ImportService.js';
 export type { ImportOptions, ImportResult } from './ImportService.js';
 
+export { ImportWorkerPool } from './ImportWorkerPool.js';
+export type { WorkerParseRequest, WorkerParseResult } from './ImportWorkerPool.js';
+
+export { ImportWatcher } from './ImportWatcher.js';
+export type { ImportWatcherOptions } from './ImportWatcher.js';
+
 export { EmbeddingService } from './EmbeddingService.js';
-export type { EmbeddingResult } from './EmbeddingService.js';
+export type {
+  EmbeddingResult,
+  EmbeddingFailure,
+  EmbeddingBatchResult,
+  EmbeddingRetryOptions,
+} from './EmbeddingService.js';
+
+export {
+  createEmbeddingProvider,
+  embeddingConfigFromEnv,
+  parseEmbeddingProvider,
+  EmbeddingMismatchError,
+  EMBEDDING_PROVIDERS,
+  LEGACY_EMBEDDING_SIGNATURE,
+} from './EmbeddingProvider.js';
+export type {
+  EmbeddingProvider,
+  EmbeddingProviderType,
+  EmbeddingProviderConfig,
+  EmbeddingSignature,
+  EmbeddingHealth,
+} from './EmbeddingProvider.js';
+export { OllamaEmbeddingProvider } from './OllamaEmbeddingProvider.js';
+export { OpenAIEmbeddingProvider } from './OpenAIEmbeddingProvider.js';
+export { HashingEmbeddingProvider } from './HashingEmbeddingProvider.js';
 
-export { VectorStore } from './VectorStore.js';
+export { VectorStore, chunkMessageUuids } from './VectorStore.js';
 export type { VectorDocument, VectorSearchResult } from './VectorStore.js';
 
+export { SqliteVectorStore } from './SqliteVectorStore.js';
+
+export { createVectorStore, parseVectorBackend, VECTOR_BACKENDS } from './VectorStoreBackend.js';
+export type {
+  VectorStoreBackend,
+  VectorBackendType,
+  VectorStoreConfig,
+  UpsertResult,
+  FailedEmbedding,
+  VectorSearchFilter,
+} from './VectorStoreBackend.js';
+
 export { VectorIndexer } from './VectorIndexer.js';
 export type { IndexingOptions, IndexingResult } from './VectorIndexer.js';
 
-export { ChunkManager } from './ChunkManager.js';
+export { ChunkManager, CHUNKER_VERSION } from './ChunkManager.js';
 export type { ConversationChunk } from './ChunkManager.js';
 
 export { ChunkIndexer } from './ChunkIndexer.js';
-export type { ChunkIndexingOptions, ChunkIndexingResult } from './ChunkIndexer.js';
+export type {
+  ChunkIndexingOptions,
+  ChunkIndexingResult,
+  RetryFailedOptions,
+  RetryFailedResult,
+} from './ChunkIndexer.js';
+
+export { rerank, needsRerank } from './VectorReranker.js';
+export type { VectorRerankOptions, RerankCandidate } from './VectorReranker.js';
+
+export { VectorFilterResolver } from './VectorFilterResolver.js';
+export type { VectorFilterOptions } from './VectorFilterResolver.js';
+
+export { HybridSearchService } from './HybridSearchService.js';
+export type { HybridSearchOptions, HybridSearchResult, HybridSearchResponse } from './HybridSearchService.js';
+
+export { ChunkContextService, MAX_CONTEXT_STEPS } from './ChunkContextService.js';
+export type { ChunkContext, ChunkContextChunk, ChunkContextTurn } from './ChunkContextService.js';
+
+export { ThreadingService } from './ThreadingService.js';
+export type {
+  ThreadBranchMode,
+  ThreadMessage,
+  ThreadBranch,
+  ThreadBranchPoint,
+  SessionThread,
+} from './ThreadingService.js';
+
+export { SessionChainService } from './SessionChainService.js';
+export type { SessionChain, SessionChainSegment } from './SessionChainService.js';
+
+export { ReconcileService } from './ReconcileService.js';
+export type { ReconcileOptions, ReconcileResult } from './ReconcileService.js';
 
 export type { ChunkDocument } from './VectorStore.js';
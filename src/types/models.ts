@@ -49,6 +49,23 @@ export interface Session {
   is_title_auto_generated: boolean;
   is_stub: boolean;                 // True if created via hook before full import
 
+  // Client metadata
+  git_branch: string | null;        // Branch when the session started
+  client_version: string | null;    // Claude Code version that wrote the session
+  is_sidechain: boolean;            // True for sub-agent sessions
+
+  // Sub-agent sessions
+  parent_session_id: string | null; // Session that spawned this sub-agent
+  agent_id: string | null;          // Sub-agent id from the JSONL
+  parent_tool_use_id: string | null; // Task/Agent tool call that spawned it
+
+  // Threading
+  leaf_uuid: string | null;         // Last message of the main line (from the JSONL)
+
+  // Source file
+  source_missing: boolean;          // True if file_path no longer exists (history is kept)
+  source_missing_at: string | null; // When the file was first found missing
+
   // Timestamps
   created_at: string;               // When indexed
   updated_at: string;               // Last modification
@@ -66,12 +83,16 @@ export interface Message {
   // Content
   role: 'user' | 'assistant' | 'system' | 'unknown';
   content: string;
+  thinking: string | null;          // Assistant thinking, kept out of content
 
   // Metadata
   timestamp: string;                // ISO 8601 timestamp
   model: string | null;             // e.g., 'claude-sonnet-4-5-...'
   parent_uuid: string | null;       // For conversation threading
   message_type: string | null;      // Original type from JSONL
+  git_branch: string | null;        // Branch checked out when the message was written
+  is_sidechain: boolean;            // True for sub-agent (Task) traffic
+  agent_id: string | null;          // Sub-agent id for sidechain messages
 
   // Denormalized fields
   cwd: string | null;
@@ -84,6 +105,88 @@ export interface Message {
   created_at: string;
 }
 
+/**
+ * A tool invocation (tool_use block) paired with its tool_result.
+ */
+export interface ToolCall {
+  id: number;                       // Auto-increment primary key
+  tool_use_id: string;              // Claude's tool_use id
+  session_id: string;               // FK to sessions.id
+  message_uuid: string;             // Assistant message containing the tool_use
+  tool_name: string;                // e.g. 'Bash', 'Edit'
+  input: string;                    // JSON tool input
+  timestamp: string;                // ISO 8601 timestamp of the tool_use
+  result_message_uuid: string | null;
+  result: string | null;            // null until the tool_result is seen
+  is_error: boolean;
+  created_at: string;
+}
+
+/**
+ * What a session did to a file.
+ */
+export type FileOperation = 'read' | 'edit' | 'write' | 'create';
+
+/**
+ * A file touched by a session, aggregated per operation.
+ */
+export interface SessionFile {
+  id: number;                       // Auto-increment primary key
+  session_id: string;               // FK to sessions.id
+  file_path: string;                // Path as given to the tool
+  operation: FileOperation;
+  count: number;                    // Number of tool calls with this operation
+  first_seen_at: string;            // ISO 8601 timestamp
+  last_seen_at: string;             // ISO 8601 timestamp
+}
+
+/**
+ * How a session came to continue another one.
+ * - summary: its summary line points at a leaf in the earlier session (resume)
+ * - resume: its first message's parent is a message in the earlier session
+ * - compaction: a compact boundary points at the message before the compaction
+ */
+export type SessionLinkType = 'summary' | 'resume' | 'compaction';
+
+/**
+ * A session continuing an earlier one. The earlier session is resolved from
+ * target_uuid once the file holding that message has been imported.
+ */
+export interface SessionLink {
+  id: number;                       // Auto-increment primary key
+  session_id: string;               // FK to sessions.id (the continuing session)
+  target_uuid: string;              // Message in the earlier session it continues from
+  continued_from_session_id: string | null;  // null until the earlier session is imported
+  link_type: SessionLinkType;
+  created_at: string;
+}
+
+/**
+ * The other side of a session link, as shown on a session.
+ */
+export interface LinkedSession {
+  session_id: string | null;        // null while the earlier session isn't imported
+  title: string | null;
+  started_at: string | null;
+  ended_at: string | null;
+  link_type: SessionLinkType;
+  target_uuid: string;              // Message the later session continues from
+}
+
+/**
+ * How far a JSONL file has been imported. Files that grew are resumed from
+ * byte_offset; unchanged files (same size and mtime) are skipped.
+ */
+export interface ImportFileState {
+  file_path: string;                // Primary key
+  session_id: string | null;        // FK to sessions.id; null if the file had no messages yet
+  size: number;                     // File size in bytes when last imported
+  mtime_ms: number;                 // Modification time when last imported
+  byte_offset: number;              // End of the last complete line imported
+  line_count: number;               // Lines read up to byte_offset
+  imported_at: string;
+}
+
 /**
  * A tag for organizing sessions.
  */
@@ -113,9 +216,10 @@ export interface SessionTag {
  * This is what we parse from the source files.
  */
 export interface RawJsonlMessage {
-  type: 'user' | 'assistant' | 'system' | 'file-history-snapshot' | 'summary';
+  type: 'user' | 'assistant' | 'system' | 'file-history-snapshot' | 'summary' | 'last-prompt';
   uuid?: string;
   parentUuid?: string | null;
+  logicalParentUuid?: string | null; // Compact boundaries: message before the compaction
   sessionId?: string;
   timestamp?: string;
   cwd?: string;
@@ -125,9 +229,9 @@ export interface RawJsonlMessage {
   isMeta?: boolean;
   agentId?: string;
 
-  // Summary line (first line of file)
+  // Summary line (first line of file) and last-prompt lines
   summary?: string;
-  leafUuid?: string;
+  leafUuid?: string;                // Last message of the conversation's main line
 
   // Message content varies by type
   message?: {
@@ -149,7 +253,12 @@ export interface ContentBlock {
   thinking?: string;
   name?: string;
   input?: Record<string, unknown>;
-  content?: string;
+  content?: string | Array<string | { type?: string; text?: string }>;
+
+  // tool_use / tool_result pairing
+  id?: string;                      // tool_use id
+  tool_use_id?: string;             // tool_result: id of the tool_use it answers
+  is_error?: boolean;               // tool_result: tool reported an error
 }
 
 // ============================================
@@ -160,14 +269,19 @@ export interface ContentBlock {
  * Options for searching conversations.
  */
 export interface SearchOptions {
-  query: string;
+  query: string;                    // Structured query (see utils/QueryParser)
   role?: 'user' | 'assistant' | 'system';
   limit?: number;
   offset?: number;
-  project?: string;
+  project?: string;                 // Project id, path prefix (/...), or partial name/path
   tag?: string;
-  date_from?: string;
-  date_to?: string;
+  date_from?: string;               // Inclusive, compared against message timestamp
+  date_to?: string;                 // Inclusive, compared against message timestamp
+  session_id?: string;
+  model?: string;                   // Partial match on model name
+  branch?: string;                  // Git branch the message was written on
+  include_subagents?: boolean;      // Include sub-agent (sidechain) messages (default: true)
+  include_thinking?: boolean;       // Also match thinking text (default: false)
 }
 
 /**
@@ -178,6 +292,99 @@ export interface SearchResult {
   matching_content: string;         // Snippet of matching text
   match_count: number;              // Number of matches in session
   relevance_score?: number;         // FTS or vector similarity score
+  matched_in?: SearchChannel;       // Where the best hit matched
+}
+
+/**
+ * Which text of a message a full-text hit matched.
+ */
+export type SearchChannel = 'content' | 'thinking';
+
+/**
+ * One page of search results with totals for the whole result set.
+ */
+export interface SearchPage<T> {
+  results: T[];
+  total_hits: number;               // Matching messages across all pages
+  total_sessions: number;           // Sessions with at least one matching message
+  offset: number;
+  limit: number;
+  has_more: boolean;
+  next_offset: number | null;       // Offset of the next page, null on the last page
+}
+
+/**
+ * Options for message-granularity search.
+ */
+export interface MessageSearchOptions extends SearchOptions {
+  context?: number;                 // Messages to include before and after each hit
+}
+
+/**
+ * A single matching message, optionally with its surrounding turns.
+ */
+export interface MessageSearchResult {
+  message_uuid: string;
+  session_id: string;
+  session_title: string | null;
+  project_path: string | null;
+  role: Message['role'];
+  timestamp: string;
+  snippet: string;                  // Snippet of matching text
+  relevance_score: number;          // bm25 score (higher is better)
+  matched_in: SearchChannel;
+  context_before?: Message[];       // Preceding messages, oldest first
+  context_after?: Message[];        // Following messages, oldest first
+}
+
+/**
+ * Options for searching tool calls.
+ */
+export interface ToolCallSearchOptions {
+  tool_name?: string;               // Exact tool name (case-insensitive)
+  input?: Record<string, string>;   // Input field (JSON path, e.g. 'command') -> substring
+  input_contains?: string;          // Substring anywhere in the JSON input
+  session_id?: string;
+  project?: string;                 // Project id, path prefix (/...), or partial name/path
+  is_error?: boolean;
+  date_from?: string;               // Inclusive, compared against tool_use timestamp
+  date_to?: string;                 // Inclusive, compared against tool_use timestamp
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A matching tool call with its session context.
+ */
+export interface ToolCallSearchResult extends ToolCall {
+  session_title: string | null;
+  project_path: string | null;
+}
+
+/**
+ * Options for finding sessions that touched a file.
+ */
+export interface SessionFileSearchOptions {
+  file_path: string;                // Absolute path/directory prefix, or path suffix (e.g. 'src/index.ts')
+  operations?: FileOperation[];     // Only these operations (default: all)
+  project?: string;                 // Project id, path prefix (/...), or partial name/path
+  limit?: number;
+  offset?: number;
+}
+
+/**
+ * A session that touched a matching file.
+ */
+export interface SessionFileSearchResult {
+  session_id: string;
+  session_title: string | null;
+  project_path: string | null;
+  started_at: string;
+  file_paths: string[];             // Matching paths touched by the session
+  operations: FileOperation[];
+  count: number;                    // Total matching tool calls
+  first_seen_at: string;
+  last_seen_at: string;
 }
 
 /**
@@ -213,24 +420,42 @@ export interface IndexingStats {
 }
 
 /**
- * Result of an import operation.
+ * Status of an import run. Runs left 'running' were interrupted.
+ */
+export type ImportRunStatus = 'running' | 'completed' | 'failed';
+
+/**
+ * A recorded import run (CLI import, watch mode batch, ...).
  */
-export interface ImportResult {
-  source_path: string;
+export interface ImportRun {
+  id: number;                       // Auto-increment primary key
+  trigger: string;                  // What started it: 'import', 'watch'
+  source_dirs: string[];
+  skip_existing: boolean;           // false for full re-imports
+  status: ImportRunStatus;
+  started_at: string;
+  finished_at: string | null;
+  duration_ms: number | null;
   files_found: number;
-  files_processed: number;
-  sessions_created: number;
-  sessions_updated: number;
-  messages_created: number;
-  messages_skipped: number;         // Duplicates
-  errors: ImportError[];
-  duration_ms: number;
+  files_imported: number;
+  files_skipped: number;
+  files_failed: number;
+  messages_imported: number;
+  sessions_changed: number;
+  line_errors: number;              // Lines skipped as malformed
+  error: string | null;             // Why the run itself failed
 }
 
+/**
+ * A file or line that failed to import during a run.
+ */
 export interface ImportError {
+  id: number;                       // Auto-increment primary key
+  run_id: number;                   // FK to import_runs.id
   file_path: string;
+  line_number: number | null;       // null when the whole file failed
   error: string;
-  line_number?: number;
+  created_at: string;
 }
 
 // ============================================
@@ -268,3 +493,31 @@ export interface VectorSearchOptions extends SearchOptions {
   semantic_weight?: number;         // 0-1, weight for vector vs FTS
   include_adjacent?: boolean;       // Include surrounding context
 }
+
+/**
+ * A chunk that could not be embedded (embedding_failures ledger).
+ */
+export interface EmbeddingFailureRecord {
+  collection: string;
+  chunk_id: string;
+  session_id: string;
+  error: string;                    // Last error message
+  attempts: number;                 // Total attempts across all runs
+  first_failed_at: string;
+  last_failed_at: string;
+}
+
+/**
+ * Per-session vector indexing state (chunk_index_state).
+ */
+export interface ChunkIndexState {
+  collection: string;
+  session_id: string;
+  message_count: number;
+  last_message_id: number | null;
+  content_hash: string;             // SHA-256 of embedded chunk contents
+  chunker_version: number;
+  embedding_model: string;          // provider/model/dimensions
+  chunk_count: number;
+  indexed_at: string;
+}
@@ -0,0 +1,158 @@
+import { describe, it, expect } from '@jest/globals';
+import { parseSearchQuery, QuerySyntaxError } from './QueryParser.js';
+
+/**
+ * Position (0-based) reported by the QuerySyntaxError a query throws.
+ */
+function errorPosition(query: string): number {
+  try {
+    parseSearchQuery(query);
+  } catch (error) {
+    expect(error).toBeInstanceOf(QuerySyntaxError);
+    return (error as QuerySyntaxError).position;
+  }
+  throw new Error(`Expected "${query}" to be rejected`);
+}
+
+describe('parseSearchQuery', () => {
+  describe('terms', () => {
+    it('ANDs bare terms as quoted FTS strings', () => {
+      const parsed = parseSearchQuery('race condition');
+      expect(parsed.fts).toBe('"race" AND "condition"');
+      expect(parsed.terms).toEqual(['race', 'condition']);
+      expect(parsed.excluded).toEqual([]);
+    });
+
+    it('keeps a trailing * as a prefix match', () => {
+      const parsed = parseSearchQuery('migrat*');
+      expect(parsed.fts).toBe('"migrat"*');
+      expect(parsed.terms).toEqual(['migrat*']);
+    });
+
+    it('escapes quotes and FTS operators inside terms', () => {
+      expect(parseSearchQuery('AND NEAR').fts).toBe('"AND" AND "NEAR"');
+      expect(parseSearchQuery('it\'s').fts).toBe('"it\'s"');
+    });
+
+    it('treats a path as a term, not a filter', () => {
+      expect(parseSearchQuery('src/index.ts').fts).toBe('"src/index.ts"');
+    });
+
+    it('treats words with a colon as terms unless they name a filter', () => {
+      expect(parseSearchQuery('TypeError: undefined').fts).toBe('"TypeError:" AND "undefined"');
+      expect(parseSearchQuery('localhost:3000').fts).toBe('"localhost:3000"');
+      expect(parseSearchQuery('https://example.com').fts).toBe('"https://example.com"');
+      expect(parseSearchQuery('colour:red').filters).toEqual({ tags: [] });
+    });
+  });
+
+  describe('phrases', () => {
+    it('matches quoted text as one phrase', () => {
+      const parsed = parseSearchQuery('"race condition" docker');
+      expect(parsed.fts).toBe('"race condition" AND "docker"');
+      expect(parsed.terms).toEqual(['"race condition"', 'docker']);
+    });
+  });
+
+  describe('OR', () => {
+    it('groups alternatives and ANDs them with the other terms', () => {
+      expect(parseSearchQuery('sqlite OR postgres migration').fts)
+        .toBe('("sqlite" OR "postgres") AND "migration"');
+    });
+
+    it('chains several alternatives', () => {
+      expect(parseSearchQuery('a OR b OR "c d"').fts).toBe('("a" OR "b" OR "c d")');
+    });
+
+    it('only treats uppercase OR as the operator', () => {
+      expect(parseSearchQuery('this or that').fts).toBe('"this" AND "or" AND "that"');
+    });
+  });
+
+  describe('exclusions', () => {
+    it('appends excluded terms and phrases with NOT', () => {
+      const parsed = parseSearchQuery('deploy -docker -"blue green"');
+      expect(parsed.fts).toBe('"deploy" NOT "docker" NOT "blue green"');
+      expect(parsed.terms).toEqual(['deploy']);
+      expect(parsed.excluded).toEqual(['docker', '"blue green"']);
+    });
+
+    it('leaves excluded terms and filters out of the plain text', () => {
+      expect(parseSearchQuery('a OR b* "c d" -e tag:x').text).toBe('a b c d');
+    });
+
+    it('keeps a lone dash as a term', () => {
+      expect(parseSearchQuery('a - b').fts).toBe('"a" AND "-" AND "b"');
+    });
+  });
+
+  describe('filters', () => {
+    it('extracts every supported filter', () => {
+      const parsed = parseSearchQuery(
+        'bug project:catzen tag:Urgent tag:"follow up" role:User after:2025-10-01 ' +
+        'before:2025-10-31T12:00:00Z model:opus branch:feature/x'
+      );
+      expect(parsed.fts).toBe('"bug"');
+      expect(parsed.filters).toEqual({
+        project: 'catzen',
+        tags: ['urgent', 'follow up'],
+        role: 'user',
+        after: '2025-10-01',
+        before: '2025-10-31T12:00:00Z',
+        model: 'opus',
+        branch: 'feature/x',
+      });
+    });
+
+    it('accepts filters in any position and case', () => {
+      expect(parseSearchQuery('PROJECT:foo bar').filters.project).toBe('foo');
+    });
+
+    it('accepts a path prefix as project', () => {
+      expect(parseSearchQuery('bug project:/Users/me/app').filters.project).toBe('/Users/me/app');
+    });
+  });
+
+  describe('errors', () => {
+    it('reports where the problem is', () => {
+      expect(() => parseSearchQuery('foo "bar')).toThrow('Invalid search query at position 5: unterminated quote');
+    });
+
+    it('rejects misplaced OR', () => {
+      expect(errorPosition('OR foo')).toBe(0);
+      expect(errorPosition('foo OR')).toBe(4);
+      expect(errorPosition('foo OR OR bar')).toBe(7);
+      expect(errorPosition('foo OR -bar')).toBe(4);
+      expect(errorPosition('foo OR tag:x')).toBe(4);
+    });
+
+    it('rejects queries without a positive term', () => {
+      expect(() => parseSearchQuery('')).toThrow('at least one search term');
+      expect(() => parseSearchQuery('tag:bug')).toThrow('browse_sessions');
+      expect(() => parseSearchQuery('-docker')).toThrow('excluded terms alone');
+    });
+
+    it('rejects unknown, empty, repeated and negated filters', () => {
+      expect(() => parseSearchQuery('foo colour:"dark red"')).toThrow('unknown filter "colour:"');
+      expect(errorPosition('foo colour:"dark red"')).toBe(4);
+      expect(() => parseSearchQuery('foo role:')).toThrow('missing value for filter "role:"');
+      expect(() => parseSearchQuery('foo role:user role:assistant')).toThrow('can only be used once');
+      expect(errorPosition('foo role:user role:assistant')).toBe(14);
+      expect(() => parseSearchQuery('foo -tag:bug')).toThrow('cannot be negated');
+    });
+
+    it('validates filter values', () => {
+      expect(() => parseSearchQuery('foo role:robot')).toThrow('invalid role "robot"');
+      expect(() => parseSearchQuery('foo role:system')).toThrow('Expected one of: user, assistant');
+      expect(() => parseSearchQuery('foo after:yesterday')).toThrow('invalid date "yesterday"');
+      expect(() => parseSearchQuery('foo before:2025-13-45')).toThrow('invalid date');
+    });
+
+    it('rejects misplaced quotes and wildcards', () => {
+      expect(errorPosition('foo ""')).toBe(4);
+      expect(errorPosition('ab"cd"')).toBe(2);
+      expect(errorPosition('fo*o')).toBe(0);
+      expect(errorPosition('*')).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,298 @@
+/**
+ * Search Query Parser
+ *
+ * Parses the structured query language accepted by search_conversations:
+ *
+ *   project:catzen tag:bug role:user after:2025-10-01 "race condition" -docker
+ *
+ * Grammar:
+ * - word              Term that must appear (terms are ANDed together)
+ * - word*             Prefix match
+ * - "some phrase"     Exact phrase
+ * - -word, -"phrase"  Exclude messages containing the term or phrase
+ * - a OR b            Either term may appear
+ * - field:value       Filter (project, tag, role, after, before, model, branch);
+ *                     values containing spaces can be quoted: tag:"follow up".
+ *                     Other words with a colon (localhost:3000) are terms
+ *
+ * Free text is compiled into an FTS5 MATCH expression; filters become SQL
+ * predicates applied by MessageRepository.search.
+ */
+
+export const QUERY_FIELDS = ['project', 'tag', 'role', 'after', 'before', 'model', 'branch'] as const;
+
+export type QueryField = typeof QUERY_FIELDS[number];
+
+const ROLES = ['user', 'assistant'] as const;
+
+export interface QueryFilters {
+  project?: string;                   // Project id, path prefix (/...), or partial name/path
+  tags: string[];                     // All listed tags must be present
+  role?: typeof ROLES[number];
+  after?: string;                     // Inclusive lower bound on message timestamp
+  before?: string;                    // Inclusive upper bound (a date covers the whole day)
+  model?: string;                     // Partial match on model name
+  branch?: string;                    // Git branch the message was written on
+}
+
+export interface ParsedQuery {
+  fts: string;                        // FTS5 MATCH expression
+  terms: string[];                    // Positive terms and phrases (for display)
+  text: string;                       // Positive terms and phrases as plain text (for embedding)
+  excluded: string[];                 // Negated terms and phrases
+  filters: QueryFilters;
+}
+
+/**
+ * Raised when a search query cannot be parsed.
+ * The message is written for the end user and names the offending position.
+ */
+export class QuerySyntaxError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`Invalid search query at position ${position + 1}: ${message}`);
+    this.name = 'QuerySyntaxError';
+  }
+}
+
+type Token =
+  | { kind: 'term'; value: string; prefix: boolean; negated: boolean; position: number }
+  | { kind: 'phrase'; value: string; negated: boolean; position: number }
+  | { kind: 'filter'; field: string; value: string; negated: boolean; position: number }
+  | { kind: 'or'; position: number };
+
+/**
+ * Parse a structured search query.
+ * Throws QuerySyntaxError with a descriptive message on bad syntax.
+ */
+export function parseSearchQuery(query: string): ParsedQuery {
+  const tokens = tokenize(query);
+
+  const filters: QueryFilters = { tags: [] };
+  const clauses: string[][] = [];
+  const terms: string[] = [];
+  const words: string[] = [];
+  const excluded: string[] = [];
+  const excludedFts: string[] = [];
+  let pendingOr: Token | null = null;
+
+  for (const token of tokens) {
+    if (token.kind === 'or') {
+      if (clauses.length === 0 || pendingOr) {
+        throw new QuerySyntaxError('OR must appear between two search terms', token.position);
+      }
+      pendingOr = token;
+      continue;
+    }
+
+    if (token.kind === 'filter') {
+      if (pendingOr) {
+        throw new QuerySyntaxError('OR cannot be combined with a filter', pendingOr.position);
+      }
+      applyFilter(filters, token);
+      continue;
+    }
+
+    const display = token.kind === 'phrase' ? `"${token.value}"` : token.value + (token.prefix ? '*' : '');
+    const ftsTerm = toFtsTerm(token);
+
+    if (token.negated) {
+      if (pendingOr) {
+        throw new QuerySyntaxError('OR cannot be followed by an excluded term', pendingOr.position);
+      }
+      excluded.push(display);
+      excludedFts.push(ftsTerm);
+      continue;
+    }
+
+    terms.push(display);
+    words.push(token.value);
+    if (pendingOr) {
+      clauses[clauses.length - 1].push(ftsTerm);
+      pendingOr = null;
+    } else {
+      clauses.push([ftsTerm]);
+    }
+  }
+
+  if (pendingOr) {
+    throw new QuerySyntaxError('OR must appear between two search terms', pendingOr.position);
+  }
+
+  if (clauses.length === 0) {
+    throw new QuerySyntaxError(
+      excluded.length > 0
+        ? 'query needs at least one term to search for; excluded terms alone cannot be matched'
+        : 'query needs at least one search term (use browse_sessions to filter without text)',
+      query.length
+    );
+  }
+
+  let fts = clauses
+    .map(alternatives => (alternatives.length > 1 ? `(${alternatives.join(' OR ')})` : alternatives[0]))
+    .join(' AND ');
+
+  for (const term of excludedFts) {
+    fts += ` NOT ${term}`;
+  }
+
+  return { fts, terms, text: words.join(' '), excluded, filters };
+}
+
+/**
+ * Split a query into tokens, tracking positions for error messages.
+ */
+function tokenize(query: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    let negated = false;
+
+    if (query[i] === '-' && i + 1 < query.length && !/\s/.test(query[i + 1])) {
+      negated = true;
+      i++;
+    }
+
+    if (query[i] === '"') {
+      const { value, end } = readQuoted(query, i);
+      if (!value.trim()) {
+        throw new QuerySyntaxError('empty phrase ""', start);
+      }
+      tokens.push({ kind: 'phrase', value, negated, position: start });
+      i = end;
+      continue;
+    }
+
+    // Read a bare word, allowing a quoted value directly after "field:"
+    let word = '';
+    let quotedValue: string | null = null;
+    while (i < query.length && !/\s/.test(query[i])) {
+      if (query[i] === '"') {
+        if (!word.endsWith(':')) {
+          throw new QuerySyntaxError('quotes must surround a whole phrase or a filter value', i);
+        }
+        const { value, end } = readQuoted(query, i);
+        quotedValue = value;
+        i = end;
+        break;
+      }
+      word += query[i];
+      i++;
+    }
+
+    if (!negated && word === 'OR' && quotedValue === null) {
+      tokens.push({ kind: 'or', position: start });
+      continue;
+    }
+
+    // Only known fields are filters, so text like localhost:3000 stays searchable;
+    // a quoted value only follows a filter, so there an unknown field is an error
+    const fieldMatch = word.match(/^([A-Za-z_]+):(.*)$/);
+    const field = fieldMatch?.[1].toLowerCase() ?? '';
+    const known = (QUERY_FIELDS as readonly string[]).includes(field);
+    if (fieldMatch && (known || quotedValue !== null)) {
+      const value = (quotedValue ?? fieldMatch[2]).trim();
+
+      if (!known) {
+        throw new QuerySyntaxError(
+          `unknown filter "${fieldMatch[1]}:". Supported filters: ${QUERY_FIELDS.join(', ')}. ` +
+            'Wrap the text in quotes to search for it literally',
+          start
+        );
+      }
+      if (!value) {
+        throw new QuerySyntaxError(`missing value for filter "${field}:"`, start);
+      }
+
+      tokens.push({ kind: 'filter', field, value, negated, position: start });
+      continue;
+    }
+
+    const prefix = word.length > 1 && word.endsWith('*');
+    const value = prefix ? word.slice(0, -1) : word;
+    if (!value || value.includes('*')) {
+      throw new QuerySyntaxError('"*" is only allowed at the end of a term for prefix matching', start);
+    }
+
+    tokens.push({ kind: 'term', value, prefix, negated, position: start });
+  }
+
+  return tokens;
+}
+
+/**
+ * Read a double-quoted string starting at `start` (which must be a quote).
+ */
+function readQuoted(query: string, start: number): { value: string; end: number } {
+  const close = query.indexOf('"', start + 1);
+  if (close === -1) {
+    throw new QuerySyntaxError('unterminated quote', start);
+  }
+  return { value: query.slice(start + 1, close), end: close + 1 };
+}
+
+/**
+ * Record a field:value filter, validating its value.
+ */
+function applyFilter(filters: QueryFilters, token: Extract<Token, { kind: 'filter' }>): void {
+  const field = token.field as QueryField;
+
+  if (token.negated) {
+    throw new QuerySyntaxError(`filters cannot be negated ("-${field}:")`, token.position);
+  }
+
+  if (field === 'tag') {
+    filters.tags.push(token.value.toLowerCase());
+    return;
+  }
+
+  if (filters[field] !== undefined) {
+    throw new QuerySyntaxError(`filter "${field}:" can only be used once`, token.position);
+  }
+
+  switch (field) {
+    case 'role': {
+      const role = token.value.toLowerCase();
+      if (!(ROLES as readonly string[]).includes(role)) {
+        throw new QuerySyntaxError(
+          `invalid role "${token.value}". Expected one of: ${ROLES.join(', ')}`,
+          token.position
+        );
+      }
+      filters.role = role as QueryFilters['role'];
+      break;
+    }
+
+    case 'after':
+    case 'before': {
+      if (!/^\d{4}-\d{2}-\d{2}(T[\d:.]+Z?)?$/.test(token.value) || isNaN(Date.parse(token.value))) {
+        throw new QuerySyntaxError(
+          `invalid date "${token.value}" for "${field}:". Expected YYYY-MM-DD or an ISO 8601 timestamp`,
+          token.position
+        );
+      }
+      filters[field] = token.value;
+      break;
+    }
+
+    case 'project':
+    case 'model':
+    case 'branch':
+      filters[field] = token.value;
+      break;
+  }
+}
+
+/**
+ * Convert a term or phrase token into a quoted FTS5 string.
+ */
+function toFtsTerm(token: Extract<Token, { kind: 'term' | 'phrase' }>): string {
+  const quoted = `"${token.value.replace(/"/g, '""')}"`;
+  return token.kind === 'term' && token.prefix ? `${quoted}*` : quoted;
+}
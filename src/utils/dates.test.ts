@@ -0,0 +1,24 @@
+import { describe, it, expect } from '@jest/globals';
+import { timestampAtOrBefore, endOfDay } from './dates.js';
+
+describe('timestampAtOrBefore', () => {
+  it('covers the whole day of a date-only value', () => {
+    expect(timestampAtOrBefore('m.timestamp', '2025-10-01')).toEqual({ sql: 'm.timestamp < ?', param: '2025-10-02' });
+  });
+
+  it('rolls over months and years', () => {
+    expect(timestampAtOrBefore('t', '2025-02-28').param).toBe('2025-03-01');
+    expect(timestampAtOrBefore('t', '2025-12-31').param).toBe('2026-01-01');
+  });
+
+  it('keeps timestamps as an inclusive bound', () => {
+    expect(timestampAtOrBefore('t', '2025-10-01T10:00:00Z')).toEqual({ sql: 't <= ?', param: '2025-10-01T10:00:00Z' });
+  });
+});
+
+describe('endOfDay', () => {
+  it('extends a date to its last millisecond and keeps timestamps', () => {
+    expect(endOfDay('2025-10-01')).toBe('2025-10-01T23:59:59.999Z');
+    expect(endOfDay('2025-10-01T10:00:00Z')).toBe('2025-10-01T10:00:00Z');
+  });
+});
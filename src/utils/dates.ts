@@ -0,0 +1,32 @@
+/**
+ * Date bounds for search filters
+ *
+ * Filters accept a date (YYYY-MM-DD) or a full ISO 8601 timestamp, while
+ * stored timestamps always carry a time. Upper bounds are inclusive, so a
+ * date-only value has to cover the whole day.
+ */
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * SQL condition and parameter for "column at or before value". A date-only
+ * value becomes "column < next day".
+ */
+export function timestampAtOrBefore(column: string, value: string): { sql: string; param: string } {
+  if (!DATE_ONLY.test(value)) {
+    return { sql: `${column} <= ?`, param: value };
+  }
+
+  const nextDay = new Date(`${value}T00:00:00Z`);
+  nextDay.setUTCDate(nextDay.getUTCDate() + 1);
+  return { sql: `${column} < ?`, param: nextDay.toISOString().slice(0, 10) };
+}
+
+/**
+ * Inclusive upper bound as a timestamp, for stores that only compare with
+ * "<=" (vector store filters): a date-only value becomes the day's last
+ * millisecond.
+ */
+export function endOfDay(value: string): string {
+  return DATE_ONLY.test(value) ? `${value}T23:59:59.999Z` : value;
+}
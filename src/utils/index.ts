@@ -0,0 +1,12 @@
+/**
+ * Utilities barrel export
+ *
+ * Layer-neutral helpers shared by repositories and services.
+ */
+
+export { parseSearchQuery, QuerySyntaxError, QUERY_FIELDS } from './QueryParser.js';
+export type { ParsedQuery, QueryFilters, QueryField } from './QueryParser.js';
+
+export { timestampAtOrBefore, endOfDay } from './dates.js';
+
+export { likeContains } from './sql.js';
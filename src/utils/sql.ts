@@ -0,0 +1,11 @@
+/**
+ * SQL helpers for search filters
+ */
+
+/**
+ * LIKE pattern matching values that contain `value` literally. Use with
+ * ESCAPE '\', so "%" and "_" in the value don't act as wildcards.
+ */
+export function likeContains(value: string): string {
+  return `%${value.replace(/[\\%_]/g, char => `\\${char}`)}%`;
+}